@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { HashRouter, Routes, Route, NavLink } from 'react-router-dom';
-import { Home, BarChart2, Cpu, FileText, Bot, Sliders, Settings, Rss, Filter, LayoutGrid, Newspaper, Server } from 'lucide-react';
+import { Home, BarChart2, Cpu, FileText, Bot, Sliders, Settings, Rss, Filter, LayoutGrid, Newspaper, Server, Database } from 'lucide-react';
 
 import Dashboard from './pages/Dashboard';
 import Backtesting from './pages/Backtesting';
@@ -14,6 +14,7 @@ import MarketScreener from './pages/MarketScreener';
 import MarketOverview from './pages/MarketOverview';
 import News from './pages/News';
 import HealthCheck from './pages/HealthCheck';
+import DataImport from './pages/DataImport';
 
 const navItems = [
   { path: '/', label: 'Live Dashboard', icon: Home },
@@ -25,6 +26,7 @@ const navItems = [
   { path: '/strategy-maker', label: 'Strategy Maker', icon: Cpu },
   { path: '/portfolio-optimisation', label: 'Portfolio Optimisation', icon: Bot },
   { path: '/strategy-documents', label: 'Strategy Docs', icon: FileText },
+  { path: '/data-import', label: 'Data Import', icon: Database },
   { path: '/health-check', label: 'Health Check', icon: Server },
   { path: '/configuration', label: 'Configuration', icon: Settings },
 ];
@@ -77,6 +79,7 @@ const App: React.FC = () => {
             <Route path="/strategy-documents" element={<StrategyDocuments />} />
             <Route path="/portfolio-optimisation" element={<PortfolioOptimisation />} />
             <Route path="/sentiment-analysis" element={<SentimentAnalysis />} />
+            <Route path="/data-import" element={<DataImport />} />
             <Route path="/health-check" element={<HealthCheck />} />
             <Route path="/configuration" element={<Configuration />} />
           </Routes>
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import { Allocation, AssetClassExposure } from '../types';
+import { ChevronDown, ChevronRight, PieChart as PieChartIcon } from 'lucide-react';
+
+interface AllocationBreakdownProps {
+  allocationData: Allocation[];
+  exposureByAssetClass: AssetClassExposure[];
+}
+
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const AllocationBreakdown: React.FC<AllocationBreakdownProps> = ({ allocationData, exposureByAssetClass }) => {
+  const [expandedClass, setExpandedClass] = useState<string | null>(null);
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color">
+      <h3 className="text-lg font-bold mb-1 flex items-center"><PieChartIcon className="mr-2" />Allocation & Exposure</h3>
+      <p className="text-xs text-gray-400 mb-4">Market value of open positions, averaged over the whole backtest period weighted by time held.</p>
+      {exposureByAssetClass.length === 0 ? (
+        <p className="text-sm text-text-secondary">No positions were opened during this backtest.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={allocationData} dataKey="value" nameKey="name" cx="50%" cy="50%" innerRadius={50} outerRadius={100}>
+                  {allocationData.map(entry => <Cell key={entry.name} fill={entry.fill} />)}
+                </Pie>
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' }}
+                  labelStyle={{ color: '#fff' }}
+                  formatter={(value: unknown, name: string) => [typeof value === 'number' ? formatCurrency(value) : '$0', name]}
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="lg:col-span-2 overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-700/50">
+                <tr>
+                  <th className="p-2">Asset Class</th>
+                  <th className="p-2">Avg Exposure</th>
+                  <th className="p-2">% of Equity</th>
+                  <th className="p-2">Time in Market</th>
+                  <th className="p-2">Trades</th>
+                  <th className="p-2">P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exposureByAssetClass.map(row => {
+                  const symbols = allocationData.find(a => a.name === row.assetClass)?.subAllocations || [];
+                  const isExpanded = expandedClass === row.assetClass;
+                  return (
+                    <React.Fragment key={row.assetClass}>
+                      <tr
+                        className="border-b border-border-color hover:bg-gray-700/30 cursor-pointer"
+                        onClick={() => setExpandedClass(isExpanded ? null : row.assetClass)}
+                      >
+                        <td className="p-2 font-medium flex items-center gap-1">
+                          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          {row.assetClass}
+                        </td>
+                        <td className="p-2">{formatCurrency(row.averageExposure)}</td>
+                        <td className="p-2">{row.averageExposurePercent.toFixed(2)}%</td>
+                        <td className="p-2">{(row.timeInMarket * 100).toFixed(1)}%</td>
+                        <td className="p-2">{row.trades}</td>
+                        <td className={`p-2 ${row.pnl >= 0 ? 'text-positive' : 'text-negative'}`}>${row.pnl.toFixed(2)}</td>
+                      </tr>
+                      {isExpanded && symbols.map(symbol => (
+                        <tr key={symbol.name} className="border-b border-border-color text-text-secondary">
+                          <td className="p-2 pl-8">{symbol.name}</td>
+                          <td className="p-2">{formatCurrency(symbol.value)}</td>
+                          <td className="p-2" colSpan={4}>{row.averageExposure > 0 ? ((symbol.value / row.averageExposure) * 100).toFixed(1) : '0.0'}% of class</td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AllocationBreakdown;
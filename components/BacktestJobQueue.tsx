@@ -0,0 +1,39 @@
+import React from 'react';
+import { BacktestJob, BacktestJobMode } from '../services/backtestJobService';
+import { ListOrdered, X } from 'lucide-react';
+
+interface BacktestJobQueueProps {
+  jobs: BacktestJob[];
+  onCancel: (jobId: string) => void;
+}
+
+const MODE_LABELS: { [key in BacktestJobMode]: string } = {
+  backtest: 'Backtest',
+  walkForward: 'Walk-Forward',
+  sweep: 'Parameter Sweep',
+};
+
+const BacktestJobQueue: React.FC<BacktestJobQueueProps> = ({ jobs, onCancel }) => (
+  <div className="bg-primary p-4 rounded-lg border border-border-color space-y-3">
+    <h3 className="font-semibold flex items-center"><ListOrdered className="w-4 h-4 mr-2" />Run Queue ({jobs.length})</h3>
+    {jobs.map(job => (
+      <div key={job.id} className="space-y-1">
+        <div className="flex justify-between items-center gap-2 text-sm">
+          <span className="truncate">
+            <span className={job.status === 'running' ? 'text-accent font-semibold' : 'text-text-secondary'}>{MODE_LABELS[job.mode]}</span>
+            <span className="text-text-secondary"> · {job.label}</span>
+          </span>
+          <button onClick={() => onCancel(job.id)} title={job.status === 'running' ? 'Cancel run' : 'Remove from queue'} className="flex items-center gap-1 text-negative hover:text-red-400 text-xs shrink-0">
+            <X className="w-4 h-4" /> {job.status === 'running' ? 'Cancel' : 'Remove'}
+          </button>
+        </div>
+        <div className="w-full bg-secondary rounded-full h-2 border border-border-color">
+          <div className="bg-accent h-2 rounded-full" style={{ width: `${job.progress.fraction * 100}%`, transition: 'width 0.3s ease-in-out' }}></div>
+        </div>
+        <p className={`text-xs ${job.status === 'running' ? 'text-accent' : 'text-text-secondary'}`}>{job.progress.message}</p>
+      </div>
+    ))}
+  </div>
+);
+
+export default BacktestJobQueue;
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { BacktestRun } from '../types';
+import { getComparisonCurves, getRunLabel, getRunSummary, RUN_SUMMARY_METRICS, RunSummaryMetric } from '../services/runHistoryService';
+import { GitCompare, X } from 'lucide-react';
+
+interface BacktestRunComparisonProps {
+  runs: BacktestRun[]; // The first run is the baseline the others are diffed against
+  onClose: () => void;
+}
+
+const RUN_COLORS = ['#58A6FF', '#D29922', '#238636', '#DA3633', '#A371F7', '#3FB950', '#F778BA', '#8B949E'];
+
+const formatValue = (metric: RunSummaryMetric, value: number) =>
+  metric === 'trades' ? value.toFixed(0) : `${value.toFixed(2)}${RUN_SUMMARY_METRICS[metric].unit}`;
+
+const BacktestRunComparison: React.FC<BacktestRunComparisonProps> = ({ runs, onClose }) => {
+  const curves = useMemo(() => getComparisonCurves(runs), [runs]);
+  const summaries = useMemo(() => runs.map(run => getRunSummary(run.results)), [runs]);
+  const [baseline] = summaries;
+
+  return (
+    <div className="space-y-6 animate-fade-in bg-secondary border border-border-color rounded-lg p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold flex items-center"><GitCompare className="mr-2" />Compare Runs</h2>
+        <button onClick={onClose} title="Close comparison" className="text-gray-400 hover:text-white"><X /></button>
+      </div>
+
+      <div className="bg-primary p-6 rounded-lg border border-border-color h-96">
+        <h3 className="text-lg font-bold mb-4">Equity Curves (% Return on Initial Capital)</h3>
+        <ResponsiveContainer width="100%" height="90%">
+          <LineChart data={curves} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+            <XAxis dataKey="date" stroke="#888" style={{ fontSize: '0.75rem' }} />
+            <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} tickFormatter={(value) => typeof value === 'number' ? `${value.toFixed(0)}%` : ''} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' }}
+              labelStyle={{ color: '#fff' }}
+              formatter={(value: unknown, name: string) => [typeof value === 'number' ? `${value.toFixed(2)}%` : '', name]}
+            />
+            <Legend wrapperStyle={{ fontSize: '0.875rem' }} />
+            {runs.map((run, i) => (
+              <Line key={run.id} type="monotone" dataKey={run.id} name={getRunLabel(run)} stroke={RUN_COLORS[i % RUN_COLORS.length]} strokeWidth={2} dot={false} connectNulls />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-primary p-6 rounded-lg border border-border-color overflow-x-auto">
+        <h3 className="text-lg font-bold mb-1">Metrics</h3>
+        <p className="text-xs text-gray-400 mb-4">Differences are against the first run, the oldest selected.</p>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-700/50">
+            <tr>
+              <th className="p-2">Metric</th>
+              {runs.map((run, i) => (
+                <th key={run.id} className="p-2" style={{ color: RUN_COLORS[i % RUN_COLORS.length] }}>
+                  {run.strategyNames.join(' + ')}
+                  <span className="block text-xs font-normal text-gray-400">{new Date(run.createdAt).toLocaleString()}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(RUN_SUMMARY_METRICS) as RunSummaryMetric[]).map(metric => {
+              const { label, higherIsBetter } = RUN_SUMMARY_METRICS[metric];
+              return (
+                <tr key={metric} className="border-b border-border-color">
+                  <td className="p-2 font-medium">{label}</td>
+                  {summaries.map((summary, i) => {
+                    const diff = summary[metric] - baseline[metric];
+                    const isBetter = higherIsBetter === undefined || diff === 0 ? null : (diff > 0) === higherIsBetter;
+                    return (
+                      <td key={runs[i].id} className="p-2">
+                        {formatValue(metric, summary[metric])}
+                        {i > 0 && (
+                          <span className={`ml-2 text-xs ${isBetter === null ? 'text-gray-400' : isBetter ? 'text-positive' : 'text-negative'}`}>
+                            ({diff >= 0 ? '+' : ''}{formatValue(metric, diff)})
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestRunComparison;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { BacktestRun } from '../types';
+import { getRunSummary } from '../services/runHistoryService';
+import { History, Eye, Trash2 } from 'lucide-react';
+
+interface BacktestRunHistoryProps {
+  runs: BacktestRun[];
+  activeRunId: string | null;
+  compareRunIds: string[];
+  onView: (run: BacktestRun) => void;
+  onToggleCompare: (runId: string) => void;
+  onDelete: (runId: string) => void;
+}
+
+const BacktestRunHistory: React.FC<BacktestRunHistoryProps> = ({ runs, activeRunId, compareRunIds, onView, onToggleCompare, onDelete }) => (
+  <div className="bg-secondary border border-border-color rounded-lg p-6">
+    <h2 className="text-xl font-bold mb-1 flex items-center"><History className="mr-2" />Run History</h2>
+    <p className="text-sm text-text-secondary mb-4">Tick two or more runs to compare them.</p>
+    <div className="overflow-x-auto max-h-80">
+      <table className="w-full text-left text-sm">
+        <thead className="bg-gray-700/50 sticky top-0">
+          <tr>
+            <th className="p-2">Compare</th>
+            <th className="p-2">Run</th>
+            <th className="p-2">Strategies</th>
+            <th className="p-2">Period</th>
+            <th className="p-2">Timeframe</th>
+            <th className="p-2">Return</th>
+            <th className="p-2">Sharpe</th>
+            <th className="p-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map(run => {
+            const { config } = run.results;
+            const summary = getRunSummary(run.results);
+            return (
+              <tr key={run.id} className={`border-b border-border-color hover:bg-gray-700/30 ${run.id === activeRunId ? 'bg-accent/10' : ''}`}>
+                <td className="p-2">
+                  <input
+                    type="checkbox"
+                    checked={compareRunIds.includes(run.id)}
+                    onChange={() => onToggleCompare(run.id)}
+                    className="h-4 w-4 rounded border-gray-300 text-accent bg-primary focus:ring-accent"
+                  />
+                </td>
+                <td className="p-2 whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</td>
+                <td className="p-2">{run.strategyNames.join(', ')}</td>
+                <td className="p-2 whitespace-nowrap">{config.startDate} → {config.endDate}</td>
+                <td className="p-2">{config.timeframe}</td>
+                <td className={`p-2 ${summary.totalReturn >= 0 ? 'text-positive' : 'text-negative'}`}>{summary.totalReturn.toFixed(2)}%</td>
+                <td className="p-2">{summary.sharpe.toFixed(2)}</td>
+                <td className="p-2">
+                  <div className="flex gap-3 justify-end">
+                    <button onClick={() => onView(run)} title="Show tear sheet" className="text-accent hover:text-accent-hover"><Eye className="w-4 h-4" /></button>
+                    <button onClick={() => onDelete(run.id)} title="Delete run" className="text-negative hover:text-red-400"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default BacktestRunHistory;
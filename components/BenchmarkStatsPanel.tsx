@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { BenchmarkStats, RollingBenchmarkPoint, RollingBenchmarkSeries } from '../types';
+import KPI from './KPI';
+import { Scale } from 'lucide-react';
+
+interface BenchmarkStatsPanelProps {
+  stats: BenchmarkStats;
+  rollingStats: RollingBenchmarkSeries[];
+  benchmarkLabel: string;
+}
+
+// Rolling Sharpe and volatility don't depend on the benchmark and are charted in RollingRiskCharts.
+type RollingMetric = Exclude<keyof RollingBenchmarkPoint, 'date' | 'sharpe' | 'volatility'>;
+
+// Fractions (alpha, tracking error) are shown as percentages; the rest are plain ratios.
+const ROLLING_METRICS: { [key in RollingMetric]: { label: string, isPercent: boolean } } = {
+  alpha: { label: 'Alpha', isPercent: true },
+  beta: { label: 'Beta', isPercent: false },
+  correlation: { label: 'Correlation', isPercent: false },
+  informationRatio: { label: 'Information Ratio', isPercent: false },
+  trackingError: { label: 'Tracking Error', isPercent: true },
+};
+
+const formatMetric = (metric: RollingMetric, value: number) =>
+  ROLLING_METRICS[metric].isPercent ? `${(value * 100).toFixed(2)}%` : value.toFixed(2);
+
+const BenchmarkStatsPanel: React.FC<BenchmarkStatsPanelProps> = ({ stats, rollingStats, benchmarkLabel }) => {
+  const [metric, setMetric] = useState<RollingMetric>('beta');
+  const [rollingWindow, setRollingWindow] = useState(rollingStats[0]?.window ?? 63);
+  const series = rollingStats.find(s => s.window === rollingWindow);
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color space-y-4">
+      <h3 className="text-lg font-bold flex items-center"><Scale className="mr-2" />Relative to {benchmarkLabel}</h3>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <KPI metric={{ label: 'Sharpe (Benchmark)', value: `${stats.sharpe.toFixed(2)} (${stats.benchmarkSharpe.toFixed(2)})` }} />
+        <KPI metric={{ label: 'Alpha (ann.)', value: formatMetric('alpha', stats.alpha), changeType: stats.alpha >= 0 ? 'positive' : 'negative' }} />
+        <KPI metric={{ label: 'Beta', value: formatMetric('beta', stats.beta) }} />
+        <KPI metric={{ label: 'Correlation', value: formatMetric('correlation', stats.correlation) }} />
+        <KPI metric={{ label: 'Information Ratio', value: formatMetric('informationRatio', stats.informationRatio) }} />
+        <KPI metric={{ label: 'Tracking Error (ann.)', value: formatMetric('trackingError', stats.trackingError) }} />
+        <KPI metric={{ label: 'Up Capture', value: `${stats.upCapture.toFixed(1)}%` }} />
+        <KPI metric={{ label: 'Down Capture', value: `${stats.downCapture.toFixed(1)}%` }} />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 pt-2">
+        <h4 className="font-semibold flex-grow">Rolling {ROLLING_METRICS[metric].label}</h4>
+        <div>
+          <label htmlFor="rolling-metric" className="block text-xs text-gray-400 mb-1">Metric</label>
+          <select id="rolling-metric" value={metric} onChange={e => setMetric(e.target.value as RollingMetric)} className="bg-secondary border border-border-color rounded-md p-2 text-sm">
+            {(Object.keys(ROLLING_METRICS) as RollingMetric[]).map(m => <option key={m} value={m}>{ROLLING_METRICS[m].label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Window</label>
+          <div className="flex gap-1 bg-secondary border border-border-color p-1 rounded-md">
+            {rollingStats.map(s => (
+              <button
+                key={s.window}
+                onClick={() => setRollingWindow(s.window)}
+                className={`text-sm py-1 px-3 rounded transition-colors ${s.window === rollingWindow ? 'bg-accent text-white' : 'hover:bg-primary'}`}
+              >{s.window} bars</button>
+            ))}
+          </div>
+        </div>
+      </div>
+      {series && series.points.length > 0 ? (
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={series.points} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+              <XAxis dataKey="date" stroke="#888" style={{ fontSize: '0.75rem' }} />
+              <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} tickFormatter={(value) => typeof value === 'number' ? formatMetric(metric, value) : ''} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' }}
+                labelStyle={{ color: '#fff' }}
+                formatter={(value: unknown) => [typeof value === 'number' ? formatMetric(metric, value) : '', ROLLING_METRICS[metric].label]}
+              />
+              <ReferenceLine y={0} stroke="#8B949E" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey={metric} stroke="#58A6FF" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-text-secondary">The backtest is shorter than {rollingWindow} bars, so there is no rolling window to show.</p>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkStatsPanel;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AllocationMethod, CapitalAllocation, RebalanceFrequency, SavedStrategy } from '../types';
+import { ALLOCATION_METHOD_LABELS, REBALANCE_FREQUENCY_LABELS } from '../constants';
+import { getTargetWeights } from '../services/capitalAllocationService';
+
+interface CapitalAllocationEditorProps {
+  allocation: CapitalAllocation;
+  strategies: SavedStrategy[]; // The strategies selected for the run, in run order
+  onChange: (allocation: CapitalAllocation) => void;
+}
+
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+
+const CapitalAllocationEditor: React.FC<CapitalAllocationEditorProps> = ({ allocation, strategies, onChange }) => {
+  const strategyIds = strategies.map(s => s.id);
+  const startingWeights = getTargetWeights(allocation, strategyIds, strategyIds.map(() => []));
+
+  // A cleared weight falls back to the average of the others.
+  const setWeight = (strategyId: string, value: string) => {
+    const { [strategyId]: _, ...weights } = allocation.weights;
+    onChange({ ...allocation, weights: value === '' ? weights : { ...weights, [strategyId]: Math.max(0, Number(value)) } });
+  };
+
+  return (
+    <div className="bg-primary p-4 rounded-lg border border-border-color space-y-4">
+      <div>
+        <h3 className="font-semibold">Capital Allocation</h3>
+        <p className="text-xs text-text-secondary">
+          Each strategy trades its own sleeve of the capital. Rebalancing only moves free cash, never closes positions.
+          {allocation.method === 'equalRisk' && ' Equal risk starts from equal weights until the sleeves have enough returns to measure.'}
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+        <div>
+          <label htmlFor="allocation-method" className="block text-xs text-gray-400 mb-1">Method</label>
+          <select id="allocation-method" value={allocation.method} onChange={e => onChange({ ...allocation, method: e.target.value as AllocationMethod })} className={inputClass}>
+            {(Object.keys(ALLOCATION_METHOD_LABELS) as AllocationMethod[]).map(m => <option key={m} value={m}>{ALLOCATION_METHOD_LABELS[m]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="allocation-rebalance" className="block text-xs text-gray-400 mb-1">Rebalance</label>
+          <select id="allocation-rebalance" value={allocation.rebalance} onChange={e => onChange({ ...allocation, rebalance: e.target.value as RebalanceFrequency })} className={inputClass}>
+            {(Object.keys(REBALANCE_FREQUENCY_LABELS) as RebalanceFrequency[]).map(f => <option key={f} value={f}>{REBALANCE_FREQUENCY_LABELS[f]}</option>)}
+          </select>
+        </div>
+        {allocation.method === 'equalRisk' && (
+          <div>
+            <label htmlFor="allocation-lookback" className="block text-xs text-gray-400 mb-1">Volatility Lookback (bars)</label>
+            <input
+              type="number"
+              id="allocation-lookback"
+              min={2}
+              value={allocation.riskLookbackBars}
+              onChange={e => onChange({ ...allocation, riskLookbackBars: Math.max(2, Math.floor(Number(e.target.value))) })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+      {strategies.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+          {strategies.map((strategy, k) => (
+            <div key={strategy.id}>
+              <label htmlFor={`weight-${strategy.id}`} className="block text-xs text-gray-400 mb-1 truncate">
+                {strategy.name} ({(startingWeights[k] * 100).toFixed(1)}%)
+              </label>
+              {allocation.method === 'fixedWeights' && (
+                <input
+                  type="number"
+                  id={`weight-${strategy.id}`}
+                  min={0}
+                  step={0.1}
+                  placeholder="Average"
+                  value={allocation.weights[strategy.id] ?? ''}
+                  onChange={e => setWeight(strategy.id, e.target.value)}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapitalAllocationEditor;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { AssetClass, CommissionModel, CommissionTier, CommissionType, CostModel, CostModels, SlippageType } from '../types';
+import { ASSET_CLASSES, DEFAULT_COMMISSION_TIERS, DEFAULT_COST_MODELS } from '../constants';
+import { describeCommission, describeSlippage } from '../services/costModelService';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+interface CostModelEditorProps {
+  costModels: CostModels;
+  onChange: (costModels: CostModels) => void;
+}
+
+const COMMISSION_TYPE_LABELS: { [key in CommissionType]: string } = {
+  flat: 'Flat per order',
+  perShare: 'Per share / unit',
+  perNotional: '% of notional',
+  tiered: 'Tiered % of notional',
+};
+
+const COMMISSION_AMOUNT_LABELS: { [key in Exclude<CommissionType, 'tiered'>]: string } = {
+  flat: 'Fee ($ per order)',
+  perShare: 'Fee ($ per share)',
+  perNotional: 'Fee (% of notional)',
+};
+
+const SLIPPAGE_TYPE_LABELS: { [key in SlippageType]: string } = {
+  percent: 'Fixed % per fill',
+  spread: 'Bid-ask spread',
+};
+
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+
+const CostModelEditor: React.FC<CostModelEditorProps> = ({ costModels, onChange }) => {
+  const [assetClass, setAssetClass] = useState<AssetClass>(AssetClass.USStocks);
+  const model = costModels[assetClass];
+
+  const updateModel = (changes: Partial<CostModel>) => onChange({ ...costModels, [assetClass]: { ...model, ...changes } });
+  const updateCommission = (changes: Partial<CommissionModel>) => updateModel({ commission: { ...model.commission, ...changes } });
+  const updateTier = (index: number, changes: Partial<CommissionTier>) =>
+    updateCommission({ tiers: model.commission.tiers.map((tier, i) => i === index ? { ...tier, ...changes } : tier) });
+
+  // The open-ended top tier stays last; new tiers are inserted just below it.
+  const addTier = () => {
+    const tiers = model.commission.tiers;
+    const bounded = tiers.filter(t => t.upTo !== null);
+    const upTo = (bounded[bounded.length - 1]?.upTo ?? 0) * 10 || 10000;
+    updateCommission({ tiers: [...bounded, { upTo, rate: tiers[tiers.length - 1]?.rate ?? 0.05 }, ...tiers.filter(t => t.upTo === null)] });
+  };
+
+  return (
+    <div className="bg-primary p-4 rounded-lg border border-border-color space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-semibold">Transaction Costs</h3>
+        <div className="flex items-center gap-3">
+          <select value={assetClass} onChange={e => setAssetClass(e.target.value as AssetClass)} className="bg-secondary border border-border-color rounded-md p-1 text-sm">
+            {ASSET_CLASSES.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+          <button onClick={() => onChange({ ...costModels, [assetClass]: DEFAULT_COST_MODELS[assetClass] })} title="Reset this asset class to its defaults" className="flex items-center gap-1 text-sm text-accent hover:text-accent-hover">
+            <RotateCcw className="w-4 h-4" /> Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <div className="col-span-2">
+          <label className="block text-xs text-gray-400 mb-1">Commission Model</label>
+          <select
+            value={model.commission.type}
+            onChange={e => updateCommission({ type: e.target.value as CommissionType, tiers: model.commission.tiers.length > 0 ? model.commission.tiers : DEFAULT_COMMISSION_TIERS })}
+            className={inputClass}
+          >
+            {(Object.keys(COMMISSION_TYPE_LABELS) as CommissionType[]).map(t => <option key={t} value={t}>{COMMISSION_TYPE_LABELS[t]}</option>)}
+          </select>
+        </div>
+        {model.commission.type !== 'tiered' && (
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">{COMMISSION_AMOUNT_LABELS[model.commission.type]}</label>
+            <input type="number" min={0} step={0.001} value={model.commission.amount} onChange={e => updateCommission({ amount: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Minimum ($ per order)</label>
+          <input type="number" min={0} step={0.5} value={model.commission.minimum} onChange={e => updateCommission({ minimum: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </div>
+      </div>
+
+      {model.commission.type === 'tiered' && (
+        <div className="space-y-2">
+          {model.commission.tiers.map((tier, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+              <div className="col-span-1 md:col-span-2">
+                <label className="block text-xs text-gray-400 mb-1">Notional up to ($)</label>
+                {tier.upTo === null
+                  ? <p className="p-2 text-sm text-text-secondary">No limit</p>
+                  : <input type="number" min={0} value={tier.upTo} onChange={e => updateTier(index, { upTo: Math.max(0, Number(e.target.value)) })} className={inputClass} />}
+              </div>
+              <div className="flex gap-2 items-end">
+                <div className="flex-grow">
+                  <label className="block text-xs text-gray-400 mb-1">Rate (%)</label>
+                  <input type="number" min={0} step={0.01} value={tier.rate} onChange={e => updateTier(index, { rate: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+                </div>
+                {tier.upTo !== null && (
+                  <button onClick={() => updateCommission({ tiers: model.commission.tiers.filter((_, i) => i !== index) })} title="Remove tier" className="text-negative hover:text-red-400 p-2">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          <button onClick={addTier} className="flex items-center gap-1 text-sm text-accent hover:text-accent-hover">
+            <Plus className="w-4 h-4" /> Add Tier
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <div className="col-span-2">
+          <label className="block text-xs text-gray-400 mb-1">Slippage Model</label>
+          <select value={model.slippageType} onChange={e => updateModel({ slippageType: e.target.value as SlippageType })} className={inputClass}>
+            {(Object.keys(SLIPPAGE_TYPE_LABELS) as SlippageType[]).map(t => <option key={t} value={t}>{SLIPPAGE_TYPE_LABELS[t]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">{model.slippageType === 'spread' ? 'Spread (bps)' : 'Slippage (%)'}</label>
+          <input type="number" min={0} step={0.01} value={model.slippage} onChange={e => updateModel({ slippage: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Market Impact (0 = off)</label>
+          <input type="number" min={0} step={0.05} value={model.impactCoefficient} onChange={e => updateModel({ impactCoefficient: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </div>
+      </div>
+
+      <p className="text-xs text-text-secondary">
+        {assetClass}: {describeCommission(model.commission)}, {describeSlippage(model)}. Costs apply to both entry and exit orders;
+        market impact grows with the square root of the order's share of bar volume and is skipped for bars without volume.
+      </p>
+    </div>
+  );
+};
+
+export default CostModelEditor;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { DataQualityAction, DataQualityReport, DataQualityStatus } from '../types';
+import { DATA_QUALITY_ACTION_LABELS, DATA_QUALITY_ISSUE_LABELS, TRADING_CALENDAR_LABELS } from '../constants';
+import { getFlaggedSymbols } from '../services/dataQualityService';
+import { ClipboardCheck } from 'lucide-react';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  onAction?: (action: DataQualityAction) => void; // Shown before a run; without it the panel just records what was done
+}
+
+const STATUS_CLASSES: { [key in DataQualityStatus]: string } = {
+  ok: 'text-positive',
+  warning: 'text-yellow-400',
+  fail: 'text-negative',
+};
+
+const describeOutcome = (report: DataQualityReport) => {
+  if (!report.action) return null;
+  const parts = [`Handled with "${DATA_QUALITY_ACTION_LABELS[report.action]}".`];
+  if (report.filledBars > 0) parts.push(`${report.filledBars} bars were filled or repaired.`);
+  if (report.excludedSymbols.length > 0) parts.push(`Excluded: ${report.excludedSymbols.join(', ')}.`);
+  return parts.join(' ');
+};
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report, onAction }) => {
+  const flagged = getFlaggedSymbols(report);
+  const actions = Object.keys(DATA_QUALITY_ACTION_LABELS) as DataQualityAction[];
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color">
+      <h3 className="text-lg font-bold mb-1 flex items-center"><ClipboardCheck className="mr-2" />Data Quality</h3>
+      <p className="text-xs text-text-secondary mb-4">
+        {flagged.length} of {report.symbols.length} symbols flagged for {report.timeframe} bars from {report.startDate} to {report.endDate}.
+        {' '}{onAction
+          ? 'Forward-filling repairs zero or negative prices and, for daily bars, fills missing sessions with the last close; other warnings are left as they are.'
+          : describeOutcome(report)}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-700/50">
+            <tr>
+              <th className="p-2">Symbol</th>
+              <th className="p-2">Calendar</th>
+              <th className="p-2">Bars</th>
+              <th className="p-2">Coverage</th>
+              <th className="p-2">Issues</th>
+              <th className="p-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.symbols.map(quality => (
+              <tr key={quality.symbol} className="border-b border-border-color align-top">
+                <td className="p-2 font-medium">{quality.symbol}</td>
+                <td className="p-2">{TRADING_CALENDAR_LABELS[quality.calendar] ?? quality.calendar}</td>
+                <td className="p-2">{quality.bars}</td>
+                <td className="p-2">{quality.expectedSessions > 0 ? `${(quality.coverage * 100).toFixed(1)}%` : '-'}</td>
+                <td className="p-2">
+                  {quality.issues.length === 0 ? '-' : (
+                    <ul className="space-y-0.5">
+                      {quality.issues.map(issue => (
+                        <li key={issue.type} className={STATUS_CLASSES[issue.severity]} title={issue.examples.length > 0 ? `e.g. ${issue.examples.join(', ')}` : undefined}>
+                          {DATA_QUALITY_ISSUE_LABELS[issue.type]}{issue.count > 0 ? ` (${issue.count})` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+                <td className={`p-2 font-semibold ${STATUS_CLASSES[quality.status]}`}>{quality.status}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {onAction && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {actions.map(action => (
+            <button
+              key={action}
+              onClick={() => onAction(action)}
+              className={`${action === 'abort' ? 'bg-secondary border border-border-color' : 'bg-accent text-white'} font-semibold py-2 px-4 rounded-md hover:opacity-90 transition-colors`}
+            >
+              {DATA_QUALITY_ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { DrawdownPeriod } from '../types';
+import { TrendingDown } from 'lucide-react';
+
+interface DrawdownPeriodsTableProps {
+  periods: DrawdownPeriod[];
+}
+
+const TOP_N_OPTIONS = [5, 10, 20];
+
+const DrawdownPeriodsTable: React.FC<DrawdownPeriodsTableProps> = ({ periods }) => {
+  const [topN, setTopN] = useState(TOP_N_OPTIONS[0]);
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold flex items-center"><TrendingDown className="mr-2" />Worst Drawdown Periods</h3>
+        <select value={topN} onChange={e => setTopN(Number(e.target.value))} className="bg-secondary border border-border-color rounded-md p-2 text-sm">
+          {TOP_N_OPTIONS.map(n => <option key={n} value={n}>Top {n}</option>)}
+        </select>
+      </div>
+      {periods.length === 0 ? (
+        <p className="text-sm text-text-secondary">Equity never fell below its previous high.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-700/50">
+              <tr>
+                <th className="p-2">#</th>
+                <th className="p-2">Depth</th>
+                <th className="p-2">Start</th>
+                <th className="p-2">Trough</th>
+                <th className="p-2">Recovery</th>
+                <th className="p-2">Duration</th>
+                <th className="p-2">Time to Recover</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.slice(0, topN).map((period, index) => (
+                <tr key={period.start} className="border-b border-border-color hover:bg-gray-700/30">
+                  <td className="p-2 font-medium">{index + 1}</td>
+                  <td className="p-2 text-negative">{(period.depth * 100).toFixed(2)}%</td>
+                  <td className="p-2">{period.start}</td>
+                  <td className="p-2">{period.trough}</td>
+                  <td className="p-2">{period.recovery ?? <span className="text-yellow-400">Not recovered</span>}</td>
+                  <td className="p-2">{period.durationBars} bars ({period.durationDays}d)</td>
+                  <td className="p-2">{period.recoveryBars === null ? '-' : `${period.recoveryBars} bars`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrawdownPeriodsTable;
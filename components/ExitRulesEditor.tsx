@@ -0,0 +1,78 @@
+import React from 'react';
+import { ExitRules, TakeProfitLevel } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ExitRulesEditorProps {
+  rules: ExitRules;
+  onChange: (rules: ExitRules) => void;
+}
+
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+
+const ExitRulesEditor: React.FC<ExitRulesEditorProps> = ({ rules, onChange }) => {
+  const levels = rules.takeProfitLevels;
+  const allocated = levels.reduce((sum, level) => sum + level.percent, 0);
+
+  const updateLevel = (index: number, changes: Partial<TakeProfitLevel>) =>
+    onChange({ ...rules, takeProfitLevels: levels.map((level, i) => i === index ? { ...level, ...changes } : level) });
+
+  // New targets sit 1R beyond the furthest one and take half of whatever is still unallocated.
+  const addLevel = () => {
+    const rMultiple = Math.max(0, ...levels.map(l => l.rMultiple)) + 1;
+    onChange({ ...rules, takeProfitLevels: [...levels, { rMultiple, percent: Math.max(0, Math.round((100 - allocated) / 2)) }] });
+  };
+
+  return (
+    <div className="bg-primary p-4 rounded-lg border border-border-color space-y-4">
+      <div>
+        <h3 className="font-semibold">Exit Rules</h3>
+        <p className="text-xs text-text-secondary">Applied on top of the fixed stop and target, in backtests and by the live bot; set a rule to 0 to turn it off.</p>
+      </div>
+      <div className="grid grid-cols-3 gap-2 items-end">
+        <div>
+          <label htmlFor="exit-trailing" className="block text-xs text-gray-400 mb-1">Trailing Stop (× ATR)</label>
+          <input type="number" id="exit-trailing" min={0} step={0.5} value={rules.trailingStopAtr} onChange={e => onChange({ ...rules, trailingStopAtr: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="exit-break-even" className="block text-xs text-gray-400 mb-1">Break-Even At (R)</label>
+          <input type="number" id="exit-break-even" min={0} step={0.5} value={rules.breakEvenAtR} onChange={e => onChange({ ...rules, breakEvenAtR: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="exit-max-bars" className="block text-xs text-gray-400 mb-1">Time Stop (bars)</label>
+          <input type="number" id="exit-max-bars" min={0} value={rules.maxHoldingBars} onChange={e => onChange({ ...rules, maxHoldingBars: Math.max(0, Math.round(Number(e.target.value))) })} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-xs text-gray-400">Partial Take-Profits</label>
+        {levels.map((level, index) => (
+          <div key={index} className="grid grid-cols-3 gap-2 items-end">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">At (R)</label>
+              <input type="number" min={0} step={0.5} value={level.rMultiple} onChange={e => updateLevel(index, { rMultiple: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Close (% of position)</label>
+              <input type="number" min={0} max={100} value={level.percent} onChange={e => updateLevel(index, { percent: Math.min(100, Math.max(0, Number(e.target.value))) })} className={inputClass} />
+            </div>
+            <button onClick={() => onChange({ ...rules, takeProfitLevels: levels.filter((_, i) => i !== index) })} title="Remove level" className="text-negative hover:text-red-400 p-2 justify-self-start">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button onClick={addLevel} className="flex items-center gap-1 text-sm text-accent hover:text-accent-hover">
+          <Plus className="w-4 h-4" /> Add Level
+        </button>
+        <p className={`text-xs ${allocated > 100 ? 'text-negative' : 'text-text-secondary'}`}>
+          {levels.length === 0
+            ? 'The whole position exits at the strategy\'s target.'
+            : allocated > 100
+              ? `Levels add up to ${allocated}%; the furthest ones only close what is left.`
+              : `${allocated}% closes at these levels and the rest at the strategy's target, stop or time stop.`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ExitRulesEditor;
@@ -31,11 +31,12 @@ const MiniChart: React.FC<MiniChartProps> = ({ asset, color }) => {
                          <Tooltip
                             contentStyle={{ backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' }}
                             labelStyle={{ color: '#fff' }}
-                            formatter={(value: number) => {
+                            formatter={(value: number, name: string) => {
+                                if (typeof value !== 'number') return ['-', null];
                                 const formattedValue = asset.name.includes('Yield')
                                     ? `${value.toFixed(3)}%`
                                     : value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
-                                return [formattedValue, null];
+                                return [formattedValue, name === 'sma' ? 'SMA' : null];
                             }}
                             labelFormatter={(label, payload) => payload?.[0]?.payload?.date || ''}
                             cursor={{ stroke: '#8B949E', strokeWidth: 1, strokeDasharray: '2 2' }}
@@ -47,6 +48,15 @@ const MiniChart: React.FC<MiniChartProps> = ({ asset, color }) => {
                             strokeWidth={2}
                             dot={false}
                         />
+                        <Line
+                            type="monotone"
+                            dataKey="sma"
+                            stroke="#8B949E"
+                            strokeWidth={1}
+                            strokeDasharray="3 3"
+                            dot={false}
+                            isAnimationActive={false}
+                        />
                     </LineChart>
                 </ResponsiveContainer>
             </div>
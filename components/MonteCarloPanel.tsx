@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ComposedChart, Area, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { MonteCarloConfig, MonteCarloResults, Trade } from '../types';
+import { runMonteCarloInWorker } from '../services/monteCarloService';
+import KPI from './KPI';
+import { Dices } from 'lucide-react';
+
+interface MonteCarloPanelProps {
+  trades: Trade[];
+  initialCapital: number;
+}
+
+const tooltipStyle = { backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' };
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ trades, initialCapital }) => {
+  const [config, setConfig] = useState<MonteCarloConfig>({ simulations: 5000, method: 'shuffle', ruinDrawdown: 50, seed: 42 });
+  const [results, setResults] = useState<MonteCarloResults | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    setProgress(0);
+    try {
+      // Simulate in the order trades actually closed, whatever order the log is displayed in.
+      const tradePnls = [...trades].sort((a, b) => (a.exitDate || '').localeCompare(b.exitDate || '')).map(t => t.pnl);
+      setResults(await runMonteCarloInWorker({ tradePnls, initialCapital, config }, setProgress));
+    } catch (e: any) {
+      setError(e.message || 'Monte Carlo simulation failed.');
+    }
+    setIsRunning(false);
+  };
+
+  const median = results?.terminalEquityPercentiles.find(p => p.percentile === 50)?.value ?? 0;
+  const worstCase = results?.terminalEquityPercentiles.find(p => p.percentile === 5)?.value ?? 0;
+  const p95Drawdown = results?.maxDrawdownPercentiles.find(p => p.percentile === 95)?.value ?? 0;
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color space-y-4">
+      <h3 className="text-lg font-bold flex items-center"><Dices className="mr-2" />Monte Carlo Robustness</h3>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label htmlFor="mc-simulations" className="block text-sm font-medium text-gray-300 mb-1">Simulations</label>
+          <input type="number" id="mc-simulations" min={100} max={100000} step={500} value={config.simulations} onChange={e => setConfig({ ...config, simulations: Math.min(100000, Math.max(100, Math.floor(Number(e.target.value)))) })} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="mc-method" className="block text-sm font-medium text-gray-300 mb-1">Method</label>
+          <select id="mc-method" value={config.method} onChange={e => setConfig({ ...config, method: e.target.value as MonteCarloConfig['method'] })} className={inputClass}>
+            <option value="shuffle">Shuffle trade order</option>
+            <option value="bootstrap">Resample with replacement</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="mc-ruin" className="block text-sm font-medium text-gray-300 mb-1">Ruin at Loss of (%)</label>
+          <input type="number" id="mc-ruin" min={1} max={100} value={config.ruinDrawdown} onChange={e => setConfig({ ...config, ruinDrawdown: Math.min(100, Math.max(1, Number(e.target.value))) })} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="mc-seed" className="block text-sm font-medium text-gray-300 mb-1">Seed</label>
+          <input type="number" id="mc-seed" value={config.seed} onChange={e => setConfig({ ...config, seed: Math.floor(Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || trades.length < 2}
+          className="bg-accent hover:bg-accent-hover text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed"
+        >
+          {isRunning ? `Simulating... ${(progress * 100).toFixed(0)}%` : 'Run Monte Carlo'}
+        </button>
+      </div>
+      {config.method === 'shuffle' && <p className="text-xs text-gray-400">Shuffling keeps every trade, so terminal equity is the same on every path; only the path (and its drawdowns) changes.</p>}
+      {error && <p className="text-negative text-sm">{error}</p>}
+
+      {results && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <KPI metric={{ label: 'Probability of Ruin', value: `${(results.probabilityOfRuin * 100).toFixed(2)}%`, changeType: results.probabilityOfRuin > 0.05 ? 'negative' : 'positive' }} />
+            <KPI metric={{ label: 'Median Terminal Equity', value: formatCurrency(median) }} />
+            <KPI metric={{ label: '5th Percentile Equity', value: formatCurrency(worstCase) }} />
+            <KPI metric={{ label: '95th Percentile Max DD', value: `${p95Drawdown.toFixed(2)}%` }} />
+          </div>
+
+          <div className="h-96">
+            <h4 className="font-semibold mb-2">Equity Confidence Bands ({results.config.simulations.toLocaleString()} paths)</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <ComposedChart data={results.bands} margin={{ top: 5, right: 20, left: 20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+                <XAxis dataKey="trade" stroke="#888" style={{ fontSize: '0.75rem' }} label={{ value: 'Trade #', position: 'insideBottomRight', offset: -5, fill: '#888' }} />
+                <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`} domain={['dataMin', 'dataMax']} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} labelFormatter={(label) => `After trade ${label}`} formatter={(value: unknown) => Array.isArray(value) ? value.map(v => formatCurrency(v)).join(' – ') : typeof value === 'number' ? formatCurrency(value) : ''} />
+                <Legend />
+                <Area type="monotone" dataKey={(d) => [d.p5, d.p95]} name="5th–95th pct" stroke="none" fill="#58A6FF" fillOpacity={0.15} />
+                <Area type="monotone" dataKey={(d) => [d.p25, d.p75]} name="25th–75th pct" stroke="none" fill="#58A6FF" fillOpacity={0.3} />
+                <Line type="monotone" dataKey="p50" name="Median" stroke="#58A6FF" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 h-80">
+              <h4 className="font-semibold mb-2">Max Drawdown Distribution</h4>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={results.maxDrawdownDistribution} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+                  <XAxis dataKey="bucket" stroke="#888" style={{ fontSize: '0.75rem' }} />
+                  <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} />
+                  <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} formatter={(value: unknown) => [value as number, 'Paths']} />
+                  <Bar dataKey="count" fill="#DA3633" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h4 className="font-semibold mb-2">Percentile Outcomes</h4>
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-700/50">
+                  <tr>
+                    <th className="p-2">Percentile</th>
+                    <th className="p-2">Terminal Equity</th>
+                    <th className="p-2">Max DD</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.terminalEquityPercentiles.map((p, i) => (
+                    <tr key={p.percentile} className="border-b border-border-color">
+                      <td className="p-2">{p.percentile}th</td>
+                      <td className={`p-2 ${p.value >= initialCapital ? 'text-positive' : 'text-negative'}`}>{formatCurrency(p.value)}</td>
+                      <td className="p-2">{results.maxDrawdownPercentiles[i].value.toFixed(2)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { MonthlyReturnsRow } from '../types';
+import { CalendarDays } from 'lucide-react';
+
+interface MonthlyReturnsHeatmapProps {
+  rows: MonthlyReturnsRow[];
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Green for gains and red for losses, more saturated the further a month is from flat.
+const getReturnColor = (value: number, maxAbs: number) => {
+  const intensity = maxAbs > 0 ? Math.min(1, Math.abs(value) / maxAbs) : 0;
+  return value >= 0 ? `rgba(35, 134, 54, ${0.15 + intensity * 0.75})` : `rgba(218, 54, 51, ${0.15 + intensity * 0.75})`;
+};
+
+const MonthlyReturnsHeatmap: React.FC<MonthlyReturnsHeatmapProps> = ({ rows }) => {
+  const maxAbs = Math.max(0, ...rows.flatMap(r => r.months.filter((m): m is number => m !== null).map(Math.abs)));
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color">
+      <h3 className="text-lg font-bold mb-4 flex items-center"><CalendarDays className="mr-2" />Monthly Returns (%)</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-center border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr className="text-gray-400">
+              <th className="p-1 text-left font-normal">Year</th>
+              {MONTHS.map(m => <th key={m} className="p-1 font-normal">{m}</th>)}
+              <th className="p-1 font-semibold">Year</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.year}>
+                <td className="p-1 text-left font-medium">{row.year}</td>
+                {row.months.map((value, i) => (
+                  <td
+                    key={MONTHS[i]}
+                    className="p-2 rounded text-white"
+                    style={{ backgroundColor: value === null ? 'transparent' : getReturnColor(value, maxAbs) }}
+                  >
+                    {value === null ? '' : value.toFixed(1)}
+                  </td>
+                ))}
+                <td className={`p-2 rounded font-semibold ${row.total >= 0 ? 'text-positive' : 'text-negative'} bg-secondary`}>{row.total.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MonthlyReturnsHeatmap;
@@ -1,11 +1,13 @@
 
 import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Scatter } from 'recharts';
-import { PerformanceDataPoint, Trade } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Scatter, ReferenceLine } from 'recharts';
+import { MarginEvent, PerformanceDataPoint, Trade } from '../types';
 
 interface PerformanceChartProps {
   data: PerformanceDataPoint[];
   trades: Trade[];
+  benchmarkLabel?: string;
+  marginEvents?: MarginEvent[];
 }
 
 const CustomDot: React.FC<any> = (props) => {
@@ -24,7 +26,7 @@ const CustomDot: React.FC<any> = (props) => {
   return null;
 };
 
-const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, trades }) => {
+const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, trades, benchmarkLabel = 'S&P 500', marginEvents = [] }) => {
     
     // Create a map of trade dates for efficient lookup in the CustomDot component
     const tradeMarkersByDate = React.useMemo(() => {
@@ -33,11 +35,9 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, trades }) =>
             const dataDates = data.map(d => d.date);
             const step = Math.floor(dataDates.length / trades.length);
             trades.forEach((trade, index) => {
-                const dateIndex = Math.min(index * step, dataDates.length - 1);
-                const date = dataDates[dateIndex];
+                // Backtest trades carry their real entry date; live trades are spread across the curve.
+                const date = trade.entryDate ?? dataDates[Math.min(index * step, dataDates.length - 1)];
                 if (date) {
-                    // Mark entry points as 'buy' and exit points as 'sell'
-                    // For simplicity, we'll mark the entry
                      map[date] = { type: 'buy' }; // All entries are green dots
                 }
             });
@@ -53,8 +53,7 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, trades }) =>
             const step = Math.floor(dataDates.length / trades.length);
 
             trades.forEach((trade, index) => {
-                const dateIndex = Math.min((index * step) + 1, dataDates.length - 1); // approximate exit
-                const date = dataDates[dateIndex];
+                const date = trade.exitDate ?? dataDates[Math.min((index * step) + 1, dataDates.length - 1)]; // approximate exit
                  if (date && dateToValueMap.has(date)) {
                    markers.push({ date, value: dateToValueMap.get(date), fill: '#DA3633' });
                 }
@@ -79,7 +78,7 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, trades }) =>
             labelStyle={{ color: '#fff' }}
           />
           <Legend wrapperStyle={{ bottom: 0 }} />
-          <Line type="monotone" dataKey="sp500" stroke="#8B949E" strokeWidth={2} dot={false} name="S&P 500" />
+          <Line type="monotone" dataKey="sp500" stroke="#8B949E" strokeWidth={2} dot={false} name={benchmarkLabel} />
           <Line 
             type="monotone" 
             dataKey="strategy" 
@@ -90,6 +89,15 @@ const PerformanceChart: React.FC<PerformanceChartProps> = ({ data, trades }) =>
             activeDot={{ r: 6 }}
           />
           <Scatter data={tradeExitMarkers} fill="#DA3633" shape="circle" name="Sell"/>
+          {marginEvents.map(event => (
+            <ReferenceLine
+              key={event.date}
+              x={event.date}
+              stroke="#D29922"
+              strokeDasharray="4 2"
+              label={{ value: event.liquidatedSymbols.length > 0 ? 'Liquidation' : 'Margin call', position: 'insideTop', fill: '#D29922', fontSize: 10 }}
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
   );
@@ -0,0 +1,70 @@
+import React from 'react';
+import { PositionSizing, PositionSizingMethod } from '../types';
+import { POSITION_SIZING_METHOD_LABELS } from '../constants';
+import { describePositionSizing, KELLY_MIN_TRADES, KELLY_NO_EDGE_SHARE } from '../services/positionSizingService';
+
+interface PositionSizingEditorProps {
+  sizing: PositionSizing;
+  onChange: (sizing: PositionSizing) => void;
+}
+
+type SizingField = Exclude<keyof PositionSizing, 'method'>;
+
+const FIELD_LABELS: { [key in SizingField]: string } = {
+  equityPercent: 'Margin (% of equity)',
+  riskPercent: 'Risk per Trade (% of equity)',
+  volatilityPercent: 'Per ATR Move (% of equity)',
+  kellyFraction: 'Kelly Fraction (× full)',
+  kellyLookback: 'Lookback (trades)',
+  maxEquityPercent: 'Max Margin (% of equity)',
+};
+
+// The method's own inputs, then its fallback size and the cap every method shares.
+const METHOD_FIELDS: { [key in PositionSizingMethod]: SizingField[] } = {
+  fixedFraction: ['equityPercent', 'maxEquityPercent'],
+  riskPerTrade: ['riskPercent', 'maxEquityPercent'],
+  volatilityTarget: ['volatilityPercent', 'equityPercent', 'maxEquityPercent'],
+  kelly: ['kellyFraction', 'kellyLookback', 'equityPercent', 'maxEquityPercent'],
+};
+
+const FALLBACK_NOTES: { [key in PositionSizingMethod]: string } = {
+  fixedFraction: '',
+  riskPerTrade: ' Tighter stops give larger positions.',
+  volatilityTarget: ' Uses the fixed margin until the ATR has warmed up.',
+  kelly: ` Uses the fixed margin until ${KELLY_MIN_TRADES} trades have closed, and ${KELLY_NO_EDGE_SHARE * 100}% of it while the recent trades show no edge.`,
+};
+
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+
+const PositionSizingEditor: React.FC<PositionSizingEditorProps> = ({ sizing, onChange }) => (
+  <div className="bg-primary p-4 rounded-lg border border-border-color space-y-4">
+    <div>
+      <h3 className="font-semibold">Position Sizing</h3>
+      <p className="text-xs text-text-secondary">Used by backtests and the live bot. {describePositionSizing(sizing)}.{FALLBACK_NOTES[sizing.method]}</p>
+    </div>
+    <div>
+      <label htmlFor="sizing-method" className="block text-xs text-gray-400 mb-1">Method</label>
+      <select id="sizing-method" value={sizing.method} onChange={e => onChange({ ...sizing, method: e.target.value as PositionSizingMethod })} className={inputClass}>
+        {(Object.keys(POSITION_SIZING_METHOD_LABELS) as PositionSizingMethod[]).map(m => <option key={m} value={m}>{POSITION_SIZING_METHOD_LABELS[m]}</option>)}
+      </select>
+    </div>
+    <div className="grid grid-cols-2 gap-2 items-end">
+      {METHOD_FIELDS[sizing.method].map(field => (
+        <div key={field}>
+          <label htmlFor={`sizing-${field}`} className="block text-xs text-gray-400 mb-1">{FIELD_LABELS[field]}</label>
+          <input
+            type="number"
+            id={`sizing-${field}`}
+            min={0}
+            step={field === 'kellyLookback' ? 1 : 0.1}
+            value={sizing[field]}
+            onChange={e => onChange({ ...sizing, [field]: Math.max(0, Number(e.target.value)) })}
+            className={inputClass}
+          />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default PositionSizingEditor;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { RejectedSignalCounts, RiskConstraint, RiskLimits } from '../types';
+import { RISK_CONSTRAINT_LABELS } from '../constants';
+import { formatRiskLimit } from '../services/riskLimitService';
+import { ShieldAlert } from 'lucide-react';
+
+interface RejectedSignalsPanelProps {
+  rejectedSignals: RejectedSignalCounts;
+  limits: RiskLimits;
+  trades: number;
+}
+
+const RejectedSignalsPanel: React.FC<RejectedSignalsPanelProps> = ({ rejectedSignals, limits, trades }) => {
+  const constraints = Object.keys(RISK_CONSTRAINT_LABELS) as RiskConstraint[];
+  const totalRejected = constraints.reduce((total, c) => total + rejectedSignals[c], 0);
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color">
+      <h3 className="text-lg font-bold mb-1 flex items-center"><ShieldAlert className="mr-2" />Signals Rejected by Risk Limits</h3>
+      <p className="text-xs text-text-secondary mb-4">
+        {totalRejected} entry signals were blocked and {trades} trades taken. Each blocked signal counts against the first limit it broke.
+      </p>
+      <table className="w-full text-left text-sm">
+        <thead className="bg-gray-700/50">
+          <tr>
+            <th className="p-2">Constraint</th>
+            <th className="p-2">Limit</th>
+            <th className="p-2">Rejected</th>
+            <th className="p-2">Share of Rejections</th>
+          </tr>
+        </thead>
+        <tbody>
+          {constraints.map(constraint => (
+            <tr key={constraint} className="border-b border-border-color">
+              <td className="p-2 font-medium">{RISK_CONSTRAINT_LABELS[constraint]}</td>
+              <td className="p-2">{formatRiskLimit(constraint, limits)}</td>
+              <td className={`p-2 ${rejectedSignals[constraint] > 0 ? 'text-negative' : ''}`}>{rejectedSignals[constraint]}</td>
+              <td className="p-2">{totalRejected > 0 ? `${((rejectedSignals[constraint] / totalRejected) * 100).toFixed(1)}%` : '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RejectedSignalsPanel;
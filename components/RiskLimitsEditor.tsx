@@ -0,0 +1,57 @@
+import React from 'react';
+import { RiskLimits } from '../types';
+import { RISK_CONSTRAINT_LABELS } from '../constants';
+
+interface RiskLimitsEditorProps {
+  limits: RiskLimits;
+  onChange: (limits: RiskLimits) => void;
+}
+
+const LIMITS: (keyof RiskLimits)[] = ['maxTradesPerDay', 'maxOpenPositions', 'maxSymbolExposure', 'maxAssetClassExposure', 'dailyLossLimit'];
+
+const LIMIT_UNITS: Partial<{ [key in keyof RiskLimits]: string }> = {
+  maxSymbolExposure: ' (% of equity)',
+  maxAssetClassExposure: ' (% of equity)',
+  dailyLossLimit: ' (%)',
+};
+
+// Counts are whole numbers; a cleared or negative field turns the limit off. Returns undefined for input
+// that isn't a number yet, so the stored limit is left as it was.
+const parseLimit = (limit: keyof RiskLimits, input: string): number | undefined => {
+  if (input.trim() === '') return 0;
+  const value = Number(input);
+  if (!Number.isFinite(value)) return undefined;
+  return Math.max(0, LIMIT_UNITS[limit] ? value : Math.floor(value));
+};
+
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+
+const RiskLimitsEditor: React.FC<RiskLimitsEditorProps> = ({ limits, onChange }) => (
+  <div className="bg-primary p-4 rounded-lg border border-border-color space-y-4">
+    <div>
+      <h3 className="font-semibold">Portfolio Risk Limits</h3>
+      <p className="text-xs text-text-secondary">Checked before every entry; set a limit to 0 to turn it off. Exits are never blocked.</p>
+    </div>
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+      {LIMITS.map(limit => (
+        <div key={limit}>
+          <label htmlFor={`risk-${limit}`} className="block text-xs text-gray-400 mb-1">{RISK_CONSTRAINT_LABELS[limit]}{LIMIT_UNITS[limit] ?? ''}</label>
+          <input
+            type="number"
+            id={`risk-${limit}`}
+            min={0}
+            step={LIMIT_UNITS[limit] ? 0.1 : 1}
+            value={limits[limit]}
+            onChange={e => {
+              const value = parseLimit(limit, e.target.value);
+              if (value !== undefined) onChange({ ...limits, [limit]: value });
+            }}
+            className={inputClass}
+          />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default RiskLimitsEditor;
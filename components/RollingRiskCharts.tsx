@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { RollingBenchmarkSeries } from '../types';
+import { Activity } from 'lucide-react';
+
+interface RollingRiskChartsProps {
+  rollingStats: RollingBenchmarkSeries[];
+}
+
+const tooltipStyle = { backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' };
+
+const RollingRiskCharts: React.FC<RollingRiskChartsProps> = ({ rollingStats }) => {
+  const [rollingWindow, setRollingWindow] = useState(rollingStats[0]?.window ?? 63);
+  const series = rollingStats.find(s => s.window === rollingWindow);
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold flex items-center"><Activity className="mr-2" />Rolling Volatility & Sharpe</h3>
+        <div className="flex gap-1 bg-secondary border border-border-color p-1 rounded-md">
+          {rollingStats.map(s => (
+            <button
+              key={s.window}
+              onClick={() => setRollingWindow(s.window)}
+              className={`text-sm py-1 px-3 rounded transition-colors ${s.window === rollingWindow ? 'bg-accent text-white' : 'hover:bg-primary'}`}
+            >{s.window} bars</button>
+          ))}
+        </div>
+      </div>
+      {series && series.points.length > 0 ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-64">
+            <h4 className="font-semibold mb-2">Annualized Volatility</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <LineChart data={series.points} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+                <XAxis dataKey="date" stroke="#888" style={{ fontSize: '0.75rem' }} />
+                <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} tickFormatter={(value) => typeof value === 'number' ? `${(value * 100).toFixed(0)}%` : ''} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} formatter={(value: unknown) => [typeof value === 'number' ? `${(value * 100).toFixed(2)}%` : '', 'Volatility']} />
+                <Line type="monotone" dataKey="volatility" stroke="#D29922" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="h-64">
+            <h4 className="font-semibold mb-2">Sharpe Ratio</h4>
+            <ResponsiveContainer width="100%" height="90%">
+              <LineChart data={series.points} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+                <XAxis dataKey="date" stroke="#888" style={{ fontSize: '0.75rem' }} />
+                <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} formatter={(value: unknown) => [typeof value === 'number' ? value.toFixed(2) : '', 'Sharpe']} />
+                <ReferenceLine y={0} stroke="#8B949E" strokeDasharray="3 3" />
+                <Line type="monotone" dataKey="sharpe" stroke="#58A6FF" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-text-secondary">The backtest is shorter than {rollingWindow} bars, so there is no rolling window to show.</p>
+      )}
+    </div>
+  );
+};
+
+export default RollingRiskCharts;
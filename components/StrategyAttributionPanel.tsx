@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { PerformanceDataPoint, StrategyAttribution } from '../types';
+import { Layers } from 'lucide-react';
+
+interface StrategyAttributionPanelProps {
+  attribution: StrategyAttribution[];
+  correlations: number[][]; // Rows and columns in `attribution`'s order
+  performanceData: PerformanceDataPoint[];
+}
+
+const STRATEGY_COLORS = ['#58A6FF', '#D29922', '#238636', '#DA3633', '#A371F7', '#3FB950', '#F778BA', '#8B949E'];
+
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const signClass = (value: number) => value > 0 ? 'text-positive' : value < 0 ? 'text-negative' : '';
+
+// Strong positive correlation is what diversification can't help with, so it is shaded the warning colour.
+const correlationStyle = (value: number): React.CSSProperties => ({
+  backgroundColor: value >= 0 ? `rgba(218, 54, 51, ${value * 0.6})` : `rgba(35, 134, 54, ${-value * 0.6})`,
+});
+
+const StrategyAttributionPanel: React.FC<StrategyAttributionPanelProps> = ({ attribution, correlations, performanceData }) => {
+  // Each sleeve's time-weighted return, so rebalancing transfers don't show up as gains or losses.
+  const curves = useMemo(() => performanceData.map(point => {
+    const row: { [key: string]: string | number | null } = { date: point.date };
+    attribution.forEach(a => {
+      const value = point.strategyEquity?.[a.strategyId];
+      row[a.strategyId] = value !== undefined && a.startingCapital > 0 ? (value / a.startingCapital - 1) * 100 : null;
+    });
+    return row;
+  }), [attribution, performanceData]);
+
+  return (
+    <div className="bg-primary p-6 rounded-lg border border-border-color space-y-6">
+      <div>
+        <h3 className="text-lg font-bold mb-1 flex items-center"><Layers className="mr-2" />Strategy Attribution</h3>
+        <p className="text-xs text-gray-400">
+          Each strategy traded its own sleeve of the capital. Contributions are shares of the initial capital and of the equity at the start of the
+          deepest drawdown, so they add up to the portfolio's return and drawdown.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-700/50">
+            <tr>
+              <th className="p-2">Strategy</th>
+              <th className="p-2">Start Weight</th>
+              <th className="p-2">Rebalanced</th>
+              <th className="p-2">Final Equity</th>
+              <th className="p-2">P&L</th>
+              <th className="p-2">Return</th>
+              <th className="p-2">Contribution</th>
+              <th className="p-2">Max DD</th>
+              <th className="p-2">DD Contribution</th>
+              <th className="p-2">Sharpe</th>
+              <th className="p-2">Trades</th>
+            </tr>
+          </thead>
+          <tbody>
+            {attribution.map((a, i) => (
+              <tr key={a.strategyId} className="border-b border-border-color hover:bg-gray-700/30">
+                <td className="p-2 font-medium" style={{ color: STRATEGY_COLORS[i % STRATEGY_COLORS.length] }}>{a.strategyName}</td>
+                <td className="p-2">{a.startingWeight.toFixed(1)}%</td>
+                <td className="p-2">{a.netTransfers >= 0 ? '+' : '-'}{formatCurrency(Math.abs(a.netTransfers))}</td>
+                <td className="p-2">{formatCurrency(a.finalEquity)}</td>
+                <td className={`p-2 ${signClass(a.pnl)}`}>{formatCurrency(a.pnl)}</td>
+                <td className={`p-2 ${signClass(a.totalReturn)}`}>{a.totalReturn.toFixed(2)}%</td>
+                <td className={`p-2 ${signClass(a.contribution)}`}>{a.contribution.toFixed(2)}%</td>
+                <td className="p-2 text-negative">{a.maxDrawdown.toFixed(2)}%</td>
+                <td className={`p-2 ${signClass(a.drawdownContribution)}`}>{a.drawdownContribution.toFixed(2)}%</td>
+                <td className="p-2">{a.sharpeRatio.toFixed(2)}</td>
+                <td className="p-2">{a.trades}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={curves} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+              <XAxis dataKey="date" stroke="#888" style={{ fontSize: '0.75rem' }} />
+              <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} tickFormatter={(value) => typeof value === 'number' ? `${value.toFixed(0)}%` : ''} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' }}
+                labelStyle={{ color: '#fff' }}
+                formatter={(value: unknown, name: string) => [typeof value === 'number' ? `${value.toFixed(2)}%` : '', name]}
+              />
+              <Legend wrapperStyle={{ fontSize: '0.875rem' }} />
+              {attribution.map((a, i) => (
+                <Line key={a.strategyId} type="monotone" dataKey={a.strategyId} name={a.strategyName} stroke={STRATEGY_COLORS[i % STRATEGY_COLORS.length]} strokeWidth={2} dot={false} connectNulls />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="overflow-x-auto">
+          <h4 className="font-semibold mb-2 text-sm">Return Correlation</h4>
+          <table className="w-full text-center text-sm">
+            <thead>
+              <tr>
+                <th className="p-2"></th>
+                {attribution.map((a, i) => <th key={a.strategyId} className="p-2 truncate" style={{ color: STRATEGY_COLORS[i % STRATEGY_COLORS.length] }}>{a.strategyName}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {attribution.map((a, i) => (
+                <tr key={a.strategyId}>
+                  <td className="p-2 text-left font-medium truncate" style={{ color: STRATEGY_COLORS[i % STRATEGY_COLORS.length] }}>{a.strategyName}</td>
+                  {(correlations[i] ?? []).map((value, j) => (
+                    <td key={j} className="p-2 border border-border-color" style={correlationStyle(value)}>{value.toFixed(2)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrategyAttributionPanel;
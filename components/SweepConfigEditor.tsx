@@ -0,0 +1,109 @@
+import React from 'react';
+import { ParameterRange, SavedStrategy, StrategyParameter, SweepConfig } from '../types';
+import { STRATEGY_PARAMETER_LABELS } from '../constants';
+import { countGridCombinations, getParameterValue, MAX_PARAMETER_COMBINATIONS } from '../services/parameterSetService';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface SweepConfigEditorProps {
+  config: SweepConfig;
+  onChange: (config: SweepConfig) => void;
+  strategy?: SavedStrategy;
+}
+
+const PARAMETERS = Object.keys(STRATEGY_PARAMETER_LABELS) as StrategyParameter[];
+
+// Starts a new range at half to one and a half times the strategy's current value.
+const getDefaultRange = (parameter: StrategyParameter, strategy?: SavedStrategy): ParameterRange => {
+  const value = strategy ? getParameterValue(strategy, parameter) : 1;
+  const isInteger = Number.isInteger(value);
+  const round = (v: number) => isInteger ? Math.max(1, Math.round(v)) : +v.toFixed(2);
+  return { parameter, min: round(value * 0.5), max: round(value * 1.5), step: round(value * 0.25) };
+};
+
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+
+const SweepConfigEditor: React.FC<SweepConfigEditorProps> = ({ config, onChange, strategy }) => {
+  const unusedParameters = PARAMETERS.filter(p => !config.ranges.some(r => r.parameter === p));
+  const gridSize = countGridCombinations(config.ranges);
+
+  const updateRange = (index: number, changes: Partial<ParameterRange>) => {
+    onChange({ ...config, ranges: config.ranges.map((range, i) => i === index ? { ...range, ...changes } : range) });
+  };
+
+  const addRange = () => {
+    if (unusedParameters.length === 0) return;
+    onChange({ ...config, ranges: [...config.ranges, getDefaultRange(unusedParameters[0], strategy)] });
+  };
+
+  return (
+    <div className="bg-primary p-4 rounded-lg border border-border-color space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Parameter Ranges</h3>
+        <button onClick={addRange} disabled={unusedParameters.length === 0} className="flex items-center gap-1 text-sm text-accent hover:text-accent-hover disabled:text-gray-500">
+          <Plus className="w-4 h-4" /> Add Parameter
+        </button>
+      </div>
+
+      {config.ranges.length === 0 && <p className="text-sm text-text-secondary">Add the strategy settings you want to vary.</p>}
+      {config.ranges.map((range, index) => (
+        <div key={range.parameter} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div className="col-span-2 md:col-span-2">
+            <label className="block text-xs text-gray-400 mb-1">Parameter</label>
+            <select
+              value={range.parameter}
+              onChange={e => onChange({ ...config, ranges: config.ranges.map((r, i) => i === index ? getDefaultRange(e.target.value as StrategyParameter, strategy) : r) })}
+              className={inputClass}
+            >
+              {[range.parameter, ...unusedParameters].map(p => <option key={p} value={p}>{STRATEGY_PARAMETER_LABELS[p]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Min</label>
+            <input type="number" value={range.min} onChange={e => updateRange(index, { min: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Max</label>
+            <input type="number" value={range.max} onChange={e => updateRange(index, { max: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div className="flex gap-2 items-end">
+            <div className="flex-grow">
+              <label className="block text-xs text-gray-400 mb-1">Step</label>
+              <input type="number" value={range.step} onChange={e => updateRange(index, { step: Number(e.target.value) })} className={inputClass} />
+            </div>
+            <button onClick={() => onChange({ ...config, ranges: config.ranges.filter((_, i) => i !== index) })} title="Remove parameter" className="text-negative hover:text-red-400 p-2">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end pt-2 border-t border-border-color">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Search</label>
+          <select value={config.mode} onChange={e => onChange({ ...config, mode: e.target.value as SweepConfig['mode'] })} className={inputClass}>
+            <option value="grid">Grid (every combination)</option>
+            <option value="random">Random sampling</option>
+          </select>
+        </div>
+        {config.mode === 'random' ? (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Samples</label>
+              <input type="number" min={1} max={MAX_PARAMETER_COMBINATIONS} value={config.samples} onChange={e => onChange({ ...config, samples: Math.max(1, Math.floor(Number(e.target.value))) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Seed</label>
+              <input type="number" value={config.seed} onChange={e => onChange({ ...config, seed: Math.floor(Number(e.target.value)) })} className={inputClass} />
+            </div>
+          </>
+        ) : (
+          <p className={`text-sm md:col-span-2 ${gridSize > MAX_PARAMETER_COMBINATIONS ? 'text-negative' : 'text-text-secondary'}`}>
+            {gridSize} combination{gridSize === 1 ? '' : 's'} (max {MAX_PARAMETER_COMBINATIONS})
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SweepConfigEditor;
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { StrategyParameter, SweepObjective, SweepResults, SweepRun } from '../types';
+import { STRATEGY_PARAMETER_LABELS } from '../constants';
+import { rankSweepRuns } from '../services/sweepService';
+import { Save } from 'lucide-react';
+
+interface SweepReportProps {
+  results: SweepResults;
+  strategyName: string;
+  onSaveRun: (run: SweepRun, rank: number) => void;
+}
+
+const OBJECTIVE_LABELS: { [key in SweepObjective]: string } = {
+  sharpe: 'Sharpe',
+  sortino: 'Sortino',
+  calmar: 'Calmar',
+};
+
+const MAX_RANKED_ROWS = 25;
+
+// Red for the worst cell, green for the best, on the same scale as the rest of the tear sheet.
+const getHeatColor = (value: number, min: number, max: number) => {
+  const t = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsla(${Math.round(t * 120)}, 60%, 35%, 0.9)`;
+};
+
+const SweepHeatmap: React.FC<{ runs: SweepRun[]; x: StrategyParameter; y: StrategyParameter; objective: SweepObjective }> = ({ runs, x, y, objective }) => {
+  // When other parameters vary too, each cell shows the best run that shares its x and y values.
+  const { xs, ys, cells, min, max } = useMemo(() => {
+    const cells = new Map<string, number>();
+    runs.forEach(run => {
+      const key = `${run.values[x]}|${run.values[y]}`;
+      cells.set(key, Math.max(cells.get(key) ?? -Infinity, run[objective]));
+    });
+    const unique = (parameter: StrategyParameter) => Array.from(new Set<number>(runs.map(r => r.values[parameter] as number))).sort((a, b) => a - b);
+    const values = [...cells.values()];
+    return { xs: unique(x), ys: unique(y).reverse(), cells, min: Math.min(...values), max: Math.max(...values) };
+  }, [runs, x, y, objective]);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+        <tbody>
+          {ys.map(yValue => (
+            <tr key={yValue}>
+              <th className="pr-2 text-right text-gray-400 font-normal whitespace-nowrap">{yValue}</th>
+              {xs.map(xValue => {
+                const value = cells.get(`${xValue}|${yValue}`);
+                return (
+                  <td
+                    key={xValue}
+                    title={`${STRATEGY_PARAMETER_LABELS[x]} ${xValue}, ${STRATEGY_PARAMETER_LABELS[y]} ${yValue}`}
+                    className="w-14 h-10 text-center text-white rounded"
+                    style={{ backgroundColor: value === undefined ? '#30363D' : getHeatColor(value, min, max) }}
+                  >
+                    {value === undefined ? '' : value.toFixed(2)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          <tr>
+            <th></th>
+            {xs.map(xValue => <th key={xValue} className="pt-1 text-gray-400 font-normal">{xValue}</th>)}
+          </tr>
+        </tbody>
+      </table>
+      <div className="flex justify-between text-xs text-gray-400 mt-2">
+        <span>↑ {STRATEGY_PARAMETER_LABELS[y]}</span>
+        <span>{STRATEGY_PARAMETER_LABELS[x]} →</span>
+      </div>
+    </div>
+  );
+};
+
+const SweepReport: React.FC<SweepReportProps> = ({ results, strategyName, onSaveRun }) => {
+  const parameters = results.sweep.ranges.map(r => r.parameter);
+  const [objective, setObjective] = useState<SweepObjective>('sharpe');
+  const [xParameter, setXParameter] = useState<StrategyParameter>(parameters[0]);
+  const [yParameter, setYParameter] = useState<StrategyParameter>(parameters[1] ?? parameters[0]);
+  const ranked = useMemo(() => rankSweepRuns(results.runs, objective), [results.runs, objective]);
+
+  return (
+    <div className="space-y-6 animate-fade-in bg-secondary border border-border-color rounded-lg p-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Parameter Sweep: {strategyName}</h2>
+          <p className="text-sm text-text-secondary mt-1">
+            {results.runs.length} backtests, {results.sweep.mode === 'grid' ? 'full grid' : `random sampling (seed ${results.sweep.seed})`}.
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Rank By</label>
+          <select value={objective} onChange={e => setObjective(e.target.value as SweepObjective)} className="bg-primary border border-border-color rounded-md p-2">
+            {(Object.keys(OBJECTIVE_LABELS) as SweepObjective[]).map(o => <option key={o} value={o}>{OBJECTIVE_LABELS[o]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {parameters.length >= 2 && (
+        <div className="bg-primary p-4 rounded-lg border border-border-color space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <h3 className="text-lg font-bold flex-grow">{OBJECTIVE_LABELS[objective]} Heatmap</h3>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">X Axis</label>
+              <select value={xParameter} onChange={e => setXParameter(e.target.value as StrategyParameter)} className="bg-secondary border border-border-color rounded-md p-2 text-sm">
+                {parameters.map(p => <option key={p} value={p}>{STRATEGY_PARAMETER_LABELS[p]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Y Axis</label>
+              <select value={yParameter} onChange={e => setYParameter(e.target.value as StrategyParameter)} className="bg-secondary border border-border-color rounded-md p-2 text-sm">
+                {parameters.map(p => <option key={p} value={p}>{STRATEGY_PARAMETER_LABELS[p]}</option>)}
+              </select>
+            </div>
+          </div>
+          {xParameter === yParameter
+            ? <p className="text-sm text-text-secondary">Pick two different parameters to compare.</p>
+            : <SweepHeatmap runs={results.runs} x={xParameter} y={yParameter} objective={objective} />}
+        </div>
+      )}
+
+      <div className="bg-primary p-4 rounded-lg border border-border-color">
+        <h3 className="text-lg font-bold mb-4">Ranked Results (Top {Math.min(MAX_RANKED_ROWS, ranked.length)})</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-700/50">
+              <tr>
+                <th className="p-3">#</th>
+                {parameters.map(p => <th key={p} className="p-3 whitespace-nowrap">{STRATEGY_PARAMETER_LABELS[p]}</th>)}
+                <th className="p-3">Sharpe</th>
+                <th className="p-3">Sortino</th>
+                <th className="p-3">Calmar</th>
+                <th className="p-3">Return</th>
+                <th className="p-3">Max DD</th>
+                <th className="p-3">Trades</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranked.slice(0, MAX_RANKED_ROWS).map((run, index) => (
+                <tr key={JSON.stringify(run.values)} className="border-b border-border-color hover:bg-gray-700/30">
+                  <td className="p-3 font-medium">{index + 1}</td>
+                  {parameters.map(p => <td key={p} className="p-3">{run.values[p]}</td>)}
+                  <td className="p-3">{run.sharpe.toFixed(2)}</td>
+                  <td className="p-3">{run.sortino.toFixed(2)}</td>
+                  <td className="p-3">{run.calmar.toFixed(2)}</td>
+                  <td className={`p-3 ${run.totalReturn > 0 ? 'text-positive' : 'text-negative'}`}>{run.totalReturn.toFixed(2)}%</td>
+                  <td className="p-3">{run.maxDrawdown.toFixed(2)}%</td>
+                  <td className="p-3">{run.trades}</td>
+                  <td className="p-3">
+                    <button onClick={() => onSaveRun(run, index + 1)} title="Save as a new strategy" className="flex items-center gap-1 text-accent hover:text-accent-hover whitespace-nowrap">
+                      <Save className="w-4 h-4" /> Save
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SweepReport;
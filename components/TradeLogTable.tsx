@@ -38,11 +38,13 @@ const TradeLogTable: React.FC<TradeLogTableProps> = ({ trades, title }) => {
 
     const headers: { key: keyof Trade, label: string }[] = [
         { key: 'symbol', label: 'Symbol' },
+        { key: 'side', label: 'Side' },
         { key: 'exitReason', label: 'Exit Reason' },
         { key: 'pnl', label: 'P&L ($)' },
         { key: 'value', label: 'Value ($)' },
         { key: 'commission', label: 'Commission ($)' },
         { key: 'slippage', label: 'Slippage ($)' },
+        { key: 'marketImpact', label: 'Impact ($)' },
         { key: 'leverage', label: 'Leverage' },
         { key: 'rr', label: 'RR' },
         { key: 'stopLossPrice', label: 'SL Price' },
@@ -70,11 +72,13 @@ const TradeLogTable: React.FC<TradeLogTableProps> = ({ trades, title }) => {
             {sortedTrades.length > 0 ? sortedTrades.map((trade) => (
               <tr key={trade.id} className="border-b border-border-color hover:bg-gray-700/30">
                 <td className="p-3 font-medium">{trade.symbol}</td>
+                <td className={`p-3 ${trade.side === 'SHORT' ? 'text-negative' : 'text-positive'}`}>{trade.side}</td>
                 <td className="p-3">{trade.exitReason}</td>
                 <td className={`p-3 font-medium ${trade.pnl > 0 ? 'text-positive' : 'text-negative'}`}>${trade.pnl.toFixed(2)}</td>
                 <td className="p-3">${trade.value.toFixed(2)}</td>
                 <td className="p-3">${trade.commission.toFixed(2)}</td>
                 <td className="p-3">${trade.slippage.toFixed(2)}</td>
+                <td className="p-3">${(trade.marketImpact ?? 0).toFixed(2)}</td>
                 <td className="p-3">{trade.leverage}x</td>
                 <td className="p-3">{trade.rr.toFixed(2)}x</td>
                 <td className="p-3">${trade.stopLossPrice.toFixed(2)}</td>
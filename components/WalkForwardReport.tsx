@@ -0,0 +1,111 @@
+import React from 'react';
+import { FitStatus, WalkForwardResults } from '../types';
+import KPI from './KPI';
+import PerformanceChart from './PerformanceChart';
+
+interface WalkForwardReportProps {
+  results: WalkForwardResults;
+}
+
+const FIT_STATUS_COLORS: { [key in FitStatus]: string } = {
+  'Good Fit': 'text-positive',
+  'Potential Overfitting': 'text-yellow-300',
+  'Potential Underfitting': 'text-orange-300',
+};
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+const WalkForwardReport: React.FC<WalkForwardReportProps> = ({ results }) => {
+  const strategyNames = new Map(results.strategies.map(s => [s.strategyId, s.strategyName]));
+
+  return (
+    <div className="space-y-6 animate-fade-in bg-secondary border border-border-color rounded-lg p-6">
+      <div>
+        <h2 className="text-2xl font-bold">Walk-Forward Validation</h2>
+        <p className="text-sm text-text-secondary mt-1">
+          {results.windows.length} rolling windows of {results.walkForward.inSampleBars} in-sample bars followed by {results.walkForward.outOfSampleBars} out-of-sample bars.
+          Parameters are re-fit on every in-sample window; only out-of-sample trading appears below.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {results.metrics.map(metric => <KPI key={metric.label} metric={metric} />)}
+      </div>
+
+      <div className="bg-primary p-6 rounded-lg border border-border-color h-96">
+        <h3 className="text-lg font-bold mb-4">Stitched Out-of-Sample Equity</h3>
+        <PerformanceChart data={results.performanceData} trades={results.allTrades} />
+      </div>
+
+      <div className="bg-primary p-4 rounded-lg border border-border-color">
+        <h3 className="text-lg font-bold mb-4">In-Sample vs. Out-of-Sample</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-700/50">
+              <tr>
+                <th className="p-3">Strategy</th>
+                <th className="p-3">IS Sharpe</th>
+                <th className="p-3">OOS Sharpe</th>
+                <th className="p-3">Efficiency</th>
+                <th className="p-3">IS Return (ann.)</th>
+                <th className="p-3">OOS Return (ann.)</th>
+                <th className="p-3">Profitable Windows</th>
+                <th className="p-3">Fit Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.strategies.map(report => (
+                <tr key={report.strategyId} className="border-b border-border-color">
+                  <td className="p-3 font-medium">{report.strategyName}</td>
+                  <td className="p-3">{report.inSampleSharpe.toFixed(2)}</td>
+                  <td className="p-3">{report.outOfSampleSharpe.toFixed(2)}</td>
+                  <td className="p-3">{formatPercent(report.efficiency * 100)}</td>
+                  <td className="p-3">{formatPercent(report.inSampleReturn)}</td>
+                  <td className={`p-3 ${report.outOfSampleReturn < report.inSampleReturn ? 'text-negative' : 'text-positive'}`}>{formatPercent(report.outOfSampleReturn)}</td>
+                  <td className="p-3">{formatPercent(report.profitableWindowRate * 100)}</td>
+                  <td className={`p-3 font-semibold ${FIT_STATUS_COLORS[report.fitStatus]}`}>{report.fitStatus}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-primary p-4 rounded-lg border border-border-color">
+        <h3 className="text-lg font-bold mb-4">Windows</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-700/50">
+              <tr>
+                <th className="p-3">In Sample</th>
+                <th className="p-3">Out of Sample</th>
+                <th className="p-3">Strategy</th>
+                <th className="p-3">Fitted Parameters</th>
+                <th className="p-3">IS Sharpe</th>
+                <th className="p-3">OOS Sharpe</th>
+                <th className="p-3">OOS Return</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.windows.flatMap((window, windowIndex) => window.strategies.map((result, i) => (
+                <tr key={`${windowIndex}-${result.strategyId}`} className="border-b border-border-color">
+                  <td className="p-3 whitespace-nowrap">{i === 0 ? `${window.inSampleStart} → ${window.inSampleEnd}` : ''}</td>
+                  <td className="p-3 whitespace-nowrap">{i === 0 ? `${window.outOfSampleStart} → ${window.outOfSampleEnd}` : ''}</td>
+                  <td className="p-3">{strategyNames.get(result.strategyId)}</td>
+                  <td className="p-3 whitespace-nowrap">
+                    SL {result.parameters.stopLossPercentage}% · RSI {result.parameters.indicatorParams.rsiPeriod} · SMA {result.parameters.indicatorParams.smaFastPeriod}
+                  </td>
+                  <td className="p-3">{result.inSampleSharpe.toFixed(2)}</td>
+                  <td className="p-3">{result.outOfSampleSharpe.toFixed(2)}</td>
+                  <td className={`p-3 ${result.outOfSampleReturn > 0 ? 'text-positive' : 'text-negative'}`}>{formatPercent(result.outOfSampleReturn)}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WalkForwardReport;
@@ -1,4 +1,4 @@
-import { StrategyModel, AssetClass, AssetUniverse, ScreenerResult, Indicator, StrategyObjective } from './types';
+import { StrategyModel, AssetClass, AssetUniverse, ScreenerResult, Indicator, IndicatorParams, StrategyObjective, StrategyParameter, CommissionModel, CommissionTier, CostModel, CostModels, RiskConstraint, RiskLimits, ExitRules, PositionSizing, PositionSizingMethod, AllocationMethod, CapitalAllocation, RebalanceFrequency, PriceAdjustment, BarField, CustomAssetClass, DuplicatePolicy, DataQualityAction, DataQualityIssueType, Timeframe, TradingCalendar } from './types';
 
 export const STRATEGY_MODELS: StrategyModel[] = [
     StrategyModel.LSTM,
@@ -23,6 +23,216 @@ export const INDICATORS: Indicator[] = Object.values(Indicator);
 
 export const STRATEGY_OBJECTIVES: StrategyObjective[] = Object.values(StrategyObjective);
 
+// Textbook defaults for every indicator; strategies may override individual periods.
+export const DEFAULT_INDICATOR_PARAMS: IndicatorParams = {
+    rsiPeriod: 14,
+    macdFastPeriod: 12,
+    macdSlowPeriod: 26,
+    macdSignalPeriod: 9,
+    bollingerPeriod: 20,
+    bollingerStdDev: 2,
+    atrPeriod: 14,
+    stochasticKPeriod: 14,
+    stochasticDPeriod: 3,
+    stochasticSmoothing: 1,
+    adxPeriod: 14,
+    smaFastPeriod: 50,
+    smaSlowPeriod: 200,
+};
+
+export const STRATEGY_PARAMETER_LABELS: { [key in StrategyParameter]: string } = {
+    stopLossPercentage: 'Stop Loss (%)',
+    leverageMin: 'Min Leverage',
+    leverageMax: 'Max Leverage',
+    rsiPeriod: 'RSI Period',
+    macdFastPeriod: 'MACD Fast',
+    macdSlowPeriod: 'MACD Slow',
+    macdSignalPeriod: 'MACD Signal',
+    bollingerPeriod: 'Bollinger Period',
+    bollingerStdDev: 'Bollinger Std Dev',
+    atrPeriod: 'ATR Period',
+    stochasticKPeriod: 'Stochastic %K',
+    stochasticDPeriod: 'Stochastic %D',
+    stochasticSmoothing: 'Stochastic Smoothing',
+    adxPeriod: 'ADX Period',
+    smaFastPeriod: 'Fast SMA',
+    smaSlowPeriod: 'Slow SMA',
+};
+
+// Fixed stop and target only, as strategies traded before exit rules existed.
+export const DEFAULT_EXIT_RULES: ExitRules = {
+    trailingStopAtr: 0,
+    maxHoldingBars: 0,
+    takeProfitLevels: [],
+    breakEvenAtR: 0,
+};
+
+export const POSITION_SIZING_METHOD_LABELS: { [key in PositionSizingMethod]: string } = {
+    fixedFraction: 'Fixed Fraction of Equity',
+    riskPerTrade: 'Fixed Risk per Trade',
+    volatilityTarget: 'Volatility (ATR) Target',
+    kelly: 'Fractional Kelly',
+};
+
+// 2% of equity as margin per position, as every strategy was sized before sizing policies existed.
+export const DEFAULT_POSITION_SIZING: PositionSizing = {
+    method: 'fixedFraction',
+    equityPercent: 2,
+    riskPercent: 1,
+    volatilityPercent: 0.5,
+    kellyFraction: 0.5,
+    kellyLookback: 50,
+    maxEquityPercent: 10,
+};
+
+// Annual borrow fee (%) for shorts, roughly the general-collateral rate on easy-to-borrow US stocks.
+export const DEFAULT_BORROW_FEE_RATE = 0.5;
+
+// Annual rate (%) charged on the borrowed part of a leveraged position, in line with retail broker margin rates.
+export const DEFAULT_FINANCING_RATE = 6;
+
+export const DEFAULT_BENCHMARK_SYMBOL = 'SPY';
+
+// Split-adjusted prices with dividends paid in cash, so neither splits nor ex-dates show up as fake moves.
+export const DEFAULT_PRICE_ADJUSTMENT: PriceAdjustment = 'split';
+
+export const PRICE_ADJUSTMENT_LABELS: { [key in PriceAdjustment]: string } = {
+    raw: 'Raw (as traded)',
+    split: 'Split-adjusted, dividends in cash',
+    total: 'Total return (dividends reinvested)',
+};
+
+export const BAR_FIELD_LABELS: { [key in BarField]: string } = {
+    t: 'Timestamp',
+    o: 'Open',
+    h: 'High',
+    l: 'Low',
+    c: 'Close / Value',
+    v: 'Volume',
+};
+
+// Column names recognised when guessing a mapping, compared case-insensitively.
+export const BAR_FIELD_ALIASES: { [key in BarField]: string[] } = {
+    t: ['t', 'ts', 'timestamp', 'time', 'date', 'datetime', 'date_time', 'ts_event', 'trade_date'],
+    o: ['o', 'open', 'open_price', 'first'],
+    h: ['h', 'high', 'high_price', 'max'],
+    l: ['l', 'low', 'low_price', 'min'],
+    c: ['c', 'close', 'close_price', 'last', 'settle', 'settlement', 'price', 'value', 'adj_close'],
+    v: ['v', 'volume', 'vol', 'size', 'qty'],
+};
+
+export const CUSTOM_ASSET_CLASS_LABELS: { [key in CustomAssetClass]: string } = {
+    stock: 'Stock / ETF',
+    futures: 'Futures (continuous contract)',
+    crypto: 'Crypto',
+    forex: 'Forex',
+    index: 'Index',
+    alternative: 'Alternative data',
+};
+
+export const DUPLICATE_POLICY_LABELS: { [key in DuplicatePolicy]: string } = {
+    'keep-last': 'Keep the last row',
+    'keep-first': 'Keep the first row',
+    reject: 'Refuse the file',
+};
+
+// Offered for timestamps without an offset; any other IANA zone can be typed in.
+export const IMPORT_TIMEZONES = ['UTC', 'America/New_York', 'America/Chicago', 'Europe/London', 'Europe/Berlin', 'Asia/Tokyo', 'Asia/Hong_Kong', 'Australia/Sydney'];
+
+export const DATA_QUALITY_THRESHOLDS = {
+    maxMissingSessionPercent: 5, // More gaps than this fails the symbol
+    maxEdgeGapSessions: 5, // Data starting or ending this many sessions inside the range counts as truncated
+    outlierSigma: 10, // Close-to-close moves this many robust standard deviations from the median are jumps...
+    minOutlierMove: 0.1, // ...as long as they are also at least this large (10%)
+    staleRunBars: 5, // Runs of this many bars with an unchanged close are stale
+};
+
+export const DATA_QUALITY_ISSUE_LABELS: { [key in DataQualityIssueType]: string } = {
+    noData: 'No usable bars',
+    missingSessions: 'Missing sessions',
+    truncated: 'Starts late or ends early',
+    nonPositivePrice: 'Zero or negative prices',
+    outlierJump: 'Outlier jumps',
+    staleBars: 'Stale bars',
+    misalignedTimestamps: 'Misaligned timestamps',
+};
+
+export const TRADING_CALENDAR_LABELS: { [key in TradingCalendar]: string } = {
+    NYSE: 'NYSE',
+    LSE: 'London',
+    XETRA: 'Xetra',
+    EURONEXT: 'Euronext',
+    TSE: 'Tokyo',
+    HKEX: 'Hong Kong',
+    SSE: 'Shanghai',
+    forex: 'Forex (24/5)',
+    crypto: 'Crypto (24/7)',
+    weekdays: 'Weekdays',
+};
+
+// How far back intraday bars reach on Yahoo, the most limited provider: 60 days of 5- and 15-minute bars and two years of hourly ones.
+export const INTRADAY_HISTORY_DAYS: { [key in Timeframe]?: number } = {
+    '5Min': 59,
+    '15Min': 59,
+    '1Hour': 729,
+};
+
+export const DATA_QUALITY_ACTION_LABELS: { [key in DataQualityAction]: string } = {
+    exclude: 'Exclude flagged symbols',
+    forwardFill: 'Forward-fill gaps',
+    abort: 'Abort',
+};
+
+// Equal weights, split once at the start and left to drift.
+export const DEFAULT_CAPITAL_ALLOCATION: CapitalAllocation = {
+    method: 'fixedWeights',
+    weights: {},
+    rebalance: 'none',
+    riskLookbackBars: 63,
+};
+
+export const ALLOCATION_METHOD_LABELS: { [key in AllocationMethod]: string } = {
+    fixedWeights: 'Fixed Weights',
+    equalRisk: 'Equal Risk (inverse volatility)',
+};
+
+export const REBALANCE_FREQUENCY_LABELS: { [key in RebalanceFrequency]: string } = {
+    none: 'Never (let sleeves drift)',
+    monthly: 'Monthly',
+    quarterly: 'Quarterly',
+};
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+    maxTradesPerDay: 10,
+    maxOpenPositions: 20,
+    maxSymbolExposure: 25,
+    maxAssetClassExposure: 200,
+    dailyLossLimit: 3,
+};
+
+export const RISK_CONSTRAINT_LABELS: { [key in RiskConstraint]: string } = {
+    maxTradesPerDay: 'Max Trades per Day',
+    maxOpenPositions: 'Max Open Positions',
+    maxSymbolExposure: 'Max Exposure per Symbol',
+    maxAssetClassExposure: 'Max Exposure per Asset Class',
+    dailyLossLimit: 'Daily Loss Limit',
+    leverage: 'Strategy Leverage Range',
+    positionSizing: 'Position Sizing (zero size)',
+};
+
+// Benchmarks offered on the Backtesting page; any other symbol the data backend knows can be typed in.
+export const BENCHMARK_OPTIONS: { symbol: string, label: string }[] = [
+    { symbol: 'SPY', label: 'S&P 500 (SPY)' },
+    { symbol: 'QQQ', label: 'Nasdaq 100 (QQQ)' },
+    { symbol: '^FTSE', label: 'FTSE 100' },
+    { symbol: '^GDAXI', label: 'DAX' },
+    { symbol: '^N225', label: 'Nikkei 225' },
+    { symbol: '^HSI', label: 'Hang Seng' },
+    { symbol: 'BTC/USD', label: 'Bitcoin (BTC/USD)' },
+    { symbol: 'GLD', label: 'Gold (GLD)' },
+    { symbol: 'TLT', label: 'US Treasuries (TLT)' },
+];
+
 
 export const ASSET_COLORS: { [key in AssetClass]: string } = {
   [AssetClass.USStocks]: '#3b82f6',
@@ -104,6 +314,49 @@ export const ASSET_LEVERAGE_MAP: { [key in AssetClass]: number } = {
     [AssetClass.Indices]: 20,
 };
 
+// Maintenance margin as a % of position value. Initial margin is 1 / ASSET_LEVERAGE_MAP, so each class
+// keeps half of its opening margin as the liquidation cushion.
+export const ASSET_MAINTENANCE_MARGIN_MAP: { [key in AssetClass]: number } = {
+    [AssetClass.USStocks]: 10,
+    [AssetClass.GlobalStocks]: 10,
+    [AssetClass.UKStocks]: 10,
+    [AssetClass.EUStocks]: 10,
+    [AssetClass.AsianStocks]: 10,
+    [AssetClass.Crypto]: 5,
+    [AssetClass.Commodities]: 2.5,
+    [AssetClass.Forex]: 1.67,
+    [AssetClass.Bonds]: 1.67,
+    [AssetClass.Indices]: 2.5,
+};
+
+// Marginal notional tiers offered when a commission model is switched to 'tiered'.
+export const DEFAULT_COMMISSION_TIERS: CommissionTier[] = [
+    { upTo: 10000, rate: 0.1 },
+    { upTo: 100000, rate: 0.05 },
+    { upTo: null, rate: 0.02 },
+];
+
+const commission = (type: CommissionModel['type'], amount: number, minimum = 0): CommissionModel =>
+    ({ type, amount, minimum, tiers: DEFAULT_COMMISSION_TIERS });
+
+const costModel = (fee: CommissionModel, spreadBps: number, impactCoefficient = 0.1): CostModel =>
+    ({ commission: fee, slippageType: 'spread', slippage: spreadBps, impactCoefficient });
+
+// Typical retail-broker costs: per-share fees on US listings, % of notional on foreign exchanges,
+// taker fees on crypto and spread-only forex. Forex bars carry no volume, so impact never applies there.
+export const DEFAULT_COST_MODELS: CostModels = {
+    [AssetClass.USStocks]: costModel(commission('perShare', 0.005, 1), 2),
+    [AssetClass.GlobalStocks]: costModel(commission('perNotional', 0.05, 3), 5),
+    [AssetClass.UKStocks]: costModel(commission('perNotional', 0.05, 3), 5),
+    [AssetClass.EUStocks]: costModel(commission('perNotional', 0.05, 3), 5),
+    [AssetClass.AsianStocks]: costModel(commission('perNotional', 0.08, 5), 8),
+    [AssetClass.Crypto]: costModel(commission('perNotional', 0.1), 5),
+    [AssetClass.Commodities]: costModel(commission('perShare', 0.005, 1), 3),
+    [AssetClass.Forex]: costModel(commission('flat', 0), 1.5, 0),
+    [AssetClass.Bonds]: costModel(commission('perShare', 0.005, 1), 2),
+    [AssetClass.Indices]: costModel(commission('perNotional', 0.01), 2),
+};
+
 // Constants for Market Screener filters
 export const SECTORS: ScreenerResult['sector'][] = ['Technology', 'Healthcare', 'Financials', 'Consumer Discretionary', 'Industrials', 'Energy', 'Crypto'];
 export const COUNTRIES: ScreenerResult['country'][] = ['USA', 'Europe', 'Asia', 'Global'];
@@ -1,8 +1,11 @@
 import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
-import { SavedStrategy, AlpacaAccount, Trade, FitStatus, Indicator, StrategyObjective } from '../types';
+import { SavedStrategy, AlpacaAccount, Trade, FitStatus, Indicator, StrategyObjective, BacktestRun } from '../types';
+import { DEFAULT_EXIT_RULES, DEFAULT_POSITION_SIZING } from '../constants';
 
 type BrokerStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+const MAX_BACKTEST_RUNS = 20;
+
 interface AppContextType {
   savedStrategies: SavedStrategy[];
   saveStrategy: (strategy: SavedStrategy) => void;
@@ -13,6 +16,9 @@ interface AppContextType {
   setAccount: (account: AlpacaAccount | null) => void;
   tradeLog: Trade[];
   addTradeToLog: (trade: Trade) => void;
+  backtestRuns: BacktestRun[];
+  saveBacktestRun: (run: BacktestRun) => void;
+  removeBacktestRun: (runId: string) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -29,6 +35,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           fitStatus: s.fitStatus || 'Good Fit', // Default fit status
           indicators: s.indicators || [Indicator.RSI, Indicator.MACD], // Default indicators
           strategyObjective: s.strategyObjective || StrategyObjective.TrendFollowing, // Default objective
+          allowShorts: s.allowShorts ?? false, // Long-only unless enabled
+          exitRules: s.exitRules ?? DEFAULT_EXIT_RULES, // Fixed stop and target only
+          positionSizing: s.positionSizing ?? DEFAULT_POSITION_SIZING, // 2% of equity per position
       }));
     } catch (error) {
       return [];
@@ -38,6 +47,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [tradeLog, setTradeLog] = useState<Trade[]>(() => {
     try {
       const saved = localStorage.getItem('tradeLog');
+      const trades: Trade[] = saved ? JSON.parse(saved) : [];
+      // Trades logged before short selling was supported were all longs
+      return trades.map(t => ({ ...t, side: t.side || 'LONG' }));
+    } catch (error) {
+      return [];
+    }
+  });
+
+  const [backtestRuns, setBacktestRuns] = useState<BacktestRun[]>(() => {
+    try {
+      const saved = localStorage.getItem('backtestRuns');
       return saved ? JSON.parse(saved) : [];
     } catch (error) {
       return [];
@@ -67,6 +87,15 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setTradeLog(prev => [trade, ...prev]);
   }
 
+  // Newest first, keeping only the most recent runs.
+  const saveBacktestRun = (run: BacktestRun) => {
+    setBacktestRuns(prev => [run, ...prev.filter(r => r.id !== run.id)].slice(0, MAX_BACKTEST_RUNS));
+  };
+
+  const removeBacktestRun = (runId: string) => {
+    setBacktestRuns(prev => prev.filter(r => r.id !== runId));
+  };
+
   useEffect(() => {
     localStorage.setItem('savedStrategies', JSON.stringify(savedStrategies));
   }, [savedStrategies]);
@@ -75,8 +104,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     localStorage.setItem('tradeLog', JSON.stringify(tradeLog));
   }, [tradeLog]);
 
+  useEffect(() => {
+    // Full results are large, so when storage runs out the oldest runs are left out of what's persisted.
+    // Each run is serialised once and the retries only re-join the strings.
+    const serializedRuns = backtestRuns.map(run => JSON.stringify(run));
+    for (let count = serializedRuns.length; count >= 0; count--) {
+      try {
+        localStorage.setItem('backtestRuns', `[${serializedRuns.slice(0, count).join(',')}]`);
+        return;
+      } catch (error) {
+        if (count === 0) console.error('Could not persist backtest run history.', error);
+      }
+    }
+  }, [backtestRuns]);
+
   return (
-    <AppContext.Provider value={{ savedStrategies, saveStrategy, removeStrategy, brokerStatus, setBrokerStatus, account, setAccount, tradeLog, addTradeToLog }}>
+    <AppContext.Provider value={{ savedStrategies, saveStrategy, removeStrategy, brokerStatus, setBrokerStatus, account, setAccount, tradeLog, addTradeToLog, backtestRuns, saveBacktestRun, removeBacktestRun }}>
       {children}
     </AppContext.Provider>
   );
@@ -3,90 +3,109 @@ import React, { useState, useEffect } from 'react';
 import KPI from '../components/KPI';
 import PerformanceChart from '../components/PerformanceChart';
 import TradeLogTable from '../components/TradeLogTable';
-import { PortfolioMetric, PerformanceDataPoint, Allocation, Trade, SavedStrategy, AssetUniverse, AlpacaBar, BacktestResults, AssetClass } from '../types';
+import WalkForwardReport from '../components/WalkForwardReport';
+import SweepConfigEditor from '../components/SweepConfigEditor';
+import CostModelEditor from '../components/CostModelEditor';
+import RiskLimitsEditor from '../components/RiskLimitsEditor';
+import CapitalAllocationEditor from '../components/CapitalAllocationEditor';
+import StrategyAttributionPanel from '../components/StrategyAttributionPanel';
+import RejectedSignalsPanel from '../components/RejectedSignalsPanel';
+import SweepReport from '../components/SweepReport';
+import MonteCarloPanel from '../components/MonteCarloPanel';
+import AllocationBreakdown from '../components/AllocationBreakdown';
+import BenchmarkStatsPanel from '../components/BenchmarkStatsPanel';
+import MonthlyReturnsHeatmap from '../components/MonthlyReturnsHeatmap';
+import DrawdownPeriodsTable from '../components/DrawdownPeriodsTable';
+import RollingRiskCharts from '../components/RollingRiskCharts';
+import BacktestRunHistory from '../components/BacktestRunHistory';
+import BacktestRunComparison from '../components/BacktestRunComparison';
+import BacktestJobQueue from '../components/BacktestJobQueue';
+import DataQualityPanel from '../components/DataQualityPanel';
+import { PortfolioMetric, BacktestResults, BacktestConfig, BacktestRun, CapitalAllocation, CostModels, CustomDataset, DataQualityAction, DataQualityReport, PriceAdjustment, RiskLimits, Timeframe, WalkForwardResults, SweepConfig, SweepResults, SweepRun } from '../types';
 import { useApp } from '../context/AppContext';
+import { BENCHMARK_OPTIONS, DEFAULT_BENCHMARK_SYMBOL, DEFAULT_BORROW_FEE_RATE, DEFAULT_CAPITAL_ALLOCATION, DEFAULT_PRICE_ADJUSTMENT, PRICE_ADJUSTMENT_LABELS, DEFAULT_COST_MODELS, DEFAULT_FINANCING_RATE, DEFAULT_RISK_LIMITS, INTRADAY_HISTORY_DAYS } from '../constants';
 import { fetchStockHistoricalData } from '../services/marketDataService';
+import { fetchCustomDatasets } from '../services/dataImportService';
 import { getStrategyOptimizations } from '../services/geminiService';
-import { ASSET_UNIVERSES, ASSET_UNIVERSE_TICKER_MAP, ASSET_COLORS, SYMBOL_TO_ASSET_CLASS_MAP, ASSET_LEVERAGE_MAP } from '../constants';
-import { AlertTriangle, TrendingDown, BarChart2, Lightbulb, Info } from 'lucide-react';
-import { AreaChart, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area } from 'recharts';
-
-
-const calculateAdvancedRatios = (performanceData: PerformanceDataPoint[], riskFreeRate = 0.02, barsPerYear = 252): { sortino: number, calmar: number } => {
-    if (performanceData.length < 2) return { sortino: 0, calmar: 0 };
-
-    const dailyReturns = performanceData.slice(1).map((point, i) => {
-        const prevValue = performanceData[i].strategy;
-        return prevValue > 0 ? (point.strategy - prevValue) / prevValue : 0;
-    });
-
-    const annualizedReturn = (Math.pow(performanceData[performanceData.length - 1].strategy / performanceData[0].strategy, barsPerYear / dailyReturns.length) - 1);
-    
-    // Sortino Ratio
-    const downsideReturns = dailyReturns.filter(r => r < 0);
-    const downsideDeviation = Math.sqrt(downsideReturns.reduce((acc, r) => acc + Math.pow(r, 2), 0) / (downsideReturns.length || 1)) * Math.sqrt(barsPerYear);
-    const sortino = downsideDeviation > 0 ? (annualizedReturn - riskFreeRate) / downsideDeviation : 0;
-
-    // Calmar Ratio
-    const maxDrawdown = Math.max(...(performanceData.map(d => d.drawdown || 0)));
-    const calmar = maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0;
-    
-    return {
-        sortino: isFinite(sortino) ? sortino : 0,
-        calmar: isFinite(calmar) ? calmar : 0,
-    };
+import { BacktestInput, getBacktestWarmupBars, getStrategySymbols, getWarmupStartDate } from '../services/backtestService';
+import { applyDataQualityAction, assessDataQuality, getFlaggedSymbols } from '../services/dataQualityService';
+import { BacktestJob, BacktestJobRequest, cancelBacktestJob, enqueueBacktestJob, subscribeToBacktestJobs } from '../services/backtestJobService';
+import { applyParameterSet, toParameterSet } from '../services/parameterSetService';
+import { createBacktestRun, getRunLabel } from '../services/runHistoryService';
+import {
+    buildResultsJson, buildTearSheetHtml, downloadFile, getExportFilename, PERFORMANCE_COLUMNS, printTearSheet, toCsv, TRADE_COLUMNS
+} from '../services/exportService';
+import { TrendingDown, BarChart2, Lightbulb, Info, Wallet, Download, Printer } from 'lucide-react';
+import { AreaChart, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, Legend } from 'recharts';
+
+
+const MIN_WALK_FORWARD_BARS = 10;
+
+type RunMode = 'backtest' | 'walkForward' | 'sweep';
+
+const RUN_MODE_LABELS: { [key in RunMode]: string } = {
+    backtest: 'Run Portfolio Backtest',
+    walkForward: 'Run Walk-Forward Validation',
+    sweep: 'Run Parameter Sweep',
 };
 
+// A fetched run waiting on the user to decide what to do with symbols the data quality checks flagged.
+interface PendingRun {
+    mode: RunMode;
+    input: BacktestInput;
+    report: DataQualityReport;
+}
 
-const calculateDynamicLeverage = (rr: number, maxLeverage: number): number => {
-    const minRR = 2.5;
-    const maxRR = 5.0;
-    const clampedRR = Math.min(rr, maxRR);
-    const rrRange = maxRR - minRR;
-    const leverageRange = maxLeverage - 2;
-    if (rrRange <= 0 || leverageRange <= 0) return 2;
-    const leverage = 2 + ((clampedRR - minRR) / rrRange) * leverageRange;
-    return Math.round(Math.min(leverage, maxLeverage));
-};
-
-type Timeframe = '5Min' | '15Min' | '1Hour' | '1Day';
-
-const getSimulationParams = (tf: Timeframe) => {
-    switch (tf) {
-        case '5Min': return { barsPerYear: 252 * 7 * 12, tradeProbability: 0.002, holdingTime: '5-60m' };
-        case '15Min': return { barsPerYear: 252 * 7 * 4, tradeProbability: 0.007, holdingTime: '15-180m' };
-        case '1Hour': return { barsPerYear: 252 * 7, tradeProbability: 0.03, holdingTime: '1-8h' };
-        case '1Day': return { barsPerYear: 252, tradeProbability: 0.2, holdingTime: '1-5d' };
-        default: return { barsPerYear: 252, tradeProbability: 0.2, holdingTime: '1-5d' };
-    }
-};
-
+const getBenchmarkLabel = (symbol: string) => BENCHMARK_OPTIONS.find(o => o.symbol === symbol)?.label || symbol;
 
 const Backtesting: React.FC = () => {
-    const { savedStrategies } = useApp();
+    const { savedStrategies, saveStrategy, backtestRuns, saveBacktestRun, removeBacktestRun } = useApp();
     const [selectedStrategyIds, setSelectedStrategyIds] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(false);
-    const [results, setResults] = useState<BacktestResults | null>(null);
+    const [results, setResults] = useState<BacktestResults | null>(backtestRuns[0]?.results ?? null);
+    const [activeRunId, setActiveRunId] = useState<string | null>(backtestRuns[0]?.id ?? null);
+    const [compareRunIds, setCompareRunIds] = useState<string[]>([]);
+    const [walkForwardResults, setWalkForwardResults] = useState<WalkForwardResults | null>(null);
+    const [sweepResults, setSweepResults] = useState<SweepResults | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isSimulatedData, setIsSimulatedData] = useState(false);
-    const [progress, setProgress] = useState(0);
+    const [jobs, setJobs] = useState<BacktestJob[]>([]);
     const [progressMessage, setProgressMessage] = useState('');
+    const [pendingRun, setPendingRun] = useState<PendingRun | null>(null);
 
     const defaultStartDate = new Date();
     defaultStartDate.setFullYear(defaultStartDate.getFullYear() - 5);
     const [startDate, setStartDate] = useState(defaultStartDate.toISOString().split('T')[0]);
     const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
     const [initialCapital, setInitialCapital] = useState(100000);
-    const [commission, setCommission] = useState(0.50); // $0.50 per trade
-    const [slippage, setSlippage] = useState(0.05); // 0.05% slippage
-    const [maxTradesPerDay, setMaxTradesPerDay] = useState(10);
+    const [costModels, setCostModels] = useState<CostModels>(DEFAULT_COST_MODELS);
+    const [riskLimits, setRiskLimits] = useState<RiskLimits>(DEFAULT_RISK_LIMITS);
+    const [allocation, setAllocation] = useState<CapitalAllocation>(DEFAULT_CAPITAL_ALLOCATION);
+    const [maxHoldingBars, setMaxHoldingBars] = useState(20); // 0 disables the time stop
+    const [borrowFeeRate, setBorrowFeeRate] = useState(DEFAULT_BORROW_FEE_RATE);
+    const [financingRate, setFinancingRate] = useState(DEFAULT_FINANCING_RATE);
+    const [benchmarkSymbol, setBenchmarkSymbol] = useState(DEFAULT_BENCHMARK_SYMBOL);
+    const [importedDatasets, setImportedDatasets] = useState<CustomDataset[]>([]);
+    const [priceAdjustment, setPriceAdjustment] = useState<PriceAdjustment>(DEFAULT_PRICE_ADJUSTMENT);
     const [useWeeklyBias, setUseWeeklyBias] = useState(true);
     const [timeframe, setTimeframe] = useState<Timeframe>('1Day');
+    const [runMode, setRunMode] = useState<RunMode>('backtest');
+    const [inSampleBars, setInSampleBars] = useState(252);
+    const [outOfSampleBars, setOutOfSampleBars] = useState(63);
+    const [sweepConfig, setSweepConfig] = useState<SweepConfig>({ ranges: [], mode: 'grid', samples: 50, seed: 42 });
     const [dateInfo, setDateInfo] = useState('');
 
+    useEffect(() => subscribeToBacktestJobs(setJobs), []);
+
     useEffect(() => {
-        if (timeframe !== '1Day') {
-            const maxDays = 59; // yfinance limit for intraday
+        fetchCustomDatasets().then(result => {
+            if (result.success && result.data) setImportedDatasets(result.data);
+        });
+    }, []);
+
+    useEffect(() => {
+        const maxDays = INTRADAY_HISTORY_DAYS[timeframe];
+        if (maxDays) {
             const newStartDate = new Date();
             newStartDate.setDate(newStartDate.getDate() - maxDays);
             
@@ -96,7 +115,7 @@ const Backtesting: React.FC = () => {
             if ( (currentEndDate.getTime() - currentStartDate.getTime()) / (1000 * 3600 * 24) > maxDays + 1) {
                 setStartDate(newStartDate.toISOString().split('T')[0]);
                 setEndDate(new Date().toISOString().split('T')[0]);
-                setDateInfo(`For intraday timeframes, the date range is limited to the last 60 days to ensure data availability.`);
+                setDateInfo(`For ${timeframe} bars, the date range is limited to the last ${maxDays + 1} days to ensure data availability.`);
             } else {
                  setDateInfo('');
             }
@@ -105,199 +124,150 @@ const Backtesting: React.FC = () => {
         }
     }, [timeframe, startDate, endDate]);
 
+    // Fetches the data on this thread, then queues the simulation itself to run in a worker. The button is only
+    // busy while fetching, so further runs can be queued behind one that is still simulating. Flagged data holds
+    // the run until the user picks what to do about it.
     const handleRunBacktest = async () => {
         if (selectedStrategyIds.length === 0) {
             alert("Please select at least one strategy to backtest.");
             return;
         }
+        if (runMode === 'sweep' && selectedStrategyIds.length !== 1) {
+            alert("Please select exactly one strategy to sweep.");
+            return;
+        }
         setIsLoading(true);
-        setResults(null);
         setError(null);
         setIsSimulatedData(false);
-        setProgress(0);
+        setPendingRun(null);
         
-        const { barsPerYear, tradeProbability, holdingTime } = getSimulationParams(timeframe);
-
         const selectedStrategies = savedStrategies.filter(s => selectedStrategyIds.includes(s.id));
-        const allSymbols = [...new Set(selectedStrategies.flatMap(s => [...s.assetUniverses.flatMap(u => ASSET_UNIVERSE_TICKER_MAP[u]), ...s.customSymbols]))];
-        
-        setProgress(10);
+        const allSymbols = [...new Set(selectedStrategies.flatMap(getStrategySymbols))];
+
         setProgressMessage('Fetching historical data for assets and benchmark...');
-        const symbolsToFetch = [...new Set(['SPY', ...allSymbols])];
-        const dataResult = await fetchStockHistoricalData(symbolsToFetch, startDate, endDate, timeframe);
+        const benchmark = benchmarkSymbol.trim().toUpperCase() || DEFAULT_BENCHMARK_SYMBOL;
+        const symbolsToFetch = [...new Set([benchmark, ...allSymbols])];
+        // Indicators warm up on bars before the start date, so trading and performance both begin on it. A sweep
+        // needs the history for the longest periods it tries; intraday providers only go back so far.
+        const warmupStrategies = runMode !== 'sweep' ? selectedStrategies : selectedStrategies.map(s =>
+            applyParameterSet(s, toParameterSet(s, Object.fromEntries(sweepConfig.ranges.map(r => [r.parameter, r.max])))));
+        const maxDays = INTRADAY_HISTORY_DAYS[timeframe];
+        const earliestDate = maxDays ? new Date(Date.now() - maxDays * 24 * 3600 * 1000).toISOString().split('T')[0] : '';
+        const warmupStart = getWarmupStartDate(allSymbols, startDate, getBacktestWarmupBars(warmupStrategies), timeframe);
+        const fetchStart = warmupStart < earliestDate ? earliestDate : warmupStart;
+        const dataResult = await fetchStockHistoricalData(symbolsToFetch, fetchStart, endDate, timeframe, priceAdjustment);
         
-        setProgress(30);
         setProgressMessage('Querying AI for optimization feedback...');
         const { stopLossFeedback } = await getStrategyOptimizations(selectedStrategies.flatMap(s => s.models), 5, 2);
+        setIsLoading(false);
 
         if (!dataResult.success || !dataResult.data || Object.keys(dataResult.data).length === 0) {
             setError('Could not fetch real data for any selected assets. Please check asset universes or custom symbols.');
-            setIsLoading(false);
             return;
         }
 
-        setProgress(50);
-        setProgressMessage('Simulating trades across selected timeframe...');
-        const allTrades: Trade[] = [];
-        const dailyPnl: { [date: string]: number } = {};
-
-        // --- Portfolio Simulation ---
-        for (const strategy of selectedStrategies) {
-            const strategySymbols = [...new Set([...strategy.assetUniverses.flatMap(u => ASSET_UNIVERSE_TICKER_MAP[u]), ...strategy.customSymbols])];
-            const availableSymbols = strategySymbols.filter(s => dataResult.data![s] && dataResult.data![s].length > 5);
-            
-            if (availableSymbols.length === 0) continue;
-
-            const timelineBars = dataResult.data![availableSymbols[0]];
-            
-            for (let i = 5; i < timelineBars.length; i++) {
-                const date = timelineBars[i].t.split('T')[0];
-                dailyPnl[date] = dailyPnl[date] || 0;
-
-                // Simple signal generation for this strategy
-                if (Math.random() < tradeProbability) { 
-                    const symbolToTrade = availableSymbols[Math.floor(Math.random() * availableSymbols.length)];
-                    const symbolBars = dataResult.data![symbolToTrade];
-                    
-                    if (!symbolBars || i >= symbolBars.length) continue;
-                    
-                    const currentBar = symbolBars[i];
-                    const weeklySma = symbolBars.slice(i - 5, i).reduce((sum, p) => sum + p.c, 0) / 5;
-                    const isUptrend = currentBar.c > weeklySma;
-                    
-                    if (useWeeklyBias && !isUptrend) continue;
+        const config: BacktestConfig = { startDate, endDate, initialCapital, costModels, riskLimits, timeframe, useTrendBias: useWeeklyBias, maxHoldingBars, borrowFeeRate, financingRate, benchmarkSymbol: benchmark, allocation, priceAdjustment };
+        const input: BacktestInput = { strategies: selectedStrategies, data: dataResult.data, config, stopLossFeedback };
+        const report = assessDataQuality(dataResult.data, allSymbols, { timeframe, startDate, endDate });
+        if (getFlaggedSymbols(report).length > 0) {
+            setPendingRun({ mode: runMode, input, report });
+            return;
+        }
+        await queueRun(runMode, input, report);
+    };
 
-                    const potentialRR = 2.5 + Math.random() * 2.5;
-                    const entryPrice = currentBar.o * (1 + (slippage / 100));
-                    const stopDistance = entryPrice * (strategy.stopLossPercentage / 100);
-                    const stopLossPrice = entryPrice - stopDistance;
-                    const takeProfitPrice = entryPrice + stopDistance * potentialRR;
-                    
-                    let exitPrice = currentBar.c;
-                    let exitReason: Trade['exitReason'] = 'EOD';
-                    
-                    if (currentBar.l <= stopLossPrice) {
-                        exitPrice = stopLossPrice;
-                        exitReason = 'SL';
-                    } else if (currentBar.h >= takeProfitPrice) {
-                        exitPrice = takeProfitPrice;
-                        exitReason = 'TP';
-                    }
-                    
-                    exitPrice = exitPrice * (1 - (slippage / 100));
+    // Anything but aborting patches or drops the flagged symbols and carries on with the run.
+    const handleDataQualityAction = async (action: DataQualityAction) => {
+        if (!pendingRun) return;
+        const { mode, input, report } = pendingRun;
+        setPendingRun(null);
+        if (action === 'abort') return;
+        const cleaned = applyDataQualityAction(input.data, report, action);
+        await queueRun(mode, { ...input, data: cleaned.data }, cleaned.report);
+    };
 
-                    const assetClass = SYMBOL_TO_ASSET_CLASS_MAP.get(symbolToTrade) || AssetClass.USStocks;
-                    const tradeValue = initialCapital * 0.02;
-                    const positionSize = tradeValue / entryPrice;
-                    const grossPnl = (exitPrice - entryPrice) * positionSize;
-                    const netPnl = grossPnl - commission;
-                    
-                    dailyPnl[date] += netPnl;
-
-                    allTrades.push({
-                        id: `trade-${i}-${symbolToTrade}`,
-                        symbol: symbolToTrade,
-                        pnl: netPnl,
-                        pnlPercentage: (netPnl / tradeValue) * 100,
-                        positionSize,
-                        value: tradeValue,
-                        leverage: calculateDynamicLeverage(potentialRR, ASSET_LEVERAGE_MAP[assetClass]),
-                        holdingTime,
-                        rr: potentialRR,
-                        type: netPnl > 0 ? 'WIN' : 'LOSS',
-                        assetClass,
-                        entryPrice,
-                        exitPrice,
-                        stopLossPrice,
-                        takeProfitPrice,
-                        commission,
-                        slippage: (entryPrice * (slippage / 100)) + (exitPrice * (slippage / 100)),
-                        exitReason,
-                    });
-                }
+    const queueRun = async (mode: RunMode, input: BacktestInput, dataQuality: DataQualityReport) => {
+        const { strategies: selectedStrategies, config: { startDate, endDate, timeframe } } = input;
+        const label = `${selectedStrategies.map(s => s.name).join(', ')} (${startDate} to ${endDate}, ${timeframe})`;
+        const request: BacktestJobRequest = mode === 'sweep' ? { mode: 'sweep', input, sweep: sweepConfig }
+            : mode === 'walkForward' ? { mode: 'walkForward', input, walkForward: { inSampleBars, outOfSampleBars } }
+            : { mode: 'backtest', input };
+        try {
+            const outcome = await enqueueBacktestJob(label, request);
+            if (!outcome) return; // Cancelled
+            setResults(null);
+            setActiveRunId(null);
+            setWalkForwardResults(null);
+            setSweepResults(null);
+            if (outcome.mode === 'sweep') {
+                setSweepResults(outcome.results);
+            } else if (outcome.mode === 'walkForward') {
+                setWalkForwardResults(outcome.results);
+                // Out-of-sample evidence replaces whatever fit the training job reported; its validation accuracy stays.
+                outcome.results.strategies.forEach(report => {
+                    const strategy = selectedStrategies.find(s => s.id === report.strategyId);
+                    if (strategy) saveStrategy({ ...strategy, fitStatus: report.fitStatus, walkForwardProfitableRate: report.profitableWindowRate });
+                });
+            } else {
+                const run = createBacktestRun({ ...outcome.results, dataQuality }, selectedStrategies);
+                saveBacktestRun(run);
+                setResults(run.results);
+                setActiveRunId(run.id);
             }
+        } catch (e: any) {
+            setError(e.message || 'The backtest failed unexpectedly.');
         }
-        
-        setProgress(85);
-        setProgressMessage('Generating performance curve and calculating metrics...');
-        // --- Generate Performance Curve from Aggregated P&L and Benchmark ---
-        const performanceData: PerformanceDataPoint[] = [];
-        let portfolioValue = initialCapital;
-        let peakValue = initialCapital;
-        
-        const spyData = dataResult.data['SPY'];
-        let spyValue = initialCapital;
-        const spyInitialPrice = spyData?.[0]?.c;
-        const dateToSpyPriceMap = new Map(spyData?.map(bar => [bar.t.split('T')[0], bar.c]));
+    };
+    
+    const handleSaveSweepRun = (run: SweepRun, rank: number) => {
+        const strategy = savedStrategies.find(s => s.id === sweepResults?.strategyId);
+        if (!strategy) return;
+        saveStrategy({
+            ...applyParameterSet(strategy, run.parameters),
+            id: `${strategy.id}_sweep_${Date.now()}`,
+            name: `${strategy.name} (Sweep #${rank})`,
+        });
+        alert(`Saved "${strategy.name} (Sweep #${rank})" to your strategies.`);
+    };
 
-        const sortedDates = Object.keys(dailyPnl).sort();
+    const handleViewRun = (run: BacktestRun) => {
+        setResults(run.results);
+        setActiveRunId(run.id);
+        setWalkForwardResults(null);
+        setSweepResults(null);
+    };
 
-        for (const date of sortedDates) {
-            portfolioValue += dailyPnl[date];
-            if (portfolioValue > peakValue) {
-                peakValue = portfolioValue;
-            }
-            const drawdown = (peakValue - portfolioValue) / peakValue;
+    const handleDeleteRun = (runId: string) => {
+        removeBacktestRun(runId);
+        setCompareRunIds(prev => prev.filter(id => id !== runId));
+        if (runId === activeRunId) {
+            setResults(null);
+            setActiveRunId(null);
+        }
+    };
 
-            // Calculate benchmark value
-            const currentSpyPrice = dateToSpyPriceMap.get(date);
-            if (currentSpyPrice && spyInitialPrice) {
-                spyValue = initialCapital * (currentSpyPrice / spyInitialPrice);
-            }
+    const handleToggleCompare = (runId: string) => {
+        setCompareRunIds(prev => prev.includes(runId) ? prev.filter(id => id !== runId) : [...prev, runId]);
+    };
 
-            performanceData.push({
-                date: date,
-                strategy: portfolioValue,
-                sp500: spyValue,
-                drawdown: drawdown,
-            });
+    const handleExport = (format: 'html' | 'pdf' | 'tradesCsv' | 'performanceCsv' | 'json') => {
+        if (!results) return;
+        const activeRun = backtestRuns.find(run => run.id === activeRunId);
+        const title = activeRun ? `Backtest Tear Sheet: ${getRunLabel(activeRun)}` : 'Backtest Tear Sheet';
+        try {
+            if (format === 'html') downloadFile(buildTearSheetHtml(results, title), getExportFilename(results, 'tearsheet', 'html'), 'text/html');
+            if (format === 'pdf') printTearSheet(buildTearSheetHtml(results, title));
+            if (format === 'tradesCsv') downloadFile(toCsv(results.allTrades, TRADE_COLUMNS), getExportFilename(results, 'trades', 'csv'), 'text/csv');
+            if (format === 'performanceCsv') downloadFile(toCsv(results.performanceData, PERFORMANCE_COLUMNS), getExportFilename(results, 'performance', 'csv'), 'text/csv');
+            if (format === 'json') downloadFile(buildResultsJson(results), getExportFilename(results, 'data', 'json'), 'application/json');
+        } catch (e: any) {
+            setError(e.message || 'The export failed.');
         }
+    };
 
-        if (performanceData.length === 0) {
-            setError('Could not generate performance data. No trades were executed in the simulation.');
-            setIsLoading(false);
-            return;
-        }
+    // Oldest first, so the comparison diffs later runs against the earliest one.
+    const compareRuns = backtestRuns.filter(run => compareRunIds.includes(run.id)).reverse();
 
-        const totalReturn = portfolioValue - initialCapital;
-        const totalReturnPercent = (totalReturn / initialCapital) * 100;
-        const { sortino, calmar } = calculateAdvancedRatios(performanceData, 0.02, barsPerYear);
-        
-        const winningTrades = allTrades.filter(t => t.type === 'WIN');
-        const avgWin = winningTrades.length > 0 ? winningTrades.reduce((sum, t) => sum + t.pnl, 0) / winningTrades.length : 0;
-        const avgLoss = allTrades.filter(t => t.type === 'LOSS').length > 0 ? allTrades.filter(t => t.type === 'LOSS').reduce((sum, t) => sum + t.pnl, 0) / allTrades.filter(t => t.type === 'LOSS').length : 0;
-        
-        setProgress(100);
-        setProgressMessage('Finalizing results...');
-        setResults({
-            metrics: [
-                { label: 'Total P&L', value: `$${totalReturn.toFixed(2)}`, changeType: totalReturn > 0 ? 'positive' : 'negative' },
-                { label: 'Total Return', value: `${totalReturnPercent.toFixed(2)}%`, changeType: totalReturn > 0 ? 'positive' : 'negative' },
-                { label: 'Max Drawdown', value: `${(Math.max(...performanceData.map(p => p.drawdown || 0)) * 100).toFixed(2)}%` },
-                { label: 'Sortino Ratio', value: sortino.toFixed(2) },
-                { label: 'Calmar Ratio', value: calmar.toFixed(2) },
-            ],
-            performanceData,
-            pnlDistribution: [], // Placeholder for new calculation
-            allTrades,
-            allocationData: [], // Placeholder for new calculation
-            stopLossFeedback,
-            summary: {
-                trades: allTrades.length,
-                wins: winningTrades.length,
-                losses: allTrades.length - winningTrades.length,
-                winRate: allTrades.length > 0 ? ((winningTrades.length / allTrades.length) * 100).toFixed(2) : '0.00',
-                avgWin,
-                avgLoss,
-                avgRR: allTrades.length > 0 ? allTrades.reduce((sum, t) => sum + t.rr, 0) / allTrades.length : 0,
-                avgPositionSize: allTrades.length > 0 ? allTrades.reduce((sum, t) => sum + t.value, 0) / allTrades.length : 0,
-                avgLeverage: allTrades.length > 0 ? allTrades.reduce((sum, t) => sum + t.leverage, 0) / allTrades.length : 0,
-            },
-            config: { startDate, endDate, initialCapital, commission, slippage }
-        });
-        setIsLoading(false);
-    };
-    
     const handleStrategySelection = (strategyId: string) => {
         setSelectedStrategyIds(prev =>
             prev.includes(strategyId) ? prev.filter(id => id !== strategyId) : [...prev, strategyId]
@@ -378,6 +348,49 @@ const Backtesting: React.FC = () => {
                         </select>
                     </div>
                 </div>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                    <div>
+                        <label htmlFor="benchmark" className="block text-sm font-medium text-gray-300 mb-1">Benchmark</label>
+                        <input type="text" id="benchmark" list="benchmark-options" value={benchmarkSymbol} onChange={e => setBenchmarkSymbol(e.target.value)} className="w-full bg-primary border border-border-color rounded-md p-2" />
+                        <datalist id="benchmark-options">
+                            {BENCHMARK_OPTIONS.map(o => <option key={o.symbol} value={o.symbol}>{o.label}</option>)}
+                            {importedDatasets.filter(d => d.timeframe === timeframe).map(d => <option key={d.symbol} value={d.symbol}>{d.description || 'Imported data'}</option>)}
+                        </datalist>
+                    </div>
+                    <div>
+                        <label htmlFor="price-adjustment" className="block text-sm font-medium text-gray-300 mb-1">Prices</label>
+                        <select id="price-adjustment" value={priceAdjustment} onChange={e => setPriceAdjustment(e.target.value as PriceAdjustment)} className="w-full bg-primary border border-border-color rounded-md p-2">
+                            {(Object.keys(PRICE_ADJUSTMENT_LABELS) as PriceAdjustment[]).map(a => <option key={a} value={a}>{PRICE_ADJUSTMENT_LABELS[a]}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="run-mode" className="block text-sm font-medium text-gray-300 mb-1">Mode</label>
+                        <select id="run-mode" value={runMode} onChange={e => setRunMode(e.target.value as RunMode)} className="w-full bg-primary border border-border-color rounded-md p-2">
+                            <option value="backtest">Portfolio backtest</option>
+                            <option value="walkForward">Walk-forward validation</option>
+                            <option value="sweep">Parameter sweep (one strategy)</option>
+                        </select>
+                    </div>
+                    {runMode === 'walkForward' && (
+                        <>
+                            <div>
+                                <label htmlFor="in-sample-bars" className="block text-sm font-medium text-gray-300 mb-1">In-Sample Window (bars)</label>
+                                <input type="number" id="in-sample-bars" min={MIN_WALK_FORWARD_BARS} value={inSampleBars} onChange={e => setInSampleBars(Math.max(MIN_WALK_FORWARD_BARS, Math.floor(Number(e.target.value))))} className="w-full bg-primary border border-border-color rounded-md p-2" />
+                            </div>
+                            <div>
+                                <label htmlFor="out-of-sample-bars" className="block text-sm font-medium text-gray-300 mb-1">Out-of-Sample Window (bars)</label>
+                                <input type="number" id="out-of-sample-bars" min={MIN_WALK_FORWARD_BARS} value={outOfSampleBars} onChange={e => setOutOfSampleBars(Math.max(MIN_WALK_FORWARD_BARS, Math.floor(Number(e.target.value))))} className="w-full bg-primary border border-border-color rounded-md p-2" />
+                            </div>
+                        </>
+                    )}
+                </div>
+                {runMode === 'sweep' && (
+                    <SweepConfigEditor
+                        config={sweepConfig}
+                        onChange={setSweepConfig}
+                        strategy={selectedStrategyIds.length === 1 ? savedStrategies.find(s => s.id === selectedStrategyIds[0]) : undefined}
+                    />
+                )}
                 {dateInfo && (
                     <div className="bg-blue-900/30 border border-blue-700 text-blue-300 px-4 py-2 rounded-lg flex items-center text-sm">
                         <Info className="w-4 h-4 mr-3 flex-shrink-0" />
@@ -386,54 +399,99 @@ const Backtesting: React.FC = () => {
                 )}
 
 
-                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+                 <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 items-end">
                      <div>
                         <label htmlFor="capital" className="block text-sm font-medium text-gray-300 mb-1">Initial Capital ($)</label>
                         <input type="number" id="capital" value={initialCapital} onChange={e => setInitialCapital(Number(e.target.value))} className="w-full bg-primary border border-border-color rounded-md p-2" />
                     </div>
                      <div>
-                        <label htmlFor="commission" className="block text-sm font-medium text-gray-300 mb-1">Commission ($ per trade)</label>
-                        <input type="number" id="commission" value={commission} onChange={e => setCommission(Number(e.target.value))} className="w-full bg-primary border border-border-color rounded-md p-2" />
+                        <label htmlFor="borrow-fee" className="block text-sm font-medium text-gray-300 mb-1">Short Borrow Fee (% / yr)</label>
+                        <input type="number" id="borrow-fee" min={0} step={0.1} value={borrowFeeRate} onChange={e => setBorrowFeeRate(Math.max(0, Number(e.target.value)))} className="w-full bg-primary border border-border-color rounded-md p-2" />
                     </div>
                      <div>
-                        <label htmlFor="slippage" className="block text-sm font-medium text-gray-300 mb-1">Slippage (%)</label>
-                        <input type="number" id="slippage" value={slippage} onChange={e => setSlippage(Number(e.target.value))} className="w-full bg-primary border border-border-color rounded-md p-2" />
+                        <label htmlFor="financing-rate" className="block text-sm font-medium text-gray-300 mb-1">Margin Financing (% / yr)</label>
+                        <input type="number" id="financing-rate" min={0} step={0.1} value={financingRate} onChange={e => setFinancingRate(Math.max(0, Number(e.target.value)))} className="w-full bg-primary border border-border-color rounded-md p-2" />
+                    </div>
+                     <div>
+                        <label htmlFor="max-holding" className="block text-sm font-medium text-gray-300 mb-1">Time Stop (bars, 0 = off)</label>
+                        <input type="number" id="max-holding" min={0} value={maxHoldingBars} onChange={e => setMaxHoldingBars(Math.max(0, Math.floor(Number(e.target.value))))} className="w-full bg-primary border border-border-color rounded-md p-2" />
                     </div>
                     <div className="flex items-center pt-6">
                         <input type="checkbox" id="weekly-bias" checked={useWeeklyBias} onChange={e => setUseWeeklyBias(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-accent bg-primary focus:ring-accent" />
                         <label htmlFor="weekly-bias" className="ml-2 block text-sm text-gray-300">Only trade with trend bias</label>
                     </div>
                 </div>
+                <CostModelEditor costModels={costModels} onChange={setCostModels} />
+                <RiskLimitsEditor limits={riskLimits} onChange={setRiskLimits} />
+                {selectedStrategyIds.length > 1 && (
+                    <CapitalAllocationEditor
+                        allocation={allocation}
+                        strategies={savedStrategies.filter(s => selectedStrategyIds.includes(s.id))}
+                        onChange={setAllocation}
+                    />
+                )}
                  <p className="text-xs text-center text-gray-400">All trades are simulated with a Risk/Reward ratio of > 2.5x and use the Stop Loss % defined in each strategy.</p>
 
                 <button
                     onClick={handleRunBacktest}
-                    disabled={isLoading || selectedStrategyIds.length === 0}
+                    disabled={isLoading || !!pendingRun || selectedStrategyIds.length === 0}
                     className="w-full bg-accent hover:bg-accent-hover text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center"
                 >
-                    {isLoading ? <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div> : 'Run Portfolio Backtest'}
+                    {isLoading ? <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div> : RUN_MODE_LABELS[runMode]}
                 </button>
-                {isLoading && (
-                    <div className="mt-4 space-y-2">
-                        <div className="w-full bg-primary rounded-full h-2.5 border border-border-color">
-                            <div className="bg-accent h-2.5 rounded-full" style={{ width: `${progress}%`, transition: 'width 0.5s ease-in-out' }}></div>
-                        </div>
-                        <p className="text-center text-sm text-accent mt-2 animate-pulse">{progressMessage}</p>
-                    </div>
-                )}
+                {isLoading && <p className="text-center text-sm text-accent mt-2 animate-pulse">{progressMessage}</p>}
+                {jobs.length > 0 && <BacktestJobQueue jobs={jobs} onCancel={cancelBacktestJob} />}
                 {error && <p className="text-negative text-sm text-center mt-2">{error}</p>}
             </div>
 
+            {pendingRun && <DataQualityPanel report={pendingRun.report} onAction={handleDataQualityAction} />}
+
+            {backtestRuns.length > 0 && (
+                <BacktestRunHistory
+                    runs={backtestRuns}
+                    activeRunId={activeRunId}
+                    compareRunIds={compareRunIds}
+                    onView={handleViewRun}
+                    onToggleCompare={handleToggleCompare}
+                    onDelete={handleDeleteRun}
+                />
+            )}
+
+            {compareRuns.length >= 2 && <BacktestRunComparison runs={compareRuns} onClose={() => setCompareRunIds([])} />}
+
+            {walkForwardResults && <WalkForwardReport results={walkForwardResults} />}
+
+            {sweepResults && (
+                <SweepReport
+                    results={sweepResults}
+                    strategyName={savedStrategies.find(s => s.id === sweepResults.strategyId)?.name || 'Strategy'}
+                    onSaveRun={handleSaveSweepRun}
+                />
+            )}
+
             {results && (
-                <div className="space-y-6 animate-fade-in bg-secondary border border-border-color rounded-lg p-6">
-                    <h2 className="text-2xl font-bold">Backtest Tear Sheet</h2>
+                // Keyed by run so panels with their own state (Monte Carlo, rolling windows) reset when another run is shown.
+                <div key={activeRunId ?? undefined} className="space-y-6 animate-fade-in bg-secondary border border-border-color rounded-lg p-6">
+                    <div className="flex flex-wrap justify-between items-center gap-4">
+                        <div>
+                            <h2 className="text-2xl font-bold">Backtest Tear Sheet</h2>
+                            <p className="text-xs text-text-secondary">Prices: {PRICE_ADJUSTMENT_LABELS[results.config.priceAdjustment]}</p>
+                        </div>
+                        <div className="flex flex-wrap gap-2 text-sm">
+                            <button onClick={() => handleExport('html')} className="flex items-center gap-1 bg-primary border border-border-color hover:bg-gray-700 rounded-md px-3 py-1"><Download className="w-4 h-4" /> HTML</button>
+                            <button onClick={() => handleExport('pdf')} className="flex items-center gap-1 bg-primary border border-border-color hover:bg-gray-700 rounded-md px-3 py-1"><Printer className="w-4 h-4" /> PDF</button>
+                            <button onClick={() => handleExport('tradesCsv')} className="flex items-center gap-1 bg-primary border border-border-color hover:bg-gray-700 rounded-md px-3 py-1"><Download className="w-4 h-4" /> Trades CSV</button>
+                            <button onClick={() => handleExport('performanceCsv')} className="flex items-center gap-1 bg-primary border border-border-color hover:bg-gray-700 rounded-md px-3 py-1"><Download className="w-4 h-4" /> Equity CSV</button>
+                            <button onClick={() => handleExport('json')} className="flex items-center gap-1 bg-primary border border-border-color hover:bg-gray-700 rounded-md px-3 py-1"><Download className="w-4 h-4" /> JSON</button>
+                        </div>
+                    </div>
                     
                     <div className="bg-primary border border-border-color p-4 rounded-lg">
                         <h4 className="font-semibold text-accent mb-2 flex items-center gap-2"><Lightbulb /> AI Stop Loss Feedback</h4>
                         <p className="text-sm text-text-secondary">{results.stopLossFeedback}</p>
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
                         {results.metrics.map((metric: PortfolioMetric) => <KPI key={metric.label} metric={metric} />)}
                     </div>
                      <div className="bg-primary p-6 rounded-lg border border-border-color text-center">
@@ -448,12 +506,31 @@ const Backtesting: React.FC = () => {
                             <div><strong>Avg RR</strong><p>{results.summary.avgRR.toFixed(2)}x</p></div>
                              <div><strong>Avg Pos. Size</strong><p>${results.summary.avgPositionSize.toFixed(2)}</p></div>
                         </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mt-4 pt-4 border-t border-border-color">
+                            <div><strong>Long Trades</strong><p>{results.summary.longTrades}</p></div>
+                            <div className={results.summary.longPnl >= 0 ? 'text-positive' : 'text-negative'}><strong>Long P&L</strong><p>${results.summary.longPnl.toFixed(2)}</p></div>
+                            <div><strong>Short Trades</strong><p>{results.summary.shortTrades}</p></div>
+                            <div className={results.summary.shortPnl >= 0 ? 'text-positive' : 'text-negative'}><strong>Short P&L</strong><p>${results.summary.shortPnl.toFixed(2)}</p></div>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm mt-4 pt-4 border-t border-border-color text-negative">
+                            <div><strong>Commission</strong><p>${results.summary.totalCommission.toFixed(2)}</p></div>
+                            <div><strong>Slippage</strong><p>${results.summary.totalSlippage.toFixed(2)}</p></div>
+                            <div><strong>Market Impact</strong><p>${results.summary.totalMarketImpact.toFixed(2)}</p></div>
+                            <div><strong>Borrow Fees</strong><p>${results.summary.totalBorrowCost.toFixed(2)}</p></div>
+                            <div><strong>Financing</strong><p>${results.summary.totalFinancingCost.toFixed(2)}</p></div>
+                            <div><strong>Total Costs</strong><p>${results.summary.totalCosts.toFixed(2)}</p></div>
+                        </div>
+                        <div className="grid grid-cols-3 gap-4 text-sm mt-4 pt-4 border-t border-border-color">
+                            <div className={results.summary.totalDividends >= 0 ? 'text-positive' : 'text-negative'}><strong>Dividends (net)</strong><p>${results.summary.totalDividends.toFixed(2)}</p></div>
+                            <div className={results.summary.marginCalls > 0 ? 'text-negative' : ''}><strong>Margin Calls</strong><p>{results.summary.marginCalls}</p></div>
+                            <div className={results.summary.liquidations > 0 ? 'text-negative' : ''}><strong>Positions Liquidated</strong><p>{results.summary.liquidations}</p></div>
+                        </div>
                     </div>
 
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                         <div className="lg:col-span-3 bg-primary p-6 rounded-lg border border-border-color h-96">
-                             <h3 className="text-lg font-bold mb-4">Portfolio Performance vs. S&P 500 (Trade Markers on Chart)</h3>
-                             <PerformanceChart data={results.performanceData} trades={results.allTrades} />
+                             <h3 className="text-lg font-bold mb-4">Portfolio Performance vs. {getBenchmarkLabel(results.config.benchmarkSymbol)} (Trade Markers on Chart)</h3>
+                             <PerformanceChart data={results.performanceData} trades={results.allTrades} benchmarkLabel={getBenchmarkLabel(results.config.benchmarkSymbol)} marginEvents={results.marginEvents} />
                         </div>
                          <div className="lg:col-span-2 bg-primary p-6 rounded-lg border border-border-color h-96">
                             <h3 className="text-lg font-bold mb-4 flex items-center"><TrendingDown className="mr-2"/>Drawdown Over Time</h3>
@@ -472,11 +549,78 @@ const Backtesting: React.FC = () => {
                             </ResponsiveContainer>
                         </div>
                         <div className="lg:col-span-1 bg-primary p-6 rounded-lg border border-border-color h-96">
-                           <h3 className="text-lg font-bold mb-4 flex items-center"><BarChart2 className="mr-2"/>P&L Distribution (placeholder)</h3>
-                            <div className="flex items-center justify-center h-full text-text-secondary">P&L chart coming soon.</div>
+                           <h3 className="text-lg font-bold mb-4 flex items-center"><BarChart2 className="mr-2"/>Trade Return Distribution</h3>
+                            {results.pnlDistribution.length === 0 ? (
+                                <div className="flex items-center justify-center h-3/4 text-text-secondary">No closed trades.</div>
+                            ) : (
+                                <ResponsiveContainer width="100%" height="90%">
+                                    <BarChart data={results.pnlDistribution} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+                                        <XAxis dataKey="bucket" stroke="#888" style={{ fontSize: '0.75rem' }} tickFormatter={(value) => `${value}%`} />
+                                        <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} allowDecimals={false} />
+                                        <Tooltip
+                                            contentStyle={{ backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' }}
+                                            labelStyle={{ color: '#fff' }}
+                                            labelFormatter={(_, payload) => payload?.[0]?.payload?.name ?? ''}
+                                            formatter={(value: unknown) => [value as number, 'Trades']}
+                                        />
+                                        <Bar dataKey="count">
+                                            {results.pnlDistribution.map(entry => <Cell key={entry.bucket} fill={entry.bucket >= 0 ? '#238636' : '#DA3633'} />)}
+                                        </Bar>
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            )}
+                        </div>
+                        <div className="lg:col-span-3 bg-primary p-6 rounded-lg border border-border-color h-96">
+                            <h3 className="text-lg font-bold mb-4 flex items-center"><Wallet className="mr-2"/>Capital Usage</h3>
+                            <ResponsiveContainer width="100%" height="90%">
+                                <AreaChart data={results.performanceData} margin={{ top: 5, right: 20, left: 10, bottom: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#30363D" />
+                                    <XAxis dataKey="date" stroke="#888" style={{ fontSize: '0.75rem' }} />
+                                    <YAxis stroke="#888" style={{ fontSize: '0.75rem' }} tickFormatter={(value) => typeof value === 'number' ? `$${(value / 1000).toFixed(0)}k` : ''} />
+                                    <Tooltip
+                                        contentStyle={{ backgroundColor: '#161B22', border: '1px solid #30363D', borderRadius: '0.5rem' }}
+                                        labelStyle={{ color: '#fff' }}
+                                        formatter={(value: unknown, name: string) => [typeof value === 'number' ? `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}` : '$0', name]}
+                                    />
+                                    <Legend wrapperStyle={{ fontSize: '0.875rem' }} />
+                                    <Area type="monotone" dataKey="cash" name="Cash" stroke="#8B949E" fill="#8B949E" fillOpacity={0.1} strokeWidth={2} dot={false} />
+                                    <Area type="monotone" dataKey="marginUsed" name="Margin Used" stroke="#D29922" fill="#D29922" fillOpacity={0.2} strokeWidth={2} dot={false} />
+                                    <Area type="monotone" dataKey="longExposure" name="Long Exposure" stroke="#238636" fill="#238636" fillOpacity={0.2} strokeWidth={2} dot={false} />
+                                    <Area type="monotone" dataKey="shortExposure" name="Short Exposure" stroke="#DA3633" fill="#DA3633" fillOpacity={0.2} strokeWidth={2} dot={false} />
+                                </AreaChart>
+                            </ResponsiveContainer>
                         </div>
                     </div>
 
+                    <MonthlyReturnsHeatmap rows={results.monthlyReturns} />
+
+                    <DrawdownPeriodsTable periods={results.drawdownPeriods} />
+
+                    <RollingRiskCharts rollingStats={results.rollingBenchmarkStats} />
+
+                    <BenchmarkStatsPanel
+                        stats={results.benchmarkStats}
+                        rollingStats={results.rollingBenchmarkStats}
+                        benchmarkLabel={getBenchmarkLabel(results.config.benchmarkSymbol)}
+                    />
+
+                    {results.strategyAttribution.length > 1 && (
+                        <StrategyAttributionPanel
+                            attribution={results.strategyAttribution}
+                            correlations={results.strategyCorrelations}
+                            performanceData={results.performanceData}
+                        />
+                    )}
+
+                    <AllocationBreakdown allocationData={results.allocationData} exposureByAssetClass={results.exposureByAssetClass} />
+
+                    {results.dataQuality && getFlaggedSymbols(results.dataQuality).length > 0 && <DataQualityPanel report={results.dataQuality} />}
+
+                    <RejectedSignalsPanel rejectedSignals={results.rejectedSignals} limits={results.config.riskLimits} trades={results.summary.trades} />
+
+                    <MonteCarloPanel trades={results.allTrades} initialCapital={results.config.initialCapital} />
+
                     <div className="grid grid-cols-1 xl:grid-cols-1 gap-6">
                         <TradeLogTable trades={results.allTrades.slice(0, 50)} title="Trade Log (Last 50 Trades)" />
                     </div>
@@ -4,11 +4,13 @@ import KPI from '../components/KPI';
 import PerformanceChart from '../components/PerformanceChart';
 import AllocationPieChart from '../components/AllocationPieChart';
 import TradeLogTable from '../components/TradeLogTable';
-import { PortfolioMetric, PerformanceDataPoint, Allocation, Trade, SavedStrategy, AlpacaPosition, AssetClass } from '../types';
+import { PortfolioMetric, PerformanceDataPoint, Allocation, Trade, TradeSide, SavedStrategy, AlpacaPosition, AssetClass, AlpacaBar, ExitReason, ExitRules } from '../types';
 import { useApp } from '../context/AppContext';
 import { fetchPositions, executeTrade, verifyKeysAndFetchAccount } from '../services/brokerService';
 import { fetchSnapshots } from '../services/marketDataService';
-import { ASSET_COLORS, ASSET_UNIVERSE_TICKER_MAP, SYMBOL_TO_ASSET_CLASS_MAP, ASSET_LEVERAGE_MAP } from '../constants';
+import { createExitState, findExitFills, updateStops } from '../services/exitRuleService';
+import { calculatePositionMargin } from '../services/positionSizingService';
+import { ASSET_COLORS, ASSET_UNIVERSE_TICKER_MAP, SYMBOL_TO_ASSET_CLASS_MAP, ASSET_LEVERAGE_MAP, DEFAULT_BORROW_FEE_RATE } from '../constants';
 import { Play, Pause, AlertTriangle, Send, RefreshCw } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
@@ -59,6 +61,45 @@ const calculateDynamicLeverage = (rr: number, maxLeverage: number): number => {
     return Math.round(Math.min(leverage, maxLeverage));
 };
 
+const SIMULATED_MAX_HOURS = 48;
+const SIMULATED_HOURLY_MOVE = 0.006;
+
+// Walks a random hourly price path through the strategy's exit rules, bar by bar as the backtester does,
+// closing whatever is left at the last hour's close. Returns the size-weighted exit price.
+const simulateExit = (side: TradeSide, entryPrice: number, stopLossPrice: number, takeProfitPrice: number, quantity: number, rules: ExitRules) => {
+    const state = createExitState(side, entryPrice, stopLossPrice, takeProfitPrice, quantity, rules);
+    let price = entryPrice;
+    let proceeds = 0;
+    let totalRange = 0;
+    let hours = 0;
+    let exitReason: ExitReason | null = null;
+    while (!exitReason) {
+        hours++;
+        const close = price * (1 + (Math.random() - 0.5) * 2 * SIMULATED_HOURLY_MOVE);
+        const bar: AlpacaBar = {
+            t: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+            o: price,
+            h: Math.max(price, close) * (1 + Math.random() * SIMULATED_HOURLY_MOVE / 2),
+            l: Math.min(price, close) * (1 - Math.random() * SIMULATED_HOURLY_MOVE / 2),
+            c: close,
+            v: 0,
+        };
+        for (const fill of findExitFills(state, bar, hours, rules.maxHoldingBars)) {
+            proceeds += fill.price * fill.quantity;
+            state.quantity -= fill.quantity;
+            if (fill.reason !== 'PARTIAL_TP') exitReason = fill.reason;
+        }
+        if (!exitReason && hours >= SIMULATED_MAX_HOURS) {
+            proceeds += close * state.quantity;
+            exitReason = 'EOD';
+        }
+        totalRange += bar.h - bar.l;
+        updateStops(state, bar, totalRange / hours, rules); // The average range stands in for ATR
+        price = close;
+    }
+    return { exitPrice: proceeds / quantity, exitReason, hours };
+};
+
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -171,17 +212,31 @@ const Dashboard: React.FC = () => {
         const leverage = calculateDynamicLeverage(riskRewardRatio, maxLeverage);
 
         const portfolioValue = account ? parseFloat(account.portfolio_value) : 100000;
-        const tradeValue = portfolioValue * (Math.random() * 0.04 + 0.01); // 1-5% of portfolio
+        // Sized like the backtester sizes it, with the whole trade log as Kelly's history (logged trades don't
+        // record their strategy). The simulated bot has no price history to measure volatility on.
+        const margin = calculatePositionMargin(randomStrategy.positionSizing, {
+            equity: portfolioValue,
+            leverage,
+            stopLossPercentage,
+            volatility: null,
+            recentTrades: [...tradeLog].reverse(),
+        });
+        if (margin <= 0) return; // Sized to nothing, e.g. a 0% margin setting
+        const tradeValue = margin * leverage;
 
         const entryPrice = Math.random() * 200 + 100;
         const positionSize = tradeValue / entryPrice;
+        const side: TradeSide = randomStrategy.allowShorts && Math.random() < 0.5 ? 'SHORT' : 'LONG';
+        const direction = side === 'SHORT' ? -1 : 1;
 
-        const pnl = (tradeValue * (Math.random() - 0.4) * 0.15); // Simulate a +/- 15% outcome
-        const pnlPercentage = (pnl / tradeValue) * 100;
-        
-        const stopLossPrice = entryPrice * (1 - stopLossPercentage / 100);
+        // Shorts invert the bracket: stop above entry, target below
+        const stopLossPrice = entryPrice * (1 - direction * stopLossPercentage / 100);
         const takeProfitPrice = entryPrice + (entryPrice - stopLossPrice) * riskRewardRatio;
-        const exitReasons: Trade['exitReason'][] = ['TP', 'SL', 'EOD'];
+        const { exitPrice, exitReason, hours: holdingHours } = simulateExit(side, entryPrice, stopLossPrice, takeProfitPrice, positionSize, randomStrategy.exitRules);
+        const borrowCost = side === 'SHORT' ? tradeValue * (DEFAULT_BORROW_FEE_RATE / 100 / 365) * (holdingHours / 24) : 0;
+
+        const pnl = direction * (exitPrice - entryPrice) * positionSize - borrowCost;
+        const pnlPercentage = (pnl / margin) * 100;
 
         const newTrade: Trade = {
             id: `trade_${Date.now()}_${Math.random()}`,
@@ -189,23 +244,25 @@ const Dashboard: React.FC = () => {
             pnl,
             pnlPercentage,
             positionSize,
-            value: tradeValue,
+            value: margin,
             leverage,
-            holdingTime: `${Math.floor(Math.random() * 48) + 1}h`,
+            holdingTime: `${holdingHours}h`,
             rr: riskRewardRatio,
             entryPrice: entryPrice,
-            exitPrice: entryPrice + (pnl / positionSize),
+            exitPrice,
             stopLossPrice,
             takeProfitPrice,
             type: pnl > 0 ? 'WIN' : 'LOSS',
             assetClass,
             commission: 0.50,
             slippage: entryPrice * positionSize * 0.0001,
-            exitReason: exitReasons[Math.floor(Math.random() * exitReasons.length)],
+            exitReason,
+            side,
+            borrowCost,
         };
         addTradeToLog(newTrade);
     }
-  }, [addTradeToLog, brokerStatus, savedStrategies, selectedStrategyIds, account, updateAllocationsFromPositions]);
+  }, [addTradeToLog, brokerStatus, savedStrategies, selectedStrategyIds, account, tradeLog, updateAllocationsFromPositions]);
 
   const handleToggleBot = () => {
     if (isBotActive) {
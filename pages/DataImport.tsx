@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Database, Loader, Trash2, Upload, XCircle } from 'lucide-react';
+import { BarField, ColumnMapping, CustomAssetClass, CustomDataset, DuplicatePolicy, ImportTable, Timeframe } from '../types';
+import { BAR_FIELD_LABELS, CUSTOM_ASSET_CLASS_LABELS, DUPLICATE_POLICY_LABELS, IMPORT_TIMEZONES } from '../constants';
+import { buildBars, deleteCustomDataset, fetchCustomDatasets, guessColumnMapping, readImportFile, saveCustomDataset } from '../services/dataImportService';
+
+const inputClass = "w-full bg-primary border border-border-color rounded-md p-2";
+const TIMEFRAMES: Timeframe[] = ['1Day', '1Hour', '15Min', '5Min'];
+const REQUIRED_FIELDS: BarField[] = ['t', 'c'];
+
+const formatCell = (value: unknown) => {
+    if (value instanceof Date) return value.toISOString();
+    if (value === null || value === undefined) return '';
+    return String(value);
+};
+
+// A symbol suggestion from the file name: ES_CONTINUOUS.parquet -> ES_CONTINUOUS
+const symbolFromFileName = (name: string) => name.replace(/\.[^.]+$/, '').toUpperCase().replace(/[^A-Z0-9._-]+/g, '_').slice(0, 32);
+
+const DataImport: React.FC = () => {
+    const [fileName, setFileName] = useState('');
+    const [table, setTable] = useState<ImportTable | null>(null);
+    const [isReading, setIsReading] = useState(false);
+    const [readError, setReadError] = useState<string | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [symbol, setSymbol] = useState('');
+    const [description, setDescription] = useState('');
+    const [assetClass, setAssetClass] = useState<CustomAssetClass>('stock');
+    const [timeframe, setTimeframe] = useState<Timeframe>('1Day');
+    const [timezone, setTimezone] = useState('UTC');
+    const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('keep-last');
+    const [replace, setReplace] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+    const [datasets, setDatasets] = useState<CustomDataset[]>([]);
+    const [datasetsError, setDatasetsError] = useState<string | null>(null);
+
+    const loadDatasets = async () => {
+        const result = await fetchCustomDatasets();
+        if (result.success && result.data) {
+            setDatasets(result.data);
+            setDatasetsError(null);
+        } else {
+            setDatasetsError(result.error?.message || 'Could not load the imported datasets.');
+        }
+    };
+
+    useEffect(() => {
+        loadDatasets();
+    }, []);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFileName(file.name);
+        setTable(null);
+        setReadError(null);
+        setMessage(null);
+        setIsReading(true);
+        try {
+            const imported = await readImportFile(file);
+            const guessed = guessColumnMapping(imported.columns);
+            // Start from the timeframe the bars look like; it can still be changed below.
+            const { inferredTimeframe } = buildBars(imported, { mapping: guessed, timezone, timeframe: '1Day', duplicatePolicy });
+            setTable(imported);
+            setMapping(guessed);
+            setTimeframe(inferredTimeframe || '1Day');
+            setSymbol(symbolFromFileName(file.name));
+        } catch (e: any) {
+            setReadError(`Could not read ${file.name}: ${e.message}`);
+        }
+        setIsReading(false);
+    };
+
+    const result = useMemo(
+        () => (table ? buildBars(table, { mapping, timezone, timeframe, duplicatePolicy }) : null),
+        [table, mapping, timezone, timeframe, duplicatePolicy]
+    );
+    const errors = result?.issues.filter(i => i.severity === 'error') ?? [];
+    const warnings = result?.issues.filter(i => i.severity === 'warning') ?? [];
+    const normalizedSymbol = symbol.trim().toUpperCase();
+    const existing = datasets.find(d => d.symbol === normalizedSymbol && d.timeframe === timeframe);
+    const canImport = !!table && !!result && result.bars.length > 0 && errors.length === 0 && normalizedSymbol !== '' && (!existing || replace);
+
+    const handleImport = async () => {
+        if (!table || !result || !canImport) return;
+        setIsSaving(true);
+        setMessage(null);
+        const saved = await saveCustomDataset({
+            symbol: normalizedSymbol,
+            timeframe,
+            assetClass,
+            description,
+            sourceFile: fileName,
+            sourceFormat: table.format,
+            timezone,
+            columns: mapping,
+        }, result.bars, replace);
+        if (saved.success && saved.data) {
+            setMessage({ type: 'success', text: `Imported ${saved.data.barCount} ${timeframe} bars as ${saved.data.symbol}. Add it as a custom symbol in Strategy Maker or as a benchmark in Backtesting.` });
+            setReplace(false);
+            await loadDatasets();
+        } else {
+            setMessage({ type: 'error', text: saved.error?.message || 'The import failed.' });
+        }
+        setIsSaving(false);
+    };
+
+    const handleDelete = async (dataset: CustomDataset) => {
+        if (!window.confirm(`Delete the imported ${dataset.timeframe} data for ${dataset.symbol}? Strategies using it will no longer find any bars.`)) return;
+        const removed = await deleteCustomDataset(dataset.symbol, dataset.timeframe);
+        if (!removed.success) setDatasetsError(removed.error?.message || 'Could not delete the dataset.');
+        await loadDatasets();
+    };
+
+    return (
+        <div className="space-y-6 max-w-6xl mx-auto">
+            <h1 className="text-3xl font-bold">Data Import</h1>
+            <p className="text-text-secondary">
+                Import your own historical bars (vendor data, continuous futures contracts, alternative data) from CSV or Parquet.
+                Each dataset is registered on the server as a symbol and is served to Strategy Maker and Backtesting like any other.
+                Prices are used as given: no splits or dividends are applied to them.
+            </p>
+
+            <div className="bg-secondary p-6 rounded-lg border border-border-color space-y-4">
+                <h2 className="text-xl font-semibold">1. Choose a File</h2>
+                <label className="flex items-center justify-center w-full p-6 border-2 border-dashed border-border-color rounded-lg cursor-pointer hover:bg-primary">
+                    {isReading ? <Loader className="w-5 h-5 mr-2 animate-spin" /> : <Upload className="w-5 h-5 mr-2" />}
+                    <span>{fileName || 'Select a .csv or .parquet file'}</span>
+                    <input type="file" accept=".csv,.txt,.tsv,.parquet" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+                </label>
+                {readError && <p className="text-sm text-negative">{readError}</p>}
+                {table && (
+                    <div className="overflow-x-auto">
+                        <p className="text-xs text-text-secondary mb-1">{table.rows.length.toLocaleString()} rows, {table.columns.length} columns ({table.format.toUpperCase()}). First rows:</p>
+                        <table className="w-full text-xs text-left">
+                            <thead>
+                                <tr className="border-b border-border-color">
+                                    {table.columns.map(column => <th key={column} className="p-1 font-semibold whitespace-nowrap">{column}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {table.rows.slice(0, 5).map((row, r) => (
+                                    <tr key={r} className="border-b border-border-color/50">
+                                        {row.map((cell, c) => <td key={c} className="p-1 whitespace-nowrap text-text-secondary">{formatCell(cell)}</td>)}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {table && result && (
+                <div className="bg-secondary p-6 rounded-lg border border-border-color space-y-4">
+                    <h2 className="text-xl font-semibold">2. Map Columns and Check</h2>
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                        {(Object.keys(BAR_FIELD_LABELS) as BarField[]).map(field => (
+                            <div key={field}>
+                                <label htmlFor={`map-${field}`} className="block text-xs text-gray-400 mb-1">
+                                    {BAR_FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                                </label>
+                                <select
+                                    id={`map-${field}`}
+                                    value={mapping[field] ?? ''}
+                                    onChange={e => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                                    className={inputClass}
+                                >
+                                    <option value="">{field === 'v' ? 'None (0)' : REQUIRED_FIELDS.includes(field) ? 'Choose...' : 'None (use close)'}</option>
+                                    {table.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                        <div>
+                            <label htmlFor="import-symbol" className="block text-xs text-gray-400 mb-1">Symbol *</label>
+                            <input id="import-symbol" type="text" value={symbol} onChange={e => setSymbol(e.target.value)} placeholder="e.g., ES_CONT" className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="import-asset-class" className="block text-xs text-gray-400 mb-1">Asset Class</label>
+                            <select id="import-asset-class" value={assetClass} onChange={e => setAssetClass(e.target.value as CustomAssetClass)} className={inputClass}>
+                                {(Object.keys(CUSTOM_ASSET_CLASS_LABELS) as CustomAssetClass[]).map(a => <option key={a} value={a}>{CUSTOM_ASSET_CLASS_LABELS[a]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="import-timeframe" className="block text-xs text-gray-400 mb-1">Timeframe</label>
+                            <select id="import-timeframe" value={timeframe} onChange={e => setTimeframe(e.target.value as Timeframe)} className={inputClass}>
+                                {TIMEFRAMES.map(tf => <option key={tf} value={tf}>{tf}{tf === result.inferredTimeframe ? ' (detected)' : ''}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="import-timezone" className="block text-xs text-gray-400 mb-1">Timezone of times without an offset</label>
+                            <input id="import-timezone" type="text" list="import-timezones" value={timezone} onChange={e => setTimezone(e.target.value.trim())} className={inputClass} />
+                            <datalist id="import-timezones">
+                                {IMPORT_TIMEZONES.map(tz => <option key={tz} value={tz} />)}
+                            </datalist>
+                        </div>
+                        <div className="md:col-span-2">
+                            <label htmlFor="import-description" className="block text-xs text-gray-400 mb-1">Description</label>
+                            <input id="import-description" type="text" value={description} onChange={e => setDescription(e.target.value)} placeholder="e.g., Vendor X back-adjusted E-mini S&P continuous contract" className={inputClass} />
+                        </div>
+                        <div>
+                            <label htmlFor="import-duplicates" className="block text-xs text-gray-400 mb-1">Duplicate Timestamps</label>
+                            <select id="import-duplicates" value={duplicatePolicy} onChange={e => setDuplicatePolicy(e.target.value as DuplicatePolicy)} className={inputClass}>
+                                {(Object.keys(DUPLICATE_POLICY_LABELS) as DuplicatePolicy[]).map(p => <option key={p} value={p}>{DUPLICATE_POLICY_LABELS[p]}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="text-sm text-text-secondary">
+                        {result.rowCount.toLocaleString()} rows read, {result.bars.length.toLocaleString()} bars
+                        {result.skippedRows > 0 && `, ${result.skippedRows.toLocaleString()} skipped`}
+                        {result.duplicateRows > 0 && `, ${result.duplicateRows.toLocaleString()} duplicates`}
+                        {result.bars.length > 0 && ` from ${result.bars[0].t} to ${result.bars[result.bars.length - 1].t}`}.
+                        {timeframe === '1Day' && ' Daily bars are stored by calendar date.'}
+                    </div>
+                    {result.issues.length > 0 && (
+                        <ul className="space-y-1 text-sm">
+                            {errors.map((issue, i) => (
+                                <li key={`e${i}`} className="flex items-start text-negative"><XCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />{issue.message}</li>
+                            ))}
+                            {warnings.map((issue, i) => (
+                                <li key={`w${i}`} className="flex items-start text-yellow-400"><AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />{issue.message}</li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {existing && (
+                        <label className="flex items-center text-sm text-yellow-400">
+                            <input type="checkbox" checked={replace} onChange={e => setReplace(e.target.checked)} className="mr-2" />
+                            Replace the {existing.barCount.toLocaleString()} {timeframe} bars already imported as {existing.symbol}
+                        </label>
+                    )}
+                    <button
+                        onClick={handleImport}
+                        disabled={!canImport || isSaving}
+                        className="w-full bg-accent hover:bg-accent-hover text-white font-bold py-3 px-4 rounded-lg disabled:bg-gray-500 disabled:cursor-not-allowed flex items-center justify-center"
+                    >
+                        {isSaving ? <Loader className="w-5 h-5 mr-2 animate-spin" /> : <Database className="w-5 h-5 mr-2" />}
+                        Import as {normalizedSymbol || '...'}
+                    </button>
+                    {message && <p className={`text-sm ${message.type === 'success' ? 'text-positive' : 'text-negative'}`}>{message.text}</p>}
+                </div>
+            )}
+
+            <div className="bg-secondary p-6 rounded-lg border border-border-color space-y-4">
+                <h2 className="text-xl font-semibold">Imported Datasets</h2>
+                {datasetsError && <p className="text-sm text-negative">{datasetsError}</p>}
+                {datasets.length === 0 ? (
+                    <p className="text-sm text-text-secondary">Nothing imported yet.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead>
+                                <tr className="border-b border-border-color text-text-secondary">
+                                    <th className="p-2">Symbol</th>
+                                    <th className="p-2">Timeframe</th>
+                                    <th className="p-2">Asset Class</th>
+                                    <th className="p-2 text-right">Bars</th>
+                                    <th className="p-2">Range</th>
+                                    <th className="p-2">Source</th>
+                                    <th className="p-2">Imported</th>
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {datasets.map(dataset => (
+                                    <tr key={`${dataset.symbol}-${dataset.timeframe}`} className="border-b border-border-color/50">
+                                        <td className="p-2 font-semibold" title={dataset.description}>{dataset.symbol}</td>
+                                        <td className="p-2">{dataset.timeframe}</td>
+                                        <td className="p-2">{CUSTOM_ASSET_CLASS_LABELS[dataset.assetClass] ?? dataset.assetClass}</td>
+                                        <td className="p-2 text-right">{dataset.barCount.toLocaleString()}</td>
+                                        <td className="p-2 whitespace-nowrap">{dataset.firstBar.split('T')[0]} to {dataset.lastBar.split('T')[0]}</td>
+                                        <td className="p-2 text-text-secondary" title={`Read as ${dataset.timezone}`}>{dataset.sourceFile}</td>
+                                        <td className="p-2 text-text-secondary whitespace-nowrap">{dataset.importedAt.split('T')[0]}</td>
+                                        <td className="p-2 text-right">
+                                            <button onClick={() => handleDelete(dataset)} className="text-text-secondary hover:text-negative" title="Delete dataset">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DataImport;
@@ -2,9 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { fetchStockHistoricalData, fetchCryptoHistoricalData, fetchForexHistoricalData, fetchSnapshots } from '../services/marketDataService';
 import { EnhancedMarketOverviewData, MarketMover, ChartableAsset, ChartDataPoint, AlpacaBar, AlpacaCryptoBar, AlpacaForexBar } from '../types';
 import { POPULAR_TICKERS } from '../constants';
+import { calculateSMA } from '../services/indicatorService';
 import { AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react';
 import MiniChart from '../components/MiniChart';
 
+const CHART_SMA_PERIOD = 20; // Short enough to warm up within the 30-day crypto/forex windows
 
 const MoversList: React.FC<{ title: string; movers: MarketMover[]; type: 'gainer' | 'loser' }> = ({ title, movers, type }) => (
     <div>
@@ -50,9 +52,11 @@ const MarketOverview: React.FC = () => {
              return { name, value: price, change, changePercent, historicalData: [] };
         }
 
-        const historicalData: ChartDataPoint[] = bars.map(bar => ({
+        const sma = calculateSMA(bars.map(bar => bar.c), CHART_SMA_PERIOD);
+        const historicalData: ChartDataPoint[] = bars.map((bar, i) => ({
             date: bar.t.split('T')[0],
-            value: bar.c
+            value: bar.c,
+            sma: sma[i],
         }));
         
         const latestValue = bars[bars.length - 1].c;
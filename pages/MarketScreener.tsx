@@ -1,8 +1,10 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { ScreenerResult } from '../types';
 import { getScreenerData } from '../services/geminiService';
-import { fetchSnapshots } from '../services/marketDataService';
-import { SECTORS, COUNTRIES } from '../constants';
+import { fetchSnapshots, fetchStockHistoricalData } from '../services/marketDataService';
+import { calculateRSI, calculateSMA } from '../services/indicatorService';
+import { SECTORS, COUNTRIES, DEFAULT_INDICATOR_PARAMS } from '../constants';
+import { AlpacaBar } from '../types';
 import { ChevronsUpDown, ArrowUp, ArrowDown, RefreshCw, AlertTriangle, Info } from 'lucide-react';
 
 type SortConfig = {
@@ -10,6 +12,18 @@ type SortConfig = {
     direction: 'ascending' | 'descending';
 } | null;
 
+// Latest RSI and distance from the fast SMA, or nulls while the indicators are still warming up.
+const getTechnicalSnapshot = (bars: AlpacaBar[] | undefined): Pick<ScreenerResult, 'rsi' | 'smaFastDistance'> => {
+    if (!bars || bars.length === 0) return { rsi: null, smaFastDistance: null };
+    const last = bars.length - 1;
+    const rsi = calculateRSI(bars, DEFAULT_INDICATOR_PARAMS.rsiPeriod)[last];
+    const sma = calculateSMA(bars.map(b => b.c), DEFAULT_INDICATOR_PARAMS.smaFastPeriod)[last];
+    return {
+        rsi,
+        smaFastDistance: sma ? ((bars[last].c - sma) / sma) * 100 : null,
+    };
+};
+
 const MarketScreener: React.FC = () => {
     const [filters, setFilters] = useState({
         sector: 'All',
@@ -31,26 +45,31 @@ const MarketScreener: React.FC = () => {
             const baseAssets = await getScreenerData();
             const tickers = baseAssets.map(a => a.ticker);
 
-            // 2. Fetch live snapshot data from Alpaca
-            const snapshotsResult = await fetchSnapshots(tickers);
+            // 2. Fetch live snapshot data from Alpaca, plus a year of daily bars for the technical columns
+            const [snapshotsResult, barsResult] = await Promise.all([
+                fetchSnapshots(tickers),
+                fetchStockHistoricalData(tickers),
+            ]);
             if (!snapshotsResult.success || !snapshotsResult.data) {
                 throw new Error(snapshotsResult.error?.message || 'Failed to fetch live market data.');
             }
             const snapshots = snapshotsResult.data;
+            const historicalBars = barsResult.success && barsResult.data ? barsResult.data : {};
 
             // 3. Merge live data into the base list
             const mergedAssets: ScreenerResult[] = baseAssets.map(asset => {
                 const snapshot = snapshots[asset.ticker];
+                const technicals = getTechnicalSnapshot(historicalBars[asset.ticker]);
                 if (snapshot) {
                     const price = snapshot.latestQuote?.p || 0;
                     const prevClose = snapshot.prevDailyBar?.c || 0;
                     const change = price - prevClose;
                     const change1D = prevClose > 0 ? (change / prevClose) * 100 : 0;
                     const volume = (snapshot.dailyBar?.v || 0) / 1_000_000; // to millions
-                    return { ...asset, price, change1D, volume };
+                    return { ...asset, price, change1D, volume, ...technicals };
                 }
                 // Return asset with 0s if no live data was found
-                return { ...asset, price: 0, change1D: 0, volume: 0 };
+                return { ...asset, price: 0, change1D: 0, volume: 0, ...technicals };
             });
 
             setAllAssets(mergedAssets);
@@ -138,6 +157,8 @@ const MarketScreener: React.FC = () => {
         { key: 'price', label: 'Price ($)' },
         { key: 'change1D', label: 'Change (1D)' },
         { key: 'volume', label: 'Volume (M)' },
+        { key: 'rsi', label: `RSI (${DEFAULT_INDICATOR_PARAMS.rsiPeriod})` },
+        { key: 'smaFastDistance', label: `vs ${DEFAULT_INDICATOR_PARAMS.smaFastPeriod}D SMA` },
     ];
 
     return (
@@ -233,6 +254,8 @@ const MarketScreener: React.FC = () => {
                                     <td className="p-3">${item.price.toFixed(2)}</td>
                                     <td className={`p-3 font-medium ${item.change1D >= 0 ? 'text-positive' : 'text-negative'}`}>{item.change1D.toFixed(2)}%</td>
                                     <td className="p-3">{item.volume.toFixed(2)}</td>
+                                    <td className={`p-3 ${item.rsi !== null && item.rsi >= 70 ? 'text-negative' : item.rsi !== null && item.rsi <= 30 ? 'text-positive' : ''}`}>{item.rsi !== null ? item.rsi.toFixed(1) : '-'}</td>
+                                    <td className={`p-3 font-medium ${item.smaFastDistance !== null && item.smaFastDistance >= 0 ? 'text-positive' : 'text-negative'}`}>{item.smaFastDistance !== null ? `${item.smaFastDistance.toFixed(2)}%` : '-'}</td>
                                 </tr>
                             )) : (
                                 <tr>
@@ -1,10 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useApp } from '../context/AppContext';
-import { StrategyModel, SavedStrategy, FitStatus, AssetClass, AssetUniverse, Indicator, StrategyObjective } from '../types';
-import { STRATEGY_MODELS, ASSET_UNIVERSES, ASSET_UNIVERSE_TICKER_MAP, SYMBOL_TO_ASSET_CLASS_MAP, INDICATORS, STRATEGY_OBJECTIVES } from '../constants';
+import { StrategyModel, SavedStrategy, FitStatus, AssetClass, AssetUniverse, Indicator, StrategyObjective, ExitRules, PositionSizing, CustomDataset } from '../types';
+import { STRATEGY_MODELS, ASSET_UNIVERSES, ASSET_UNIVERSE_TICKER_MAP, SYMBOL_TO_ASSET_CLASS_MAP, INDICATORS, STRATEGY_OBJECTIVES, DEFAULT_EXIT_RULES, DEFAULT_POSITION_SIZING } from '../constants';
 import { getStrategyFromConversation } from '../services/geminiService';
 import { startTrainingJob, getTrainingStatus, TrainingStatusResponse } from '../services/strategyService';
+import { fetchCustomDatasets } from '../services/dataImportService';
+import ExitRulesEditor from '../components/ExitRulesEditor';
+import PositionSizingEditor from '../components/PositionSizingEditor';
 import { BrainCircuit, CheckCircle, Info, Trash2, Wand2, RefreshCw, TrendingUp, Target, ShieldCheck, ShieldAlert, ShieldX, Zap, Edit, Send, Bot, Globe, Lightbulb, Clock, GitCommit, Waves, MoveRight, Sigma, BarChart, GitBranch, Crosshair } from 'lucide-react';
 
 type TrainingResult = {
@@ -156,10 +159,14 @@ const StrategyMaker: React.FC = () => {
     const [selectedModels, setSelectedModels] = useState<StrategyModel[]>([]);
     const [selectedUniverses, setSelectedUniverses] = useState<AssetUniverse[]>([]);
     const [customSymbols, setCustomSymbols] = useState('');
+    const [importedDatasets, setImportedDatasets] = useState<CustomDataset[]>([]);
     const [trainingPeriodYears, setTrainingPeriodYears] = useState(3);
     const [minLeverage, setMinLeverage] = useState(2);
     const [maxLeverage, setMaxLeverage] = useState(5);
     const [stopLossPercentage, setStopLossPercentage] = useState(2);
+    const [allowShorts, setAllowShorts] = useState(false);
+    const [exitRules, setExitRules] = useState<ExitRules>(DEFAULT_EXIT_RULES);
+    const [positionSizing, setPositionSizing] = useState<PositionSizing>(DEFAULT_POSITION_SIZING);
     const [editingStrategyId, setEditingStrategyId] = useState<string | null>(null);
 
     // New state for ML customization
@@ -186,6 +193,12 @@ const StrategyMaker: React.FC = () => {
         }
     }, [chatHistory]);
 
+    useEffect(() => {
+        fetchCustomDatasets().then(result => {
+            if (result.success && result.data) setImportedDatasets(result.data);
+        });
+    }, []);
+
     // Cleanup polling on component unmount
     useEffect(() => {
         return () => {
@@ -238,6 +251,14 @@ const StrategyMaker: React.FC = () => {
         setSelectedUniverses(prev => prev.includes(universe) ? prev.filter(u => u !== universe) : [...prev, universe]);
     };
 
+    // Imported datasets are added to or removed from the custom symbols, which is all a strategy needs to use them.
+    const importedSymbols = Array.from(new Set<string>(importedDatasets.map(d => d.symbol)));
+    const enteredSymbols = customSymbols.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+    const handleImportedSymbolToggle = (symbol: string) => {
+        const next = enteredSymbols.includes(symbol) ? enteredSymbols.filter(s => s !== symbol) : [...enteredSymbols, symbol];
+        setCustomSymbols(next.join(', '));
+    };
+
     const stopAllTimers = () => {
         if (pollingIntervalRef.current) clearInterval(pollingIntervalRef.current);
         if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
@@ -341,6 +362,9 @@ const StrategyMaker: React.FC = () => {
             fitStatus: trainingResult.fitStatus,
             indicators: selectedIndicators,
             strategyObjective: strategyObjective,
+            allowShorts,
+            exitRules,
+            positionSizing,
         };
         saveStrategy(newStrategy);
         resetForm();
@@ -358,6 +382,9 @@ const StrategyMaker: React.FC = () => {
         setStopLossPercentage(strategy.stopLossPercentage);
         setSelectedIndicators(strategy.indicators);
         setStrategyObjective(strategy.strategyObjective);
+        setAllowShorts(strategy.allowShorts);
+        setExitRules(strategy.exitRules);
+        setPositionSizing(strategy.positionSizing);
         setTrainingStatus('idle');
         setTrainingResult(null);
         setChatHistory([]);
@@ -393,6 +420,9 @@ const StrategyMaker: React.FC = () => {
         setMinLeverage(2);
         setMaxLeverage(5);
         setStopLossPercentage(2);
+        setAllowShorts(false);
+        setExitRules(DEFAULT_EXIT_RULES);
+        setPositionSizing(DEFAULT_POSITION_SIZING);
         setSelectedIndicators([Indicator.RSI, Indicator.MACD, Indicator.SMA50]);
         setStrategyObjective(StrategyObjective.TrendFollowing);
         setTrainingResult(null);
@@ -448,6 +478,18 @@ const StrategyMaker: React.FC = () => {
                     <div>
                         <label className="block text-sm font-medium text-gray-300 mb-1">Add Custom Symbols (Optional)</label>
                         <input type="text" value={customSymbols} onChange={e => setCustomSymbols(e.target.value)} placeholder="e.g., AAPL, TSLA, EUR/USD, GLD" className="w-full bg-primary border border-border-color rounded-md p-2" />
+                        {importedSymbols.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2 mt-2">
+                                <span className="text-xs text-text-secondary">Imported data:</span>
+                                {importedSymbols.map(symbol => (
+                                    <button
+                                        key={symbol}
+                                        onClick={() => handleImportedSymbolToggle(symbol)}
+                                        className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${enteredSymbols.includes(symbol) ? 'bg-accent text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                                    >{symbol}</button>
+                                ))}
+                            </div>
+                        )}
                     </div>
 
                     <div>
@@ -499,6 +541,12 @@ const StrategyMaker: React.FC = () => {
                             <input type="number" value={maxLeverage} onChange={e => setMaxLeverage(Number(e.target.value))} className="w-full bg-primary border border-border-color rounded-md p-2" />
                         </div>
                     </div>
+                    <div className="flex items-center">
+                        <input type="checkbox" id="allow-shorts" checked={allowShorts} onChange={e => setAllowShorts(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-accent bg-primary focus:ring-accent" />
+                        <label htmlFor="allow-shorts" className="ml-2 block text-sm text-gray-300">Allow short selling (stop above entry, target below)</label>
+                    </div>
+                    <PositionSizingEditor sizing={positionSizing} onChange={setPositionSizing} />
+                    <ExitRulesEditor rules={exitRules} onChange={setExitRules} />
                      <p className="text-xs text-center text-gray-400">All trades will be placed with a Risk/Reward ratio of > 2.5x.</p>
 
                     {appliedMessage && (
@@ -7,7 +7,9 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { GoogleGenAI, Type } from '@google/genai';
 import { v4 as uuidv4 } from 'uuid';
-import yahoo from 'yahoo-finance2';
+import { clearCacheEntries, listCacheEntries } from './server/barCache.js';
+import { deleteDataset, listDatasets, saveDataset } from './server/customData.js';
+import { describeRouting, getBars, getCorporateActions, getNews, getSnapshots } from './server/marketData.js';
 
 dotenv.config();
 
@@ -35,7 +37,7 @@ const corsOptions = {
 };
 
 app.use(cors(corsOptions));
-app.use(express.json());
+app.use(express.json({ limit: '100mb' })); // Imported datasets arrive as JSON bars
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -163,59 +165,94 @@ apiRouter.get('/training-status/:jobId', (req, res) => {
     res.json(job);
 });
 
-apiRouter.post('/yfinance/historical', async (req, res) => {
-    const { symbols, startDate, endDate, timeframe } = req.body;
-    
+// --- Market Data ---
+// Bars, corporate actions, snapshots and news from whichever provider the routing table picks per symbol.
+// Bars are always split-adjusted here; the client converts them to the price basis it wants.
+apiRouter.post('/market-data/bars', async (req, res) => {
+    const { symbols, startDate, endDate, timeframe = '1Day' } = req.body;
     if (!symbols || !Array.isArray(symbols) || symbols.length === 0) {
         return res.status(400).json({ message: "Symbols array is required." });
     }
-    
-    // Map Alpaca timeframe to yahoo-finance2 interval
-    const timeframeMap = {
-        '5Min': '5m',
-        '15Min': '15m',
-        '1Hour': '60m',
-        '1Day': '1d'
-    };
-    const interval = timeframeMap[timeframe] || '1d';
+    if (!startDate || !endDate) return res.status(400).json({ message: 'startDate and endDate are required.' });
+
+    const result = await getBars(symbols, { timeframe, start: startDate, end: endDate });
+    Object.entries(result.errors).forEach(([symbol, message]) => console.warn(`No bars for ${symbol}: ${message}`));
+    if (Object.keys(result.bars).length === 0) {
+        return res.status(502).json({ message: 'No market data provider returned bars for any requested symbol.', errors: result.errors });
+    }
+    res.json(result);
+});
+
+// Splits and cash dividends from startDate to today, dividends in split-adjusted terms like the bars.
+apiRouter.post('/market-data/corporate-actions', async (req, res) => {
+    const { symbols, startDate } = req.body;
+    if (!symbols || !Array.isArray(symbols) || symbols.length === 0) {
+        return res.status(400).json({ message: "Symbols array is required." });
+    }
+    res.json(await getCorporateActions(symbols, startDate));
+});
 
+apiRouter.get('/market-data/snapshots', async (req, res) => {
+    const symbols = String(req.query.symbols || '').split(',').filter(Boolean);
+    if (symbols.length === 0) return res.status(400).json({ message: 'At least one symbol is required.' });
+    res.json(await getSnapshots(symbols));
+});
 
+apiRouter.get('/market-data/news', async (req, res) => {
     try {
-        const queryOptions = {
-            period1: startDate,
-            period2: endDate,
-            interval: interval,
-        };
-        const result = await yahoo.historical(symbols, queryOptions);
-
-        const formattedData = {};
-        for (const symbol of symbols) {
-            const symbolData = result[symbol];
-            // Check for valid data (is an array and not an error object from yahoo-finance2)
-            if (Array.isArray(symbolData)) {
-                formattedData[symbol] = symbolData.map(bar => ({
-                    t: bar.date.toISOString(),
-                    o: bar.open,
-                    h: bar.high,
-                    l: bar.low,
-                    c: bar.close,
-                    v: bar.volume
-                }));
-            } else {
-                console.warn(`Could not fetch data for symbol: ${symbol} from Yahoo Finance. It may be delisted or invalid.`);
-                // Return empty array for symbols that failed, to prevent frontend errors
-                formattedData[symbol] = []; 
-            }
-        }
-        
-        res.json(formattedData);
+        res.json({ news: await getNews(Number(req.query.limit) || 20) });
+    } catch (error) {
+        res.status(502).json({ message: error.message });
+    }
+});
+
+// The routing table in effect and which providers are usable right now.
+apiRouter.get('/market-data/routes', (req, res) => {
+    res.json(describeRouting());
+});
 
+// Datasets imported by users, served as ordinary symbols by the market data endpoints above.
+apiRouter.get('/custom-data', (req, res) => {
+    res.json(listDatasets());
+});
+
+apiRouter.post('/custom-data', async (req, res) => {
+    const { dataset, bars, replace } = req.body;
+    try {
+        res.json(await saveDataset(dataset || {}, bars, { replace: Boolean(replace) }));
+    } catch (error) {
+        res.status(error.status || 500).json({ message: error.message });
+    }
+});
+
+// Removes ?symbol=, only its ?timeframe= data if given.
+apiRouter.delete('/custom-data', async (req, res) => {
+    const { symbol, timeframe } = req.query;
+    if (!symbol) return res.status(400).json({ message: 'A symbol is required.' });
+    try {
+        res.json({ removed: await deleteDataset(symbol, timeframe) });
     } catch (error) {
-        console.error("Yahoo Finance API Error:", error.message);
-        // If the entire API call fails, return empty arrays for all requested symbols
-        const emptyData = {};
-        symbols.forEach(s => { emptyData[s] = [] });
-        res.status(500).json(emptyData);
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// What the bar cache holds, optionally filtered by ?provider=&adjustment=&timeframe=&symbol=
+apiRouter.get('/cache/bars', async (req, res) => {
+    try {
+        const { provider, adjustment, timeframe, symbol } = req.query;
+        res.json(await listCacheEntries({ provider, adjustment, timeframe, symbol }));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Drops cached bars, all of them unless the same filters as above narrow it down.
+apiRouter.delete('/cache/bars', async (req, res) => {
+    try {
+        const { provider, adjustment, timeframe, symbol } = req.query;
+        res.json({ removed: await clearCacheEntries({ provider, adjustment, timeframe, symbol }) });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
     }
 });
 
@@ -369,7 +406,10 @@ app.get('*', (req, res) => {
 app.listen(PORT, () => {
     console.log(`Node.js server running on http://localhost:${PORT}`);
     if (!process.env.APCA_API_KEY_ID || !process.env.APCA_API_SECRET_KEY) {
-        console.warn('Warning: Alpaca API keys are missing from .env file. Alpaca proxy will not work.');
+        console.warn('Warning: Alpaca API keys are missing from .env file. Alpaca proxy will not work; market data falls back to other providers.');
+    }
+    if (process.env.MARKET_DATA_PROVIDER) {
+        console.log(`All market data is served by the '${process.env.MARKET_DATA_PROVIDER}' provider.`);
     }
     if (!ai) {
         console.warn('Warning: Google AI API key is missing from .env file. AI features will be disabled.');
@@ -0,0 +1,168 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// One JSON file per symbol, timeframe, provider and adjustment, holding every bar fetched so far and the
+// date ranges that are known to be complete. Requests only go upstream for the days the file doesn't cover.
+const CACHE_DIR = process.env.BAR_CACHE_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '.cache', 'bars');
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const RECENT_DAYS = 5; // Providers may still be publishing bars this close to today
+
+const toDate = (value) => String(value).split('T')[0];
+
+// Every provider stamps bars in this one ISO 8601 form (2024-01-02T14:30:00.000Z), so the same instant from two
+// sources is the same bar.
+export const toCanonicalTime = (t) => new Date(t).toISOString();
+
+export const addDays = (date, days) => new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY).toISOString().split('T')[0];
+
+const getCacheFile = ({ provider, adjustment, timeframe, symbol }) =>
+    path.join(CACHE_DIR, provider, adjustment, timeframe, `${encodeURIComponent(symbol)}.json`);
+
+// Sorted, with overlapping and touching ranges joined.
+const mergeRanges = (ranges) => {
+    const merged = [];
+    for (const range of [...ranges].sort((a, b) => a.start.localeCompare(b.start))) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= addDays(last.end, 1)) {
+            if (range.end > last.end) last.end = range.end;
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+};
+
+// The parts of start..end (inclusive dates) that no covered range includes.
+export const getMissingRanges = (coverage, start, end) => {
+    const missing = [];
+    let cursor = start;
+    for (const range of mergeRanges(coverage)) {
+        if (range.end < cursor) continue;
+        if (range.start > end) break;
+        if (range.start > cursor) missing.push({ start: cursor, end: addDays(range.start, -1) });
+        cursor = addDays(range.end, 1);
+        if (cursor > end) return missing;
+    }
+    if (cursor <= end) missing.push({ start: cursor, end });
+    return missing;
+};
+
+// Later fetches win, so a bar that was still forming when it was first cached gets replaced.
+const mergeBars = (existing, fetched) => {
+    const byTime = new Map(existing.map(bar => [toCanonicalTime(bar.t), { ...bar, t: toCanonicalTime(bar.t) }]));
+    fetched.forEach(bar => byTime.set(toCanonicalTime(bar.t), { ...bar, t: toCanonicalTime(bar.t) }));
+    return [...byTime.values()].sort((a, b) => a.t.localeCompare(b.t));
+};
+
+const readEntry = async (file) => {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        return null; // Not cached yet, or a partly written file from a crash: refetch it
+    }
+};
+
+// Written to a temporary file first, so a crash mid-write never leaves a truncated cache file behind.
+const writeEntry = async (file, entry) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(entry));
+    await fs.rename(tempFile, file);
+};
+
+// Requests for the same file run one after another, so concurrent backtests can't drop each other's bars.
+const locks = new Map();
+const withLock = (file, task) => {
+    const run = (locks.get(file) || Promise.resolve()).then(task, task);
+    const settled = run.catch(() => {});
+    locks.set(file, settled);
+    settled.then(() => {
+        if (locks.get(file) === settled) locks.delete(file);
+    });
+    return run;
+};
+
+// Bars for `key` from start to end (dates, inclusive), fetching only the missing ranges with
+// `fetchRange(start, end)`. Today is never marked as covered, since its bar may still be forming. An empty
+// answer may be a rate limit or a late publish rather than a market holiday, so it covers nothing, and in the
+// last few days coverage stops at the last bar returned.
+// If the provider fails, whatever the cache holds for the range is returned with `stale: true`; the
+// provider's error is only thrown when the cache has nothing for the range at all.
+export const getCachedBars = (key, start, end, fetchRange) => {
+    const file = getCacheFile(key);
+    return withLock(file, async () => {
+        const entry = (await readEntry(file)) || { ...key, coverage: [], bars: [], updatedAt: null };
+        const today = toDate(new Date().toISOString());
+        const requestEnd = toDate(end) > today ? today : toDate(end);
+        let error = null;
+        let changed = false;
+
+        for (const range of getMissingRanges(entry.coverage, toDate(start), requestEnd)) {
+            try {
+                const fetched = await fetchRange(range.start, range.end);
+                if (fetched.length === 0) continue;
+                entry.bars = mergeBars(entry.bars, fetched);
+                const lastBarDate = toDate(fetched.map(bar => toCanonicalTime(bar.t)).sort().pop());
+                const settledEnd = range.end < today ? range.end : addDays(today, -1);
+                const coveredEnd = settledEnd >= addDays(today, -RECENT_DAYS) && lastBarDate < settledEnd ? lastBarDate : settledEnd;
+                if (coveredEnd >= range.start) entry.coverage = mergeRanges([...entry.coverage, { start: range.start, end: coveredEnd }]);
+                changed = true;
+            } catch (e) {
+                error = e;
+            }
+        }
+        if (changed) {
+            entry.updatedAt = new Date().toISOString();
+            await writeEntry(file, entry);
+        }
+
+        const bars = entry.bars.filter(bar => toDate(bar.t) >= toDate(start) && toDate(bar.t) <= requestEnd);
+        if (error && bars.length === 0) throw error;
+        return { bars, stale: error !== null };
+    });
+};
+
+const listFiles = async (dir) => {
+    const items = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const nested = await Promise.all(items.map(item => {
+        const itemPath = path.join(dir, item.name);
+        return item.isDirectory() ? listFiles(itemPath) : Promise.resolve(item.name.endsWith('.json') ? [itemPath] : []);
+    }));
+    return nested.flat();
+};
+
+const matchesFilter = (entry, filter) =>
+    Object.entries(filter).every(([field, value]) => !value || entry[field] === value);
+
+// What the cache holds, without the bars themselves. `filter` may name a provider, adjustment, timeframe or symbol.
+export const listCacheEntries = async (filter = {}) => {
+    const entries = [];
+    for (const file of await listFiles(CACHE_DIR)) {
+        const entry = await readEntry(file);
+        if (!entry || !matchesFilter(entry, filter)) continue;
+        const { bars, ...summary } = entry;
+        const stats = await fs.stat(file);
+        entries.push({
+            ...summary,
+            barCount: bars.length,
+            firstBar: bars[0]?.t ?? null,
+            lastBar: bars[bars.length - 1]?.t ?? null,
+            sizeBytes: stats.size,
+        });
+    }
+    return entries.sort((a, b) => a.symbol.localeCompare(b.symbol) || a.timeframe.localeCompare(b.timeframe));
+};
+
+// Deletes the entries matching `filter` (everything when it is empty) and returns how many went.
+export const clearCacheEntries = async (filter = {}) => {
+    let removed = 0;
+    for (const file of await listFiles(CACHE_DIR)) {
+        const entry = await readEntry(file);
+        if (entry && !matchesFilter(entry, filter)) continue;
+        await withLock(file, () => fs.rm(file, { force: true }));
+        removed++;
+    }
+    return removed;
+};
@@ -0,0 +1,106 @@
+import fsSync from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Datasets imported by users (vendor bars, continuous futures, alternative data), kept outside the bar cache
+// since they can't be refetched:
+//   index.json                             CustomDataset[], one per symbol and timeframe
+//   bars/<timeframe>/<symbol>.json         AlpacaBar[] in time order
+export const CUSTOM_DATA_DIR = process.env.CUSTOM_DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '.data', 'custom');
+
+const INDEX_FILE = path.join(CUSTOM_DATA_DIR, 'index.json');
+
+export const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9._/^=!-]{0,31}$/;
+export const TIMEFRAMES = ['5Min', '15Min', '1Hour', '1Day'];
+
+const getBarsFile = (symbol, timeframe) => path.join(CUSTOM_DATA_DIR, 'bars', timeframe, `${encodeURIComponent(symbol)}.json`);
+
+// Loaded once at startup so symbol routing can stay synchronous; every change goes through this module.
+const loadIndex = () => {
+    try {
+        return JSON.parse(fsSync.readFileSync(INDEX_FILE, 'utf8'));
+    } catch (error) {
+        if (error.code !== 'ENOENT') console.warn(`Could not read the custom dataset index at ${INDEX_FILE}:`, error.message);
+        return [];
+    }
+};
+
+let datasets = loadIndex();
+
+// Written to a temporary file first, so a crash mid-write never leaves a truncated file behind.
+const writeJson = async (file, value) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(value));
+    await fs.rename(tempFile, file);
+};
+
+export const listDatasets = () => [...datasets].sort((a, b) => a.symbol.localeCompare(b.symbol) || a.timeframe.localeCompare(b.timeframe));
+
+export const getDatasets = (symbol) => datasets.filter(d => d.symbol === symbol);
+
+export const isCustomSymbol = (symbol) => datasets.some(d => d.symbol === symbol);
+
+export const readDatasetBars = async (symbol, timeframe) => {
+    try {
+        return JSON.parse(await fs.readFile(getBarsFile(symbol, timeframe), 'utf8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw new Error(`Could not read imported bars for ${symbol} (${timeframe}): ${error.message}`);
+    }
+};
+
+// The client maps and checks the file; this re-checks what the rest of the server relies on, then stores it.
+// Throws with `status` set for requests the caller should fix.
+export const saveDataset = async (metadata, bars, { replace = false } = {}) => {
+    const fail = (message, status = 400) => {
+        throw Object.assign(new Error(message), { status });
+    };
+    const { symbol, timeframe } = metadata;
+    if (!SYMBOL_PATTERN.test(symbol || '')) fail(`'${symbol}' is not a valid symbol. Use upper-case letters, digits and . _ / ^ = ! -`);
+    if (!TIMEFRAMES.includes(timeframe)) fail(`Timeframe must be one of ${TIMEFRAMES.join(', ')}.`);
+    if (!Array.isArray(bars) || bars.length === 0) fail('The dataset has no bars.');
+
+    for (let i = 0; i < bars.length; i++) {
+        const bar = bars[i];
+        if (typeof bar.t !== 'string' || isNaN(Date.parse(bar.t)) || !['o', 'h', 'l', 'c', 'v'].every(field => Number.isFinite(bar[field]))) {
+            fail(`Bar ${i + 1} is malformed.`);
+        }
+        if (i > 0 && bar.t <= bars[i - 1].t) fail(`Bars must be in time order without duplicates (bar ${i + 1}, ${bar.t}).`);
+    }
+    if (!replace && datasets.some(d => d.symbol === symbol && d.timeframe === timeframe)) {
+        fail(`${symbol} already has imported ${timeframe} data.`, 409);
+    }
+
+    const { assetClass = 'stock', description = '', sourceFile = '', sourceFormat = '', timezone = '', columns = {} } = metadata;
+    const dataset = {
+        symbol,
+        timeframe,
+        assetClass,
+        description,
+        sourceFile,
+        sourceFormat,
+        timezone,
+        columns,
+        barCount: bars.length,
+        firstBar: bars[0].t,
+        lastBar: bars[bars.length - 1].t,
+        importedAt: new Date().toISOString(),
+    };
+    await writeJson(getBarsFile(symbol, timeframe), bars);
+    datasets = [...datasets.filter(d => !(d.symbol === symbol && d.timeframe === timeframe)), dataset];
+    await writeJson(INDEX_FILE, datasets);
+    return dataset;
+};
+
+// Removes one timeframe of a symbol, or all of them when `timeframe` is empty. Returns how many went.
+export const deleteDataset = async (symbol, timeframe) => {
+    const removed = datasets.filter(d => d.symbol === symbol && (!timeframe || d.timeframe === timeframe));
+    for (const dataset of removed) {
+        await fs.rm(getBarsFile(dataset.symbol, dataset.timeframe), { force: true });
+    }
+    datasets = datasets.filter(d => !removed.includes(d));
+    await writeJson(INDEX_FILE, datasets);
+    return removed.length;
+};
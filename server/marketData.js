@@ -0,0 +1,144 @@
+import fs from 'fs';
+import { getCachedBars } from './barCache.js';
+import { getDatasets } from './customData.js';
+import { alpacaProvider } from './providers/alpacaProvider.js';
+import { yahooProvider } from './providers/yahooProvider.js';
+import { fixtureProvider } from './providers/fixtureProvider.js';
+import { customProvider } from './providers/customProvider.js';
+
+// A market data provider is an object with a `name`, an `isAvailable()` check (false when, say, its API keys
+// are missing) and any of:
+//   getBars(symbol, assetClass, { timeframe, start, end })  split-adjusted AlpacaBar[], start..end dates inclusive
+//   getCorporateActions(symbols, assetClass, start)         { [symbol]: CorporateAction[] } from start to today
+//   getSnapshots(symbols, assetClass)                       { [symbol]: AlpacaSnapshot }
+//   getNews(limit)                                          AlpacaNewsArticle[]
+// A provider that throws, or leaves a symbol out, hands that symbol to the next provider on its route.
+export const PROVIDERS = Object.fromEntries([alpacaProvider, yahooProvider, fixtureProvider, customProvider].map(p => [p.name, p]));
+
+// Local providers read files directly, so their bars skip the bar cache.
+const UNCACHED_PROVIDERS = new Set(['fixture', 'custom']);
+
+const FOREX_CURRENCIES = 'USD|EUR|GBP|JPY|CHF|AUD|CAD|NZD|SEK|NOK|DKK|HKD|SGD|CNH|MXN|ZAR';
+
+// The first route whose pattern matches a symbol decides its asset class and the providers tried, in order.
+export const DEFAULT_ROUTES = [
+    { assetClass: 'forex', pattern: `^(${FOREX_CURRENCIES})/(${FOREX_CURRENCIES})$`, providers: ['alpaca', 'yahoo'] },
+    { assetClass: 'forex', pattern: '^[A-Z]{6}=X$', providers: ['yahoo'] },
+    { assetClass: 'crypto', pattern: '^[A-Z0-9]+/[A-Z]+$', providers: ['alpaca', 'yahoo'] },
+    { assetClass: 'index', pattern: '^\\^', providers: ['yahoo'] },
+    { assetClass: 'stock', pattern: '^[A-Z]+$', providers: ['alpaca', 'yahoo'] }, // US listings
+    { assetClass: 'stock', pattern: '.', providers: ['yahoo'] }, // International listings (SAP.DE, 7203.T), futures
+];
+
+export const DEFAULT_NEWS_PROVIDERS = ['alpaca', 'yahoo'];
+
+// MARKET_DATA_ROUTES may point at a JSON file with its own { routes, newsProviders }; MARKET_DATA_PROVIDER
+// sends everything to one provider, e.g. `fixture` to work offline.
+const loadRouting = () => {
+    let routing = { routes: DEFAULT_ROUTES, newsProviders: DEFAULT_NEWS_PROVIDERS };
+    if (process.env.MARKET_DATA_ROUTES) {
+        const custom = JSON.parse(fs.readFileSync(process.env.MARKET_DATA_ROUTES, 'utf8'));
+        routing = { routes: custom.routes || routing.routes, newsProviders: custom.newsProviders || routing.newsProviders };
+    }
+    const forced = process.env.MARKET_DATA_PROVIDER;
+    if (forced) {
+        routing = { routes: routing.routes.map(route => ({ ...route, providers: [forced] })), newsProviders: [forced] };
+    }
+    const unknown = [...routing.routes.flatMap(r => r.providers), ...routing.newsProviders].filter(name => !PROVIDERS[name]);
+    if (unknown.length > 0) throw new Error(`Unknown market data provider(s) in the routing table: ${[...new Set(unknown)].join(', ')}`);
+    return routing;
+};
+
+const routing = loadRouting();
+const compiledRoutes = routing.routes.map(route => ({ ...route, regex: new RegExp(route.pattern) }));
+
+const getAvailableProviders = (names, capability) =>
+    names.map(name => PROVIDERS[name]).filter(provider => provider[capability] && provider.isAvailable());
+
+// Imported datasets take precedence over the routing table, even when one provider is forced.
+export const resolveRoute = (symbol) => {
+    const imported = getDatasets(symbol);
+    if (imported.length > 0) return { assetClass: imported[0].assetClass, providers: ['custom'] };
+    const route = compiledRoutes.find(r => r.regex.test(symbol));
+    return route ? { assetClass: route.assetClass, providers: route.providers } : { assetClass: 'stock', providers: [] };
+};
+
+export const describeRouting = () => ({
+    routes: routing.routes,
+    newsProviders: routing.newsProviders,
+    providers: Object.values(PROVIDERS).map(p => ({ name: p.name, available: p.isAvailable() })),
+});
+
+// Bars for each symbol from the first provider on its route that has any. `sources` names the provider each
+// symbol came from; `staleSymbols` were served from the bar cache because their provider was unreachable.
+export const getBars = async (symbols, { timeframe, start, end }) => {
+    const bars = {};
+    const sources = {};
+    const staleSymbols = [];
+    const errors = {};
+    for (const symbol of symbols) {
+        const { assetClass, providers } = resolveRoute(symbol);
+        for (const provider of getAvailableProviders(providers, 'getBars')) {
+            try {
+                const fetchRange = (rangeStart, rangeEnd) => provider.getBars(symbol, assetClass, { timeframe, start: rangeStart, end: rangeEnd });
+                const result = UNCACHED_PROVIDERS.has(provider.name)
+                    ? { bars: await fetchRange(start, end), stale: false }
+                    : await getCachedBars({ provider: provider.name, adjustment: 'split', timeframe, symbol }, start, end, fetchRange);
+                if (result.bars.length === 0) continue;
+                bars[symbol] = result.bars;
+                sources[symbol] = provider.name;
+                if (result.stale) staleSymbols.push(symbol);
+                break;
+            } catch (error) {
+                errors[symbol] = `${provider.name}: ${error.message}`;
+            }
+        }
+        if (bars[symbol]) delete errors[symbol];
+        else errors[symbol] = errors[symbol] || 'No provider on its route returned any bars.';
+    }
+    return { bars, sources, staleSymbols, errors };
+};
+
+// Runs a batched request down each symbol's route: symbols are grouped by asset class and route, each
+// provider gets the ones still missing, and whatever it leaves out moves on to the next provider.
+const getBatched = async (symbols, capability, request) => {
+    const results = {};
+    const groups = new Map();
+    for (const symbol of symbols) {
+        const { assetClass, providers } = resolveRoute(symbol);
+        const key = `${assetClass}:${providers.join(',')}`;
+        if (!groups.has(key)) groups.set(key, { assetClass, providers, symbols: [] });
+        groups.get(key).symbols.push(symbol);
+    }
+    for (const group of groups.values()) {
+        let remaining = group.symbols;
+        for (const provider of getAvailableProviders(group.providers, capability)) {
+            if (remaining.length === 0) break;
+            try {
+                Object.assign(results, await request(provider, remaining, group.assetClass));
+            } catch (error) {
+                console.warn(`${provider.name} ${capability} failed for ${remaining.join(', ')}:`, error.message);
+            }
+            remaining = remaining.filter(symbol => !results[symbol]);
+        }
+    }
+    return results;
+};
+
+export const getCorporateActions = (symbols, start) =>
+    getBatched(symbols, 'getCorporateActions', (provider, batch, assetClass) => provider.getCorporateActions(batch, assetClass, start));
+
+export const getSnapshots = (symbols) =>
+    getBatched(symbols, 'getSnapshots', (provider, batch, assetClass) => provider.getSnapshots(batch, assetClass));
+
+export const getNews = async (limit) => {
+    let lastError = null;
+    for (const provider of getAvailableProviders(routing.newsProviders, 'getNews')) {
+        try {
+            return await provider.getNews(limit);
+        } catch (error) {
+            lastError = error;
+        }
+    }
+    throw lastError || new Error('No news provider is available.');
+};
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { toCanonicalTime } from '../barCache.js';
+
+const DATA_URL = 'https://data.alpaca.markets';
+const FEED = 'iex';
+
+const request = async (endpoint, params) => {
+    const response = await axios.get(`${DATA_URL}${endpoint}`, {
+        headers: { 'APCA-API-KEY-ID': process.env.APCA_API_KEY_ID, 'APCA-API-SECRET-KEY': process.env.APCA_API_SECRET_KEY },
+        params,
+    });
+    return response.data;
+};
+
+// Follows next_page_token until Alpaca has returned everything, collecting `pick(page)` from each page.
+const requestAllPages = async (endpoint, params, pick) => {
+    const items = [];
+    let pageToken = null;
+    do {
+        const page = await request(endpoint, { ...params, page_token: pageToken || undefined });
+        items.push(...pick(page));
+        pageToken = page.next_page_token;
+    } while (pageToken);
+    return items;
+};
+
+const BAR_ENDPOINTS = {
+    stock: { endpoint: '/v2/stocks/bars', params: { adjustment: 'split', feed: FEED } },
+    crypto: { endpoint: '/v1beta3/crypto/us/bars', params: {} },
+};
+
+// How many of today's shares one share on `date` became.
+const getSplitFactor = (splits, date) => splits.filter(s => s.date > date).reduce((factor, s) => factor * s.value, 1);
+
+export const alpacaProvider = {
+    name: 'alpaca',
+
+    isAvailable: () => Boolean(process.env.APCA_API_KEY_ID && process.env.APCA_API_SECRET_KEY),
+
+    // Alpaca stamps bars without milliseconds (2024-01-02T05:00:00Z).
+    getBars: async (symbol, assetClass, { timeframe, start, end }) => {
+        let bars;
+        if (assetClass === 'forex') {
+            const pair = symbol.replace('/', '');
+            const data = await request('/v1beta1/forex/rates/bars', { symbol_pairs: pair, timeframe, start, end: `${end}T23:59:59Z` });
+            bars = data.bars?.[pair] || [];
+        } else {
+            const { endpoint, params } = BAR_ENDPOINTS[assetClass] || BAR_ENDPOINTS.stock;
+            bars = await requestAllPages(endpoint, { ...params, symbols: symbol, timeframe, start, end: `${end}T23:59:59Z`, limit: 10000 },
+                page => page.bars?.[symbol] || []);
+        }
+        return bars.map(bar => ({ ...bar, t: toCanonicalTime(bar.t) }));
+    },
+
+    // Alpaca reports each dividend as paid on the day, so later splits are divided out to match split-adjusted bars.
+    getCorporateActions: async (symbols, assetClass, start) => {
+        const pages = await requestAllPages('/v1/corporate-actions', {
+            symbols: symbols.join(','),
+            types: 'cash_dividend,forward_split,reverse_split',
+            start,
+            end: new Date().toISOString().split('T')[0],
+            limit: 1000,
+        }, page => [page.corporate_actions || {}]);
+        const actions = Object.fromEntries(symbols.map(symbol => [symbol, []]));
+        const splits = pages.flatMap(page => [...(page.forward_splits || []), ...(page.reverse_splits || [])]);
+        splits.forEach(split => {
+            actions[split.symbol]?.push({ date: split.ex_date, type: 'split', value: split.new_rate / split.old_rate });
+        });
+        pages.flatMap(page => page.cash_dividends || []).forEach(dividend => {
+            const symbolActions = actions[dividend.symbol];
+            if (!symbolActions) return;
+            const symbolSplits = symbolActions.filter(a => a.type === 'split');
+            symbolActions.push({ date: dividend.ex_date, type: 'dividend', value: dividend.rate / getSplitFactor(symbolSplits, dividend.ex_date) });
+        });
+        return actions;
+    },
+
+    getSnapshots: async (symbols) => {
+        const data = await request('/v2/stocks/snapshots', { symbols: symbols.join(','), feed: FEED });
+        const snapshots = {};
+        for (const [symbol, snapshot] of Object.entries(data)) {
+            const price = snapshot.latestTrade?.p ?? snapshot.latestQuote?.ap ?? snapshot.dailyBar?.c ?? 0;
+            const prevClose = snapshot.prevDailyBar?.c ?? 0;
+            snapshots[symbol] = {
+                symbol,
+                latestQuote: { p: price },
+                dailyBar: { v: snapshot.dailyBar?.v ?? 0 },
+                prevDailyBar: { c: prevClose },
+                change: price - prevClose,
+                changePercent: prevClose > 0 ? ((price - prevClose) / prevClose) * 100 : 0,
+            };
+        }
+        return snapshots;
+    },
+
+    getNews: async (limit) => {
+        const data = await request('/v1beta1/news', { limit, include_content: false, exclude_contentless: true });
+        return data.news || [];
+    },
+};
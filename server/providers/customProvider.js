@@ -0,0 +1,33 @@
+import { getDatasets, readDatasetBars } from '../customData.js';
+import { toCanonicalTime } from '../barCache.js';
+import { snapshotFromBars } from './fixtureProvider.js';
+
+// Serves datasets users imported through /api/custom-data. Their prices are taken as given, so there are
+// no corporate actions to apply on top.
+export const customProvider = {
+    name: 'custom',
+
+    isAvailable: () => true,
+
+    getBars: async (symbol, assetClass, { timeframe, start, end }) => {
+        const bars = await readDatasetBars(symbol, timeframe);
+        if (!bars) {
+            const imported = getDatasets(symbol).map(d => d.timeframe);
+            throw new Error(`No ${timeframe} data was imported for ${symbol}${imported.length > 0 ? ` (it has ${imported.join(', ')})` : ''}.`);
+        }
+        return bars
+            .filter(bar => bar.t.split('T')[0] >= start && bar.t.split('T')[0] <= end)
+            .map(bar => ({ ...bar, t: toCanonicalTime(bar.t) }));
+    },
+
+    getCorporateActions: async (symbols) => Object.fromEntries(symbols.map(symbol => [symbol, []])),
+
+    getSnapshots: async (symbols) => {
+        const snapshots = {};
+        for (const symbol of symbols) {
+            const bars = await readDatasetBars(symbol, '1Day');
+            if (bars && bars.length > 0) snapshots[symbol] = snapshotFromBars(symbol, bars);
+        }
+        return snapshots;
+    },
+};
@@ -0,0 +1,104 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { toCanonicalTime } from '../barCache.js';
+
+// Serves market data from local files, so the app can be developed and demoed without internet:
+//   bars/<timeframe>/<symbol>.json         AlpacaBar[], or .csv with a t,o,h,l,c,v header
+//   corporate-actions/<symbol>.json        CorporateAction[], dividends split-adjusted like the bars
+//   snapshots.json                         { [symbol]: AlpacaSnapshot }; otherwise built from the last two daily bars
+//   news.json                              AlpacaNewsArticle[]
+// Symbols are URI-encoded in file names, so BTC/USD is BTC%2FUSD.json.
+export const FIXTURE_DIR = process.env.MARKET_DATA_FIXTURE_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'fixtures');
+
+const readJson = async (file) => {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw new Error(`Could not read fixture ${file}: ${error.message}`);
+    }
+};
+
+const CSV_COLUMNS = { t: ['t', 'timestamp', 'date', 'time'], o: ['o', 'open'], h: ['h', 'high'], l: ['l', 'low'], c: ['c', 'close'], v: ['v', 'volume'] };
+
+const parseCsvBars = (text) => {
+    const [headerLine, ...lines] = text.trim().split(/\r?\n/);
+    const header = headerLine.split(',').map(h => h.trim().toLowerCase());
+    const index = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([field, names]) => [field, header.findIndex(h => names.includes(h))]));
+    if (Object.values(index).some(i => i < 0)) throw new Error('Fixture CSVs need time, open, high, low, close and volume columns.');
+    return lines.filter(line => line.trim()).map(line => {
+        const cells = line.split(',').map(cell => cell.trim());
+        return {
+            t: toCanonicalTime(cells[index.t]),
+            o: Number(cells[index.o]),
+            h: Number(cells[index.h]),
+            l: Number(cells[index.l]),
+            c: Number(cells[index.c]),
+            v: Number(cells[index.v]),
+        };
+    });
+};
+
+// Every fixture bar for the symbol, in time order, or null if there is no file for it.
+const readBars = async (symbol, timeframe) => {
+    const base = path.join(FIXTURE_DIR, 'bars', timeframe, encodeURIComponent(symbol));
+    const json = await readJson(`${base}.json`);
+    if (json) return json.map(bar => ({ ...bar, t: toCanonicalTime(bar.t) })).sort((a, b) => a.t.localeCompare(b.t));
+    try {
+        return parseCsvBars(await fs.readFile(`${base}.csv`, 'utf8')).sort((a, b) => a.t.localeCompare(b.t));
+    } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+};
+
+// A snapshot for providers that only have daily bars: the last close against the one before it.
+export const snapshotFromBars = (symbol, bars) => {
+    const last = bars[bars.length - 1];
+    const prevClose = bars.length > 1 ? bars[bars.length - 2].c : last.o;
+    return {
+        symbol,
+        latestQuote: { p: last.c },
+        dailyBar: { v: last.v },
+        prevDailyBar: { c: prevClose },
+        change: last.c - prevClose,
+        changePercent: prevClose > 0 ? ((last.c - prevClose) / prevClose) * 100 : 0,
+    };
+};
+
+export const fixtureProvider = {
+    name: 'fixture',
+
+    isAvailable: () => true,
+
+    getBars: async (symbol, assetClass, { timeframe, start, end }) => {
+        const bars = await readBars(symbol, timeframe);
+        if (!bars) throw new Error(`No ${timeframe} fixture bars for ${symbol}.`);
+        return bars.filter(bar => bar.t.split('T')[0] >= start && bar.t.split('T')[0] <= end);
+    },
+
+    getCorporateActions: async (symbols) => {
+        const actions = {};
+        for (const symbol of symbols) {
+            actions[symbol] = (await readJson(path.join(FIXTURE_DIR, 'corporate-actions', `${encodeURIComponent(symbol)}.json`))) || [];
+        }
+        return actions;
+    },
+
+    getSnapshots: async (symbols) => {
+        const stored = (await readJson(path.join(FIXTURE_DIR, 'snapshots.json'))) || {};
+        const snapshots = {};
+        for (const symbol of symbols) {
+            if (stored[symbol]) {
+                snapshots[symbol] = { ...stored[symbol], symbol };
+                continue;
+            }
+            const bars = await readBars(symbol, '1Day');
+            if (bars && bars.length > 0) snapshots[symbol] = snapshotFromBars(symbol, bars);
+        }
+        return snapshots;
+    },
+
+    getNews: async (limit) => ((await readJson(path.join(FIXTURE_DIR, 'news.json'))) || []).slice(0, limit),
+};
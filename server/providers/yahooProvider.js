@@ -0,0 +1,104 @@
+import yahoo from 'yahoo-finance2';
+import { addDays, toCanonicalTime } from '../barCache.js';
+
+// The app names pairs the way Alpaca does (BTC/USD, EUR/USD); Yahoo lists crypto as BTC-USD and forex as EURUSD=X.
+const toYahooSymbol = (symbol, assetClass) => {
+    if (!symbol.includes('/')) return symbol;
+    return assetClass === 'forex' ? `${symbol.replace('/', '')}=X` : symbol.replace('/', '-');
+};
+
+// Map Alpaca timeframe to yahoo-finance2 interval
+const INTERVALS = {
+    '5Min': '5m',
+    '15Min': '15m',
+    '1Hour': '60m',
+    '1Day': '1d'
+};
+
+const toDate = (date) => date.toISOString().split('T')[0];
+
+export const yahooProvider = {
+    name: 'yahoo',
+
+    isAvailable: () => true,
+
+    // Yahoo's OHLC are split-adjusted; the client applies dividends and any other basis itself.
+    getBars: async (symbol, assetClass, { timeframe, start, end }) => {
+        const result = await yahoo.historical(toYahooSymbol(symbol, assetClass), {
+            period1: start,
+            period2: addDays(end, 1),
+            interval: INTERVALS[timeframe] || '1d',
+        });
+        return result.map(bar => ({
+            t: toCanonicalTime(bar.date),
+            o: bar.open,
+            h: bar.high,
+            l: bar.low,
+            c: bar.close,
+            v: bar.volume
+        }));
+    },
+
+    // Yahoo already states dividends in split-adjusted terms, matching its split-adjusted closes.
+    getCorporateActions: async (symbols, assetClass, start) => {
+        const queryOptions = { period1: start, period2: new Date() };
+        const actions = {};
+        for (const symbol of symbols) {
+            try {
+                const [dividends, splits] = await Promise.all([
+                    yahoo.historical(toYahooSymbol(symbol, assetClass), { ...queryOptions, events: 'dividends' }),
+                    yahoo.historical(toYahooSymbol(symbol, assetClass), { ...queryOptions, events: 'split' }),
+                ]);
+                actions[symbol] = [
+                    ...splits.map(split => {
+                        const [newShares, oldShares] = String(split.stockSplits).split(/[:/]/).map(Number);
+                        return { date: toDate(split.date), type: 'split', value: newShares / oldShares };
+                    }).filter(split => isFinite(split.value) && split.value > 0),
+                    ...dividends.map(dividend => ({ date: toDate(dividend.date), type: 'dividend', value: dividend.dividends })),
+                ];
+            } catch (error) {
+                // Indices, currencies and unknown symbols have no corporate actions
+                actions[symbol] = [];
+            }
+        }
+        return actions;
+    },
+
+    getSnapshots: async (symbols, assetClass) => {
+        const quotes = await yahoo.quote(symbols.map(symbol => toYahooSymbol(symbol, assetClass)), { return: 'array' });
+        const snapshots = {};
+        symbols.forEach(symbol => {
+            const quote = quotes.find(q => q.symbol === toYahooSymbol(symbol, assetClass));
+            if (!quote) return;
+            snapshots[symbol] = {
+                symbol,
+                latestQuote: { p: quote.regularMarketPrice ?? 0 },
+                dailyBar: { v: quote.regularMarketVolume ?? 0 },
+                prevDailyBar: { c: quote.regularMarketPreviousClose ?? 0 },
+                change: quote.regularMarketChange ?? 0,
+                changePercent: quote.regularMarketChangePercent ?? 0,
+            };
+        });
+        return snapshots;
+    },
+
+    // Yahoo's market headlines, in Alpaca's article shape.
+    getNews: async (limit) => {
+        const result = await yahoo.search('stock market', { newsCount: limit, quotesCount: 0 });
+        return (result.news || []).map((item, i) => {
+            const published = new Date(item.providerPublishTime).toISOString();
+            return {
+                id: i + 1,
+                headline: item.title,
+                summary: '',
+                author: item.publisher,
+                created_at: published,
+                updated_at: published,
+                source: item.publisher,
+                url: item.link,
+                content: '',
+                symbols: item.relatedTickers || [],
+            };
+        });
+    },
+};
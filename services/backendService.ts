@@ -58,7 +58,7 @@ async function alpacaApiRequest<T>(config: RequestConfig, method: 'GET' | 'POST'
 // A generic function to handle all requests to our internal API (served by Node.js).
 async function internalApiRequest<T>(
     endpoint: string, // e.g., /api/gemini/enrich-news
-    method: 'GET' | 'POST',
+    method: 'GET' | 'POST' | 'DELETE',
     body?: object
 ): Promise<BackendResponse<T>> {
     // The endpoint is a relative URL. The browser will resolve it against the current host.
@@ -99,4 +99,5 @@ export const post = <T>(config: RequestConfig): Promise<BackendResponse<T>> => a
 
 // For our own internal Node.js API (AI, ML sims, etc.)
 export const getInternal = <T>(endpoint: string): Promise<BackendResponse<T>> => internalApiRequest<T>(endpoint, 'GET');
-export const postInternal = <T>(endpoint: string, body: object): Promise<BackendResponse<T>> => internalApiRequest<T>(endpoint, 'POST', body);
\ No newline at end of file
+export const postInternal = <T>(endpoint: string, body: object): Promise<BackendResponse<T>> => internalApiRequest<T>(endpoint, 'POST', body);
+export const deleteInternal = <T>(endpoint: string): Promise<BackendResponse<T>> => internalApiRequest<T>(endpoint, 'DELETE');
\ No newline at end of file
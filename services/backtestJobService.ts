@@ -0,0 +1,137 @@
+import { BacktestResults, SweepConfig, SweepResults, WalkForwardConfig, WalkForwardResults } from '../types';
+import { BacktestInput, BacktestProgress, runBacktest } from './backtestService';
+import { runWalkForward } from './walkForwardService';
+import { runParameterSweep } from './sweepService';
+
+export type BacktestJobRequest =
+    | { mode: 'backtest', input: BacktestInput }
+    | { mode: 'walkForward', input: BacktestInput, walkForward: WalkForwardConfig }
+    | { mode: 'sweep', input: BacktestInput, sweep: SweepConfig };
+
+export type BacktestJobResult =
+    | { mode: 'backtest', results: BacktestResults }
+    | { mode: 'walkForward', results: WalkForwardResults }
+    | { mode: 'sweep', results: SweepResults };
+
+export type BacktestJobMode = BacktestJobRequest['mode'];
+
+export interface BacktestJobProgress {
+    fraction: number;
+    message: string;
+}
+
+export type BacktestWorkerMessage =
+    | { type: 'progress', progress: BacktestJobProgress }
+    | { type: 'result', result: BacktestJobResult }
+    | { type: 'error', message: string };
+
+// Jobs leave the queue when they finish; the promise returned by enqueueBacktestJob carries the outcome.
+export interface BacktestJob {
+    id: string;
+    label: string;
+    mode: BacktestJobMode;
+    status: 'queued' | 'running';
+    progress: BacktestJobProgress;
+}
+
+interface QueueEntry {
+    job: BacktestJob;
+    request: BacktestJobRequest;
+    worker: Worker | null;
+    settle: (result: BacktestJobResult | null, error?: Error) => void;
+}
+
+export const describeBacktestProgress = ({ barsProcessed, totalBars, symbolsCompleted, totalSymbols }: BacktestProgress): BacktestJobProgress => ({
+    fraction: totalBars > 0 ? barsProcessed / totalBars : 0,
+    message: `Simulated ${barsProcessed.toLocaleString()} of ${totalBars.toLocaleString()} bars, ${symbolsCompleted} of ${totalSymbols} symbols complete...`,
+});
+
+// Runs a job on the calling thread; the backtest worker calls this with the request it was posted.
+export const executeBacktestJob = async (
+    request: BacktestJobRequest,
+    onProgress: (progress: BacktestJobProgress) => void
+): Promise<BacktestJobResult> => {
+    const reportProgress = (fraction: number, message: string) => onProgress({ fraction, message });
+    switch (request.mode) {
+        case 'backtest':
+            return { mode: 'backtest', results: runBacktest(request.input, progress => onProgress(describeBacktestProgress(progress))) };
+        case 'walkForward':
+            return { mode: 'walkForward', results: await runWalkForward(request.input, request.walkForward, reportProgress) };
+        case 'sweep':
+            return { mode: 'sweep', results: await runParameterSweep(request.input, request.sweep, reportProgress) };
+    }
+};
+
+// One job runs at a time, in its own worker, so the page stays responsive and queued runs don't compete
+// for the CPU. The queue lives in this module rather than a component, so runs carry on across pages.
+const queue: QueueEntry[] = [];
+const listeners = new Set<(jobs: BacktestJob[]) => void>();
+let nextJobId = 1;
+
+const getSnapshot = (): BacktestJob[] => queue.map(entry => ({ ...entry.job }));
+
+const notify = () => {
+    const jobs = getSnapshot();
+    listeners.forEach(listener => listener(jobs));
+};
+
+const finish = (entry: QueueEntry, result: BacktestJobResult | null, error?: Error) => {
+    entry.worker?.terminate();
+    queue.splice(queue.indexOf(entry), 1);
+    entry.settle(result, error);
+    notify();
+    startNextJob();
+};
+
+const startNextJob = () => {
+    const entry = queue[0];
+    if (!entry || entry.worker) return;
+    const worker = new Worker(new URL('../workers/backtest.worker.ts', import.meta.url), { type: 'module' });
+    entry.worker = worker;
+    entry.job.status = 'running';
+    entry.job.progress = { fraction: 0, message: 'Preparing indicators and signals...' };
+    worker.onmessage = (event: MessageEvent<BacktestWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+            entry.job.progress = message.progress;
+            notify();
+        } else if (message.type === 'result') {
+            finish(entry, message.result);
+        } else {
+            finish(entry, null, new Error(message.message));
+        }
+    };
+    worker.onerror = (event) => {
+        finish(entry, null, new Error(event.message || 'The backtest worker failed.'));
+    };
+    worker.postMessage(entry.request);
+    notify();
+};
+
+// Resolves with the job's results, or with null if it is cancelled first.
+export const enqueueBacktestJob = (label: string, request: BacktestJobRequest): Promise<BacktestJobResult | null> =>
+    new Promise((resolve, reject) => {
+        queue.push({
+            job: { id: `job_${nextJobId++}`, label, mode: request.mode, status: 'queued', progress: { fraction: 0, message: 'Waiting for earlier runs to finish...' } },
+            request,
+            worker: null,
+            settle: (result, error) => error ? reject(error) : resolve(result),
+        });
+        notify();
+        startNextJob();
+    });
+
+// Stops a running job's worker mid-simulation, or takes a queued job off the queue.
+export const cancelBacktestJob = (jobId: string) => {
+    const entry = queue.find(e => e.job.id === jobId);
+    if (entry) finish(entry, null);
+};
+
+// Calls `listener` with the current queue straight away and on every change; returns the unsubscribe function.
+export const subscribeToBacktestJobs = (listener: (jobs: BacktestJob[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(getSnapshot());
+    return () => {
+        listeners.delete(listener);
+    };
+};
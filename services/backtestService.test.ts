@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { AlpacaBar, AssetClass, BacktestConfig, CostModels, Indicator, RiskLimits, SavedStrategy, StrategyObjective } from '../types';
+import { DEFAULT_CAPITAL_ALLOCATION, DEFAULT_EXIT_RULES, DEFAULT_POSITION_SIZING } from '../constants';
+import { BacktestInput, runBacktest } from './backtestService';
+import { getSessionDays } from './tradingCalendarService';
+
+const DATES = getSessionDays('NYSE', '2024-03-04', '2024-06-28');
+
+const bar = (k: number, o: number, h: number, l: number, c: number, extra: Partial<AlpacaBar> = {}): AlpacaBar =>
+    ({ t: `${DATES[k]}T00:00:00Z`, o, h, l, c, v: 1000000, ...extra });
+
+// Bars that open at their close and trade 1% either side of it.
+const closeBars = (closes: number[]) => closes.map((c, k) => bar(k, c, c * 1.01, c * 0.99, c));
+
+const ZERO_COSTS = Object.fromEntries(Object.values(AssetClass).map(assetClass => [assetClass, {
+    commission: { type: 'flat', amount: 0, minimum: 0, tiers: [] }, slippageType: 'spread', slippage: 0, impactCoefficient: 0,
+}])) as CostModels;
+
+const NO_LIMITS: RiskLimits = { maxTradesPerDay: 0, maxOpenPositions: 0, maxSymbolExposure: 0, maxAssetClassExposure: 0, dailyLossLimit: 0 };
+
+// A 2-bar SMA votes with the sign of each close's change, so a higher close signals a long entry and a lower
+// one closes it.
+const strategy: SavedStrategy = {
+    id: 'up', name: 'Up Closes', models: [], assetUniverses: [], customSymbols: ['AAA'], trainingPeriodYears: 1,
+    leverage: { min: 1, max: 1 }, stopLossPercentage: 10, trainingStatus: 'Trained', optimizations: [], sharpeRatio: 0,
+    validationAccuracy: 0, fitStatus: 'Good Fit', indicators: [Indicator.SMA50], strategyObjective: StrategyObjective.TrendFollowing,
+    indicatorParams: { smaFastPeriod: 2 }, allowShorts: false, exitRules: DEFAULT_EXIT_RULES,
+    positionSizing: { ...DEFAULT_POSITION_SIZING, equityPercent: 50, maxEquityPercent: 100 },
+};
+
+const config: BacktestConfig = {
+    startDate: DATES[0], endDate: DATES[DATES.length - 1], initialCapital: 100000, costModels: ZERO_COSTS, riskLimits: NO_LIMITS,
+    timeframe: '1Day', useTrendBias: false, borrowFeeRate: 0, financingRate: 0, maxHoldingBars: 0, benchmarkSymbol: 'AAA',
+    allocation: DEFAULT_CAPITAL_ALLOCATION, priceAdjustment: 'split',
+};
+
+const run = (data: BacktestInput['data'], overrides: Partial<SavedStrategy> = {}, configOverrides: Partial<BacktestConfig> = {}) =>
+    runBacktest({ strategies: [{ ...strategy, ...overrides }], data, config: { ...config, ...configOverrides }, stopLossFeedback: '' });
+
+describe('runBacktest', () => {
+    it('gives identical results for identical inputs', () => {
+        let seed = 7;
+        const closes = Array.from({ length: 80 }, () => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed / 2147483648;
+        }).reduce<number[]>((series, r) => [...series, series[series.length - 1] * (1 + (r - 0.5) * 0.04)], [100]);
+        const data = { AAA: closeBars(closes), BBB: closeBars(closes.map(c => 200 - c)) };
+        const overrides = { customSymbols: ['AAA', 'BBB'], allowShorts: true, indicators: [Indicator.SMA50, Indicator.RSI, Indicator.MACD] };
+        const first = run(data, overrides);
+        expect(first.allTrades.length).toBeGreaterThan(0);
+        expect(JSON.stringify(run(data, overrides))).toBe(JSON.stringify(first));
+    });
+
+    it('fills a signal at the next bar\'s open', () => {
+        // Bar 3 closes higher and bar 7 lower.
+        const bars = closeBars([10, 10, 10, 11, 11, 11, 11, 10, 10, 10]);
+        bars[4] = bar(4, 10.8, 11.2, 10.7, 11);
+        bars[8] = bar(8, 9.9, 10.1, 9.8, 10);
+        const [trade, ...rest] = run({ AAA: bars }).allTrades;
+        expect(rest).toEqual([]);
+        expect(trade).toMatchObject({ entryDate: DATES[4], entryPrice: 10.8, exitDate: DATES[8], exitPrice: 9.9, exitReason: 'SIGNAL' });
+        expect(trade.positionSize).toBeCloseTo(50000 / 10.8, 9);
+        expect(trade.pnl).toBeCloseTo((9.9 - 10.8) * 50000 / 10.8, 6);
+    });
+
+    it('exits at the stop or the target price when the bar trades through it', () => {
+        const bars = closeBars([10, 10, 11, 11, 11, 11, 11]);
+        // Entered at 11 with a 10% stop at 9.9.
+        bars[4] = bar(4, 11, 11.1, 9.5, 10.5);
+        expect(run({ AAA: bars }).allTrades[0]).toMatchObject({ entryDate: DATES[3], exitDate: DATES[4], exitPrice: 9.9, exitReason: 'SL' });
+        // A unanimous signal targets 5R: with a 2% stop that is 11 × 1.1 = 12.1.
+        bars[4] = bar(4, 11, 12.5, 10.9, 12);
+        const [trade] = run({ AAA: bars }, { stopLossPercentage: 2 }).allTrades;
+        expect(trade).toMatchObject({ exitDate: DATES[4], exitReason: 'TP' });
+        expect(trade.exitPrice).toBeCloseTo(12.1, 9);
+    });
+
+    it('rejects entries beyond the daily trade limit', () => {
+        const bars = closeBars([10, 10, 11, 11, 11, 11, 11]);
+        const results = run({ AAA: bars, BBB: bars }, { customSymbols: ['AAA', 'BBB'] }, { riskLimits: { ...NO_LIMITS, maxTradesPerDay: 1 } });
+        expect(results.allTrades).toHaveLength(1);
+        expect(results.rejectedSignals.maxTradesPerDay).toBe(1);
+    });
+
+    it('liquidates once equity falls below the maintenance margin', () => {
+        // All of the equity at 5× leverage buys 50,000 units at 10. US stocks keep 10% of their value as maintenance
+        // margin, so the account is short once 100,000 + 50,000 (P − 10) < 5,000 P, i.e. below 8.89.
+        const bars = closeBars([9.9, 9.9, 10, 10, 8.5, 8.5, 8.5, 8.5]);
+        bars[4] = bar(4, 10, 10, 8.5, 8.5);
+        const results = run({ AAA: bars }, {
+            leverage: { min: 5, max: 5 }, stopLossPercentage: 50, positionSizing: { ...DEFAULT_POSITION_SIZING, equityPercent: 100, maxEquityPercent: 100 },
+        });
+        expect(results.allTrades).toHaveLength(1);
+        expect(results.allTrades[0]).toMatchObject({ entryDate: DATES[3], exitDate: DATES[4], exitPrice: 8.5, exitReason: 'LIQUIDATION', leverage: 5 });
+        expect(results.marginEvents).toEqual([{ date: DATES[4], equity: 25000, maintenanceRequirement: 42500, liquidatedSymbols: ['AAA'] }]);
+    });
+
+    it('converts a position held over a split on raw prices, as if the prices were split-adjusted', () => {
+        const adjusted = closeBars([50, 50, 51, 51, 51, 52]);
+        // The same bars before the 2-for-1 split going ex on the last one.
+        const raw = adjusted.map((b, k) => k < 5 ? { ...b, o: b.o * 2, h: b.h * 2, l: b.l * 2, c: b.c * 2, v: b.v / 2 } : { ...b, split: 2 });
+        const [rawTrade] = run({ AAA: raw }, {}, { priceAdjustment: 'raw' }).allTrades;
+        const [adjustedTrade] = run({ AAA: adjusted }).allTrades;
+        expect(rawTrade).toMatchObject({ exitReason: 'EOD', exitPrice: 52, stopLossPrice: adjustedTrade.stopLossPrice });
+        expect(rawTrade.positionSize).toBeCloseTo(adjustedTrade.positionSize, 9);
+        expect(rawTrade.pnl).toBeCloseTo(adjustedTrade.pnl, 6);
+        expect(rawTrade.pnl).toBeCloseTo(50000 / 51, 6);
+    });
+
+    it('closes a symbol whose data ends early on its own last bar', () => {
+        const results = run(
+            { AAA: closeBars([10, 10, 10, 10, 10, 10, 10, 10, 10, 10]), BBB: closeBars([10, 10, 11, 11, 11, 12]) },
+            { customSymbols: ['AAA', 'BBB'] }
+        );
+        expect(results.allTrades).toHaveLength(1);
+        expect(results.allTrades[0]).toMatchObject({ symbol: 'BBB', exitDate: DATES[5], exitPrice: 12, exitReason: 'EOD' });
+        expect(results.performanceData).toHaveLength(10);
+    });
+});
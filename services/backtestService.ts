@@ -0,0 +1,913 @@
+import {
+    Allocation, AlpacaBar, AssetClass, AssetClassExposure, BacktestConfig, BacktestResults, MarginEvent, PerformanceDataPoint, RejectedSignalCounts, SavedStrategy,
+    StrategyAttribution, Timeframe, Trade, TradeSide, TradingCalendar
+} from '../types';
+import { ASSET_UNIVERSE_TICKER_MAP, SYMBOL_TO_ASSET_CLASS_MAP, ASSET_LEVERAGE_MAP, ASSET_MAINTENANCE_MARGIN_MAP, ASSET_COLORS } from '../constants';
+import { calculateATR, calculateSMA, IndicatorSeries, resolveIndicatorParams } from './indicatorService';
+import { calculateBenchmarkStats, calculateRollingBenchmarkStats, ROLLING_BENCHMARK_WINDOWS } from './benchmarkService';
+import { getDrawdownPeriods, getMonthlyReturns } from './tearSheetService';
+import { calculateCommission, getMarketImpactRate, getSlippageRate } from './costModelService';
+import { createRiskLimiter, RiskExposure, RiskLimiter } from './riskLimitService';
+import { createExitState, ExitState, findExitFills, getHoldingLimit, updateStops } from './exitRuleService';
+import { calculatePositionMargin } from './positionSizingService';
+import { calculateCorrelationMatrix, getRebalancePeriod, getTargetWeights, planRebalance } from './capitalAllocationService';
+import { generateSignal, getSignalWarmupBars, prepareSignalContext, SIGNAL_ENTRY_THRESHOLD, StrategySignalContext } from './signalService';
+import { getCalendarBarsPerYear, getLookbackStartDate, getSessionDate, getSymbolCalendar } from './tradingCalendarService';
+
+const TREND_BIAS_PERIOD = 5;
+export const MIN_BARS_PER_SYMBOL = 6;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MIN_RR = 2.5;
+const MAX_RR = 5.0;
+const PNL_BUCKET_SIZES = [0.1, 0.25, 0.5, 1, 2, 2.5, 5, 10, 25, 50, 100]; // % per histogram bucket
+const MAX_PNL_BUCKETS = 20;
+const PROGRESS_REPORTS = 100;
+
+export const BAR_MINUTES: { [key in Timeframe]: number } = {
+    '5Min': 5,
+    '15Min': 15,
+    '1Hour': 60,
+    '1Day': 24 * 60,
+};
+
+export const getStrategySymbols = (strategy: SavedStrategy): string[] =>
+    [...new Set([...strategy.assetUniverses.flatMap(u => ASSET_UNIVERSE_TICKER_MAP[u] || []), ...strategy.customSymbols])];
+
+// Bars in a year of the timeline, the union of every traded market's sessions.
+export const getBarsPerYear = (strategies: SavedStrategy[], data: BacktestInput['data'], config: BacktestConfig): number => {
+    const calendars = strategies.flatMap(getStrategySymbols)
+        .filter(symbol => data[symbol] && data[symbol].length >= MIN_BARS_PER_SYMBOL)
+        .map(getSymbolCalendar);
+    return getCalendarBarsPerYear(
+        calendars.length > 0 ? calendars : ['NYSE'], BAR_MINUTES[config.timeframe], config.startDate.slice(0, 10), config.endDate.slice(0, 10)
+    );
+};
+
+// The calendar most of the symbols trade on, whose sessions are the account's day for the daily risk limits.
+const getAccountCalendar = (symbols: string[]): TradingCalendar => {
+    const counts = new Map<TradingCalendar, number>();
+    symbols.map(getSymbolCalendar).forEach(calendar => counts.set(calendar, (counts.get(calendar) || 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'NYSE';
+};
+
+const getPeriodReturns = (performanceData: PerformanceDataPoint[]): number[] =>
+    performanceData.slice(1).map((point, i) => {
+        const prevValue = performanceData[i].strategy;
+        return prevValue > 0 ? (point.strategy - prevValue) / prevValue : 0;
+    });
+
+export const calculateAnnualizedReturn = (performanceData: PerformanceDataPoint[], barsPerYear = 252): number => {
+    if (performanceData.length < 2 || performanceData[0].strategy <= 0) return 0;
+    const growth = performanceData[performanceData.length - 1].strategy / performanceData[0].strategy;
+    return Math.pow(Math.max(growth, 0), barsPerYear / (performanceData.length - 1)) - 1;
+};
+
+export const calculateSharpeRatio = (performanceData: PerformanceDataPoint[], riskFreeRate = 0.02, barsPerYear = 252): number => {
+    const returns = getPeriodReturns(performanceData);
+    if (returns.length < 2) return 0;
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const std = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1));
+    const sharpe = std > 0 ? ((mean - riskFreeRate / barsPerYear) / std) * Math.sqrt(barsPerYear) : 0;
+    return isFinite(sharpe) ? sharpe : 0;
+};
+
+export const calculateAdvancedRatios = (performanceData: PerformanceDataPoint[], riskFreeRate = 0.02, barsPerYear = 252): { sortino: number, calmar: number } => {
+    if (performanceData.length < 2) return { sortino: 0, calmar: 0 };
+
+    const dailyReturns = getPeriodReturns(performanceData);
+    const annualizedReturn = calculateAnnualizedReturn(performanceData, barsPerYear);
+
+    // Sortino Ratio
+    const downsideReturns = dailyReturns.filter(r => r < 0);
+    const downsideDeviation = Math.sqrt(downsideReturns.reduce((acc, r) => acc + Math.pow(r, 2), 0) / (downsideReturns.length || 1)) * Math.sqrt(barsPerYear);
+    const sortino = downsideDeviation > 0 ? (annualizedReturn - riskFreeRate) / downsideDeviation : 0;
+
+    // Calmar Ratio
+    const maxDrawdown = Math.max(...(performanceData.map(d => d.drawdown || 0)));
+    const calmar = maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0;
+
+    return {
+        sortino: isFinite(sortino) ? sortino : 0,
+        calmar: isFinite(calmar) ? calmar : 0,
+    };
+};
+
+export const calculateDynamicLeverage = (rr: number, maxLeverage: number): number => {
+    const clampedRR = Math.min(rr, MAX_RR);
+    const rrRange = MAX_RR - MIN_RR;
+    const leverageRange = maxLeverage - 2;
+    if (rrRange <= 0 || leverageRange <= 0) return 2;
+    const leverage = 2 + ((clampedRR - MIN_RR) / rrRange) * leverageRange;
+    return Math.round(Math.min(leverage, maxLeverage));
+};
+
+// Null when the asset class caps leverage below the strategy's minimum.
+const getStrategyLeverage = (strategy: SavedStrategy, rr: number, assetClass: AssetClass): number | null => {
+    const maxLeverage = Math.min(strategy.leverage.max, ASSET_LEVERAGE_MAP[assetClass]);
+    if (maxLeverage < strategy.leverage.min) return null;
+    return Math.min(maxLeverage, Math.max(strategy.leverage.min, calculateDynamicLeverage(rr, maxLeverage)));
+};
+
+// The entry threshold maps to MIN_RR and a unanimous vote to MAX_RR.
+const getTargetRR = (score: number): number => {
+    const conviction = Math.min(1, Math.max(0, (score - SIGNAL_ENTRY_THRESHOLD) / (1 - SIGNAL_ENTRY_THRESHOLD)));
+    return MIN_RR + conviction * (MAX_RR - MIN_RR);
+};
+
+// Daily bars are keyed on their exchange's session date, since providers stamp them at different times of day.
+const getBarKey = (bar: AlpacaBar, timeframe: Timeframe, calendar: TradingCalendar) =>
+    timeframe === '1Day' ? getSessionDate(calendar, bar.t) : new Date(bar.t).toISOString();
+
+const formatHoldingTime = (barsHeld: number, timeframe: Timeframe): string => {
+    if (timeframe === '1Day') return `${barsHeld}d`;
+    const minutes = barsHeld * BAR_MINUTES[timeframe];
+    return minutes < 60 ? `${minutes}m` : `${+(minutes / 60).toFixed(1)}h`;
+};
+
+interface OpenPosition extends ExitState {
+    id: string;
+    symbol: string;
+    assetClass: AssetClass;
+    entryIndex: number;
+    entryKey: string;
+    margin: number;
+    initialStopPrice: number; // Reported on its trades; the live stop may have moved since
+    partialExits: number;
+    rr: number;
+    leverage: number;
+    commission: number; // Entry commission
+    entrySlippage: number; // $ per unit
+    entryImpact: number; // $ per unit
+    borrowCost: number;
+    financingCost: number;
+    dividends: number; // Received on a long, paid (negative) on a short
+    lastPrice: number;
+    lastTime: number;
+}
+
+interface SymbolState {
+    symbol: string;
+    bars: AlpacaBar[];
+    indexByKey: Map<string, number>;
+    context: StrategySignalContext;
+    trendSma: IndicatorSeries;
+    atr: IndicatorSeries | null;
+    assetClass: AssetClass;
+    position: OpenPosition | null;
+    pendingEntry: { score: number, side: TradeSide } | null;
+    pendingExit: boolean;
+    strategyTrades: Trade[]; // Shared by all of the strategy's symbols
+    sleeve: PortfolioState; // Shared by all of the strategy's symbols
+}
+
+interface StrategyState {
+    strategy: SavedStrategy;
+    symbols: SymbolState[];
+    sleeve: PortfolioState;
+    trades: Trade[];
+}
+
+interface PortfolioState {
+    cash: number;
+    positions: OpenPosition[];
+}
+
+interface SleeveHistory {
+    startingCapital: number;
+    equity: number[];
+    transfers: number[];
+    returns: number[]; // Time-weighted, net of transfers
+}
+
+export interface BacktestProgress {
+    barsProcessed: number;
+    totalBars: number;
+    symbolsCompleted: number;
+    totalSymbols: number;
+}
+
+export interface BacktestInput {
+    strategies: SavedStrategy[];
+    data: { [symbol: string]: AlpacaBar[] };
+    config: BacktestConfig;
+    stopLossFeedback: string;
+}
+
+// startDate/endDate may be plain dates or exact bar timestamps; a plain end date includes that whole day.
+const isWithinRange = (key: string, { startDate, endDate }: BacktestConfig) =>
+    key >= startDate && (key <= endDate || key.startsWith(endDate));
+
+export const getBacktestTimeline = (strategies: SavedStrategy[], data: BacktestInput['data'], config: BacktestConfig): string[] => {
+    const keys = strategies.flatMap(strategy => getStrategySymbols(strategy)
+        .filter(symbol => data[symbol] && data[symbol].length >= MIN_BARS_PER_SYMBOL)
+        .flatMap(symbol => data[symbol].map(bar => getBarKey(bar, config.timeframe, getSymbolCalendar(symbol)))));
+    return [...new Set(keys)].filter(key => isWithinRange(key, config)).sort();
+};
+
+const needsAtr = (strategy: SavedStrategy) => strategy.exitRules.trailingStopAtr > 0 || strategy.positionSizing.method === 'volatilityTarget';
+
+// Bars of history the signals, trend bias and ATR need before the start date.
+export const getBacktestWarmupBars = (strategies: SavedStrategy[]): number =>
+    Math.max(TREND_BIAS_PERIOD, ...strategies.map(strategy => Math.max(
+        getSignalWarmupBars(strategy),
+        needsAtr(strategy) ? resolveIndicatorParams(strategy.indicatorParams).atrPeriod : 0
+    )));
+
+// The date to fetch from so every symbol has `warmupBars` bars before `startDate` on its own calendar.
+export const getWarmupStartDate = (symbols: string[], startDate: string, warmupBars: number, timeframe: Timeframe): string =>
+    [...new Set(symbols.map(getSymbolCalendar))]
+        .map(calendar => getLookbackStartDate(calendar, startDate, warmupBars, BAR_MINUTES[timeframe]))
+        .reduce((earliest, date) => date < earliest ? date : earliest, startDate.slice(0, 10));
+
+const prepareStrategyState = (strategy: SavedStrategy, data: BacktestInput['data'], timeframe: Timeframe): StrategyState => {
+    const atrNeeded = needsAtr(strategy);
+    const strategyTrades: Trade[] = [];
+    const sleeve: PortfolioState = { cash: 0, positions: [] };
+    const symbols = getStrategySymbols(strategy)
+        .filter(symbol => data[symbol] && data[symbol].length >= MIN_BARS_PER_SYMBOL)
+        .map(symbol => {
+            const bars = data[symbol];
+            const calendar = getSymbolCalendar(symbol);
+            return {
+                symbol,
+                bars,
+                indexByKey: new Map(bars.map((bar, i) => [getBarKey(bar, timeframe, calendar), i])),
+                context: prepareSignalContext(strategy, bars),
+                trendSma: calculateSMA(bars.map(b => b.c), TREND_BIAS_PERIOD),
+                atr: atrNeeded ? calculateATR(bars, resolveIndicatorParams(strategy.indicatorParams).atrPeriod) : null,
+                assetClass: SYMBOL_TO_ASSET_CLASS_MAP.get(symbol) || AssetClass.USStocks,
+                position: null,
+                pendingEntry: null,
+                pendingExit: false,
+                strategyTrades,
+                sleeve,
+            };
+        });
+    return { strategy, symbols, sleeve, trades: strategyTrades };
+};
+
+const getDirection = (side: TradeSide) => side === 'SHORT' ? -1 : 1;
+
+const getUnrealizedPnl = (position: OpenPosition) =>
+    getDirection(position.side) * (position.lastPrice - position.entryPrice) * position.quantity;
+
+const getEquity = (portfolio: PortfolioState) =>
+    portfolio.positions.reduce((sum, p) => sum + p.margin + getUnrealizedPnl(p), portfolio.cash);
+
+const combineSleeves = (sleeves: PortfolioState[]): PortfolioState =>
+    ({ cash: sleeves.reduce((sum, s) => sum + s.cash, 0), positions: sleeves.flatMap(s => s.positions) });
+
+const getRiskExposure = (position: OpenPosition): RiskExposure =>
+    ({ symbol: position.symbol, assetClass: position.assetClass, value: position.quantity * position.lastPrice });
+
+const getInitialMarginRate = (assetClass: AssetClass) => 1 / ASSET_LEVERAGE_MAP[assetClass];
+
+const getMaintenanceRequirement = (position: OpenPosition) =>
+    position.quantity * position.lastPrice * (ASSET_MAINTENANCE_MARGIN_MAP[position.assetClass] / 100);
+
+const sumMargin = (positions: OpenPosition[], requirement: (p: OpenPosition) => number) =>
+    positions.reduce((sum, p) => sum + requirement(p), 0);
+
+// Sizes the margin from the sleeve's equity, capped by its free cash and initial margin. Entries that break the
+// leverage range, the sizing policy or a risk limit on the whole `account` are counted and skipped.
+const openPosition = (
+    account: PortfolioState,
+    strategy: SavedStrategy,
+    state: SymbolState,
+    i: number,
+    key: string,
+    { score, side }: { score: number, side: TradeSide },
+    config: BacktestConfig,
+    riskLimiter: RiskLimiter
+): OpenPosition | null => {
+    const bar = state.bars[i];
+    const costModel = config.costModels[state.assetClass];
+    const rr = getTargetRR(Math.abs(score));
+    const leverage = getStrategyLeverage(strategy, rr, state.assetClass);
+    if (leverage === null) {
+        riskLimiter.reject('leverage');
+        return null;
+    }
+
+    const sleeve = state.sleeve;
+    const equity = getEquity(sleeve);
+    const atr = i > 0 ? state.atr?.[i - 1] ?? null : null;
+    const targetMargin = calculatePositionMargin(strategy.positionSizing, {
+        equity,
+        leverage,
+        stopLossPercentage: strategy.stopLossPercentage,
+        volatility: atr !== null ? atr / state.bars[i - 1].c : null,
+        recentTrades: state.strategyTrades,
+    });
+    if (targetMargin <= 0 && equity > 0) {
+        riskLimiter.reject('positionSizing');
+        return null;
+    }
+    const targetNotional = targetMargin * leverage;
+    const margin = Math.min(targetMargin, sleeve.cash - calculateCommission(costModel.commission, targetNotional / bar.o, targetNotional));
+    if (margin <= 0) return null;
+    const notional = margin * leverage;
+    const excessEquity = equity - sumMargin(sleeve.positions, p => p.quantity * p.lastPrice * getInitialMarginRate(p.assetClass));
+    if (excessEquity < notional * getInitialMarginRate(state.assetClass)) return null;
+
+    const entryExposure = { symbol: state.symbol, assetClass: state.assetClass, value: notional };
+    if (riskLimiter.check(entryExposure, account.positions.map(getRiskExposure), getEquity(account))) return null;
+
+    const direction = getDirection(side);
+    const slippageRate = getSlippageRate(costModel);
+    const impactRate = getMarketImpactRate(costModel, bar, notional / bar.o);
+    const entryPrice = bar.o * (1 + direction * (slippageRate + impactRate));
+    const quantity = notional / entryPrice;
+    const stopDistance = entryPrice * (strategy.stopLossPercentage / 100);
+    const stopLossPrice = entryPrice - direction * stopDistance;
+    const position: OpenPosition = {
+        ...createExitState(side, entryPrice, stopLossPrice, entryPrice + direction * stopDistance * rr, quantity, strategy.exitRules),
+        id: `${strategy.id}-${state.symbol}-${key}`,
+        symbol: state.symbol,
+        assetClass: state.assetClass,
+        entryIndex: i,
+        entryKey: key,
+        margin,
+        initialStopPrice: stopLossPrice,
+        partialExits: 0,
+        rr,
+        leverage,
+        commission: calculateCommission(costModel.commission, quantity, notional),
+        entrySlippage: bar.o * slippageRate,
+        entryImpact: bar.o * impactRate,
+        borrowCost: 0,
+        financingCost: 0,
+        dividends: 0,
+        lastPrice: bar.c,
+        lastTime: Date.parse(bar.t),
+    };
+    sleeve.cash -= position.margin + position.commission;
+    sleeve.positions.push(position);
+    riskLimiter.recordEntry();
+    return position;
+};
+
+// A partial close takes its share of the margin, commission and accrued costs with it.
+const closePosition = (
+    state: SymbolState,
+    i: number,
+    key: string,
+    rawExitPrice: number,
+    exitReason: Trade['exitReason'],
+    config: BacktestConfig,
+    quantity = state.position!.quantity
+): Trade => {
+    const position = state.position!;
+    const sleeve = state.sleeve;
+    const isPartial = quantity < position.quantity * (1 - 1e-9);
+    const share = isPartial ? quantity / position.quantity : 1;
+    const closedQuantity = isPartial ? quantity : position.quantity;
+    const costModel = config.costModels[position.assetClass];
+    const slippageRate = getSlippageRate(costModel);
+    const impactRate = getMarketImpactRate(costModel, state.bars[i], closedQuantity);
+    const direction = getDirection(position.side);
+    const exitPrice = rawExitPrice * (1 - direction * (slippageRate + impactRate));
+    const exitCommission = calculateCommission(costModel.commission, closedQuantity, exitPrice * closedQuantity);
+    const margin = position.margin * share;
+    const entryCommission = position.commission * share;
+    const borrowCost = position.borrowCost * share;
+    const financingCost = position.financingCost * share;
+    const dividends = position.dividends * share;
+    const commission = entryCommission + exitCommission;
+    const grossPnl = direction * (exitPrice - position.entryPrice) * closedQuantity;
+    const netPnl = grossPnl - commission - borrowCost - financingCost + dividends;
+    const barsHeld = i - position.entryIndex;
+
+    sleeve.cash += margin + grossPnl - exitCommission;
+    let id = position.id;
+    if (isPartial) {
+        position.quantity -= closedQuantity;
+        position.margin -= margin;
+        position.commission -= entryCommission;
+        position.borrowCost -= borrowCost;
+        position.financingCost -= financingCost;
+        position.dividends -= dividends;
+        id = `${position.id}-p${++position.partialExits}`;
+    } else {
+        sleeve.positions = sleeve.positions.filter(p => p !== position);
+        state.position = null;
+    }
+
+    const trade: Trade = {
+        id,
+        symbol: state.symbol,
+        pnl: netPnl,
+        pnlPercentage: (netPnl / margin) * 100,
+        positionSize: closedQuantity,
+        value: margin,
+        leverage: position.leverage,
+        holdingTime: formatHoldingTime(barsHeld, config.timeframe),
+        rr: position.rr,
+        type: netPnl > 0 ? 'WIN' : 'LOSS',
+        assetClass: state.assetClass,
+        entryPrice: position.entryPrice,
+        exitPrice,
+        stopLossPrice: position.initialStopPrice,
+        takeProfitPrice: position.takeProfitPrice,
+        commission,
+        slippage: (position.entrySlippage + rawExitPrice * slippageRate) * closedQuantity,
+        marketImpact: (position.entryImpact + rawExitPrice * impactRate) * closedQuantity,
+        exitReason,
+        side: position.side,
+        borrowCost,
+        financingCost,
+        dividends,
+        entryDate: position.entryKey,
+        exitDate: key,
+        barsHeld,
+    };
+    state.strategyTrades.push(trade);
+    return trade;
+};
+
+// Borrow fees accrue per calendar day on a short's value; financing per night on the part not covered by margin.
+const accrueHoldingCosts = (sleeve: PortfolioState, position: OpenPosition, bar: AlpacaBar, config: BacktestConfig) => {
+    const time = Date.parse(bar.t);
+    if (position.side === 'SHORT') {
+        const days = (time - position.lastTime) / MS_PER_DAY;
+        const fee = position.quantity * position.lastPrice * (config.borrowFeeRate / 100 / 365) * days;
+        sleeve.cash -= fee;
+        position.borrowCost += fee;
+    }
+    const nights = Math.floor(time / MS_PER_DAY) - Math.floor(position.lastTime / MS_PER_DAY);
+    const borrowed = position.quantity * position.entryPrice - position.margin;
+    if (nights > 0 && borrowed > 0) {
+        const interest = borrowed * (config.financingRate / 100 / 365) * nights;
+        sleeve.cash -= interest;
+        position.financingCost += interest;
+    }
+    position.lastTime = time;
+};
+
+// On raw prices a position held over a split becomes `split` times as many units at prices divided by it.
+const applySplit = (position: OpenPosition, bar: AlpacaBar) => {
+    const ratio = bar.split;
+    if (!ratio || ratio === 1) return;
+    position.quantity *= ratio;
+    position.entryPrice /= ratio;
+    position.riskPerUnit /= ratio;
+    position.stopLossPrice /= ratio;
+    position.initialStopPrice /= ratio;
+    position.takeProfitPrice /= ratio;
+    position.targets = position.targets.map(t => ({ price: t.price / ratio, quantity: t.quantity * ratio }));
+    position.bestPrice /= ratio;
+    position.entrySlippage /= ratio;
+    position.entryImpact /= ratio;
+    position.lastPrice /= ratio;
+};
+
+// Longs receive and shorts pay the dividend going ex at this bar.
+const creditDividend = (sleeve: PortfolioState, position: OpenPosition, bar: AlpacaBar) => {
+    if (!bar.dividend) return;
+    const amount = getDirection(position.side) * position.quantity * bar.dividend;
+    sleeve.cash += amount;
+    position.dividends += amount;
+};
+
+// Closes positions trading on this bar, largest maintenance requirement first, until the account covers the rest.
+const liquidatePositions = (
+    sleeves: PortfolioState[],
+    symbolStates: SymbolState[],
+    key: string,
+    config: BacktestConfig
+): Trade[] => {
+    const liquidatable = symbolStates
+        .filter(state => state.position && state.indexByKey.has(key))
+        .sort((a, b) => getMaintenanceRequirement(b.position!) - getMaintenanceRequirement(a.position!));
+    const trades: Trade[] = [];
+    for (const state of liquidatable) {
+        const account = combineSleeves(sleeves);
+        if (getEquity(account) >= sumMargin(account.positions, getMaintenanceRequirement)) break;
+        trades.push(closePosition(state, state.indexByKey.get(key)!, key, state.position!.lastPrice, 'LIQUIDATION', config));
+        state.pendingExit = false;
+    }
+    return trades;
+};
+
+// Values buy-and-hold of the benchmark from the first key asked about, carrying it over keys it didn't trade.
+export const createBenchmarkTracker = (benchmarkBars: AlpacaBar[] | undefined, config: BacktestConfig) => {
+    const calendar = getSymbolCalendar(config.benchmarkSymbol);
+    const priceByKey = new Map(benchmarkBars?.map(bar => [getBarKey(bar, config.timeframe, calendar), bar.c]));
+    let initialPrice: number | undefined;
+    let value = config.initialCapital;
+    return (key: string) => {
+        const price = priceByKey.get(key);
+        if (price) {
+            initialPrice = initialPrice ?? price;
+            value = config.initialCapital * (price / initialPrice);
+        }
+        return value;
+    };
+};
+
+interface ExposureSummary {
+    averageEquity: number;
+    symbols: { symbol: string, assetClass: AssetClass, averageExposure: number }[];
+    timeInMarket: Map<AssetClass, number>;
+}
+
+// Weighs each bar's exposure by the time until the next bar.
+const createExposureTracker = (timeframe: Timeframe) => {
+    const exposureTime = new Map<string, { assetClass: AssetClass, value: number }>();
+    const classTime = new Map<AssetClass, number>();
+    let equityTime = 0;
+    let totalTime = 0;
+    let previous: { time: number, equity: number, positions: { symbol: string, assetClass: AssetClass, value: number }[] } | null = null;
+
+    const accumulate = (duration: number) => {
+        if (!previous) return;
+        totalTime += duration;
+        equityTime += previous.equity * duration;
+        previous.positions.forEach(({ symbol, assetClass, value }) => {
+            const entry = exposureTime.get(symbol) ?? { assetClass, value: 0 };
+            entry.value += value * duration;
+            exposureTime.set(symbol, entry);
+        });
+        new Set(previous.positions.map(p => p.assetClass)).forEach(assetClass => {
+            classTime.set(assetClass, (classTime.get(assetClass) ?? 0) + duration);
+        });
+    };
+
+    return {
+        record: (key: string, positions: OpenPosition[], equity: number) => {
+            const time = Date.parse(key);
+            if (previous) accumulate(time - previous.time);
+            previous = { time, equity, positions: positions.map(p => ({ symbol: p.symbol, assetClass: p.assetClass, value: p.quantity * p.lastPrice })) };
+        },
+        finish: (): ExposureSummary => {
+            accumulate(BAR_MINUTES[timeframe] * 60 * 1000);
+            const average = (value: number) => totalTime > 0 ? value / totalTime : 0;
+            return {
+                averageEquity: average(equityTime),
+                symbols: [...exposureTime.entries()].map(([symbol, { assetClass, value }]) => ({ symbol, assetClass, averageExposure: average(value) })),
+                timeInMarket: new Map([...classTime.entries()].map(([assetClass, time]) => [assetClass, average(time)])),
+            };
+        },
+    };
+};
+
+// Bin edges fall on multiples of the width, so winners never share a bin with losers.
+const getPnlDistribution = (trades: Trade[]): BacktestResults['pnlDistribution'] => {
+    if (trades.length === 0) return [];
+    const returns = trades.map(t => t.pnlPercentage);
+    const min = Math.min(...returns);
+    const max = Math.max(...returns);
+    const width = PNL_BUCKET_SIZES.find(size => Math.floor(max / size) - Math.floor(min / size) < MAX_PNL_BUCKETS)
+        ?? PNL_BUCKET_SIZES[PNL_BUCKET_SIZES.length - 1];
+    const first = Math.floor(min / width);
+    const buckets = Array.from({ length: Math.floor(max / width) - first + 1 }, (_, b) => {
+        const lower = +((first + b) * width).toFixed(2);
+        return { name: `${lower}% to ${+(lower + width).toFixed(2)}%`, count: 0, bucket: lower };
+    });
+    returns.forEach(r => { buckets[Math.floor(r / width) - first].count++; });
+    return buckets;
+};
+
+const getAllocationData = ({ symbols }: ExposureSummary): Allocation[] => {
+    const byClass = new Map<AssetClass, Allocation[]>();
+    symbols.filter(s => s.averageExposure > 0).forEach(({ symbol, assetClass, averageExposure }) => {
+        byClass.set(assetClass, [...(byClass.get(assetClass) ?? []), { name: symbol, value: +averageExposure.toFixed(2), fill: ASSET_COLORS[assetClass] }]);
+    });
+    return [...byClass.entries()]
+        .map(([assetClass, subAllocations]) => ({
+            name: assetClass,
+            value: +subAllocations.reduce((sum, a) => sum + a.value, 0).toFixed(2),
+            fill: ASSET_COLORS[assetClass],
+            subAllocations: subAllocations.sort((a, b) => b.value - a.value),
+        }))
+        .sort((a, b) => b.value - a.value);
+};
+
+const getExposureByAssetClass = (allocationData: Allocation[], exposure: ExposureSummary, allTrades: Trade[]): AssetClassExposure[] => {
+    const classes = new Set<AssetClass>([...allocationData.map(a => a.name as AssetClass), ...allTrades.map(t => t.assetClass as AssetClass)]);
+    return [...classes].map(assetClass => {
+        const trades = allTrades.filter(t => t.assetClass === assetClass);
+        const averageExposure = allocationData.find(a => a.name === assetClass)?.value ?? 0;
+        return {
+            assetClass,
+            averageExposure,
+            averageExposurePercent: exposure.averageEquity > 0 ? (averageExposure / exposure.averageEquity) * 100 : 0,
+            timeInMarket: exposure.timeInMarket.get(assetClass) ?? 0,
+            trades: trades.length,
+            pnl: trades.reduce((sum, t) => sum + t.pnl, 0),
+        };
+    }).sort((a, b) => b.averageExposure - a.averageExposure);
+};
+
+// Splits the portfolio's return and deepest drawdown between the sleeves, net of rebalancing transfers.
+const buildStrategyAttribution = (
+    strategyStates: StrategyState[],
+    histories: SleeveHistory[],
+    performanceData: PerformanceDataPoint[],
+    config: BacktestConfig,
+    barsPerYear: number
+): StrategyAttribution[] => {
+    // Indices into the equity curve; -1 is the initial capital.
+    let peak = -1;
+    let deepest = { peak: -1, trough: -1, depth: 0 };
+    performanceData.forEach((point, k) => {
+        const peakEquity = peak < 0 ? config.initialCapital : performanceData[peak].strategy;
+        if (point.strategy >= peakEquity) {
+            peak = k;
+        } else if (peakEquity > 0 && (peakEquity - point.strategy) / peakEquity > deepest.depth) {
+            deepest = { peak, trough: k, depth: (peakEquity - point.strategy) / peakEquity };
+        }
+    });
+    const peakEquity = deepest.peak < 0 ? config.initialCapital : performanceData[deepest.peak].strategy;
+
+    return strategyStates.map(({ strategy, trades }, s) => {
+        const history = histories[s];
+        const equityAt = (k: number) => k < 0 ? history.startingCapital : history.equity[k];
+        const finalEquity = history.equity[history.equity.length - 1];
+        const netTransfers = history.transfers.reduce((sum, t) => sum + t, 0);
+        const pnl = finalEquity - history.startingCapital - netTransfers;
+        const curve = performanceData.map(point => ({ date: point.date, strategy: point.strategyEquity?.[strategy.id] ?? 0, sp500: 0 }));
+        let curvePeak = history.startingCapital;
+        const maxDrawdown = curve.reduce((worst, point) => {
+            curvePeak = Math.max(curvePeak, point.strategy);
+            return curvePeak > 0 ? Math.max(worst, (curvePeak - point.strategy) / curvePeak) : worst;
+        }, 0);
+        const drawdownPnl = deepest.trough < 0 ? 0
+            : equityAt(deepest.trough) - equityAt(deepest.peak) - history.transfers.slice(deepest.peak + 1, deepest.trough + 1).reduce((sum, t) => sum + t, 0);
+        return {
+            strategyId: strategy.id,
+            strategyName: strategy.name,
+            startingWeight: (history.startingCapital / config.initialCapital) * 100,
+            startingCapital: history.startingCapital,
+            finalEquity,
+            netTransfers,
+            pnl,
+            totalReturn: (history.returns.reduce((growth, r) => growth * (1 + r), 1) - 1) * 100,
+            contribution: (pnl / config.initialCapital) * 100,
+            maxDrawdown: maxDrawdown * 100,
+            drawdownContribution: peakEquity > 0 ? (drawdownPnl / peakEquity) * 100 : 0,
+            sharpeRatio: calculateSharpeRatio([{ date: '', strategy: history.startingCapital, sp500: 0 }, ...curve], 0.02, barsPerYear),
+            trades: trades.length,
+        };
+    });
+};
+
+const buildResults = (
+    allTrades: Trade[],
+    performanceData: PerformanceDataPoint[],
+    exposure: ExposureSummary,
+    config: BacktestConfig,
+    rejectedSignals: RejectedSignalCounts,
+    marginEvents: MarginEvent[],
+    strategyAttribution: StrategyAttribution[],
+    strategyCorrelations: number[][],
+    stopLossFeedback: string,
+    barsPerYear: number
+): BacktestResults => {
+    const finalValue = performanceData[performanceData.length - 1].strategy;
+    const totalReturn = finalValue - config.initialCapital;
+    const totalReturnPercent = (totalReturn / config.initialCapital) * 100;
+    const { sortino, calmar } = calculateAdvancedRatios(performanceData, 0.02, barsPerYear);
+    const benchmarkStats = calculateBenchmarkStats(performanceData, 0.02, barsPerYear);
+
+    const winningTrades = allTrades.filter(t => t.type === 'WIN');
+    const losingTrades = allTrades.filter(t => t.type === 'LOSS');
+    const sum = (trades: Trade[], pick: (t: Trade) => number) => trades.reduce((total, t) => total + pick(t), 0);
+    const average = (trades: Trade[], pick: (t: Trade) => number) => trades.length > 0 ? sum(trades, pick) / trades.length : 0;
+    const longTrades = allTrades.filter(t => t.side === 'LONG');
+    const shortTrades = allTrades.filter(t => t.side === 'SHORT');
+    const allocationData = getAllocationData(exposure);
+    const totalBorrowCost = sum(shortTrades, t => t.borrowCost || 0);
+    const totalCommission = sum(allTrades, t => t.commission);
+    const totalSlippage = sum(allTrades, t => t.slippage);
+    const totalMarketImpact = sum(allTrades, t => t.marketImpact || 0);
+    const totalFinancingCost = sum(allTrades, t => t.financingCost || 0);
+    const totalDividends = sum(allTrades, t => t.dividends || 0);
+
+    return {
+        metrics: [
+            { label: 'Total P&L', value: `$${totalReturn.toFixed(2)}`, changeType: totalReturn > 0 ? 'positive' : 'negative' },
+            { label: 'Total Return', value: `${totalReturnPercent.toFixed(2)}%`, changeType: totalReturn > 0 ? 'positive' : 'negative' },
+            { label: 'Sharpe Ratio', value: benchmarkStats.sharpe.toFixed(2) },
+            { label: 'Max Drawdown', value: `${(Math.max(...performanceData.map(p => p.drawdown || 0)) * 100).toFixed(2)}%` },
+            { label: 'Sortino Ratio', value: sortino.toFixed(2) },
+            { label: 'Calmar Ratio', value: calmar.toFixed(2) },
+        ],
+        performanceData,
+        pnlDistribution: getPnlDistribution(allTrades),
+        allTrades,
+        allocationData,
+        exposureByAssetClass: getExposureByAssetClass(allocationData, exposure, allTrades),
+        benchmarkStats,
+        rollingBenchmarkStats: ROLLING_BENCHMARK_WINDOWS.map(window => calculateRollingBenchmarkStats(performanceData, window, 0.02, barsPerYear)),
+        monthlyReturns: getMonthlyReturns(performanceData, config.initialCapital),
+        drawdownPeriods: getDrawdownPeriods(performanceData, config.initialCapital),
+        rejectedSignals,
+        marginEvents,
+        strategyAttribution,
+        strategyCorrelations,
+        stopLossFeedback,
+        barsPerYear,
+        summary: {
+            trades: allTrades.length,
+            wins: winningTrades.length,
+            losses: losingTrades.length,
+            winRate: allTrades.length > 0 ? ((winningTrades.length / allTrades.length) * 100).toFixed(2) : '0.00',
+            avgWin: average(winningTrades, t => t.pnl),
+            avgLoss: average(losingTrades, t => t.pnl),
+            avgRR: average(allTrades, t => t.rr),
+            avgPositionSize: average(allTrades, t => t.value),
+            avgLeverage: average(allTrades, t => t.leverage),
+            longTrades: longTrades.length,
+            shortTrades: shortTrades.length,
+            longPnl: sum(longTrades, t => t.pnl),
+            shortPnl: sum(shortTrades, t => t.pnl),
+            totalBorrowCost,
+            totalCommission,
+            totalSlippage,
+            totalMarketImpact,
+            totalFinancingCost,
+            totalDividends,
+            totalCosts: totalCommission + totalSlippage + totalMarketImpact + totalBorrowCost + totalFinancingCost,
+            marginCalls: marginEvents.length,
+            liquidations: allTrades.filter(t => t.exitReason === 'LIQUIDATION').length,
+        },
+        config,
+    };
+};
+
+// Walks every bar of every strategy's universe in time order, filling each close's signals at the next open.
+// Bars before the start date only warm up the indicators.
+export const runBacktest = (
+    { strategies, data, config, stopLossFeedback }: BacktestInput,
+    onProgress?: (progress: BacktestProgress) => void
+): BacktestResults => {
+    const strategyStates = strategies.map(strategy => prepareStrategyState(strategy, data, config.timeframe));
+    const tradableStates = strategyStates.filter(s => s.symbols.length > 0);
+    if (tradableStates.length === 0) {
+        throw new Error('None of the selected strategies have enough historical data to backtest.');
+    }
+
+    const timeline = getBacktestTimeline(strategies, data, config);
+    const strategyIds = tradableStates.map(s => s.strategy.id);
+    const sleeves = tradableStates.map(s => s.sleeve);
+    const initialWeights = getTargetWeights(config.allocation, strategyIds, sleeves.map(() => []));
+    const histories: SleeveHistory[] = sleeves.map((sleeve, s) => {
+        sleeve.cash = config.initialCapital * initialWeights[s];
+        return { startingCapital: sleeve.cash, equity: [], transfers: [], returns: [] };
+    });
+    const sleeveIndex = histories.map(h => h.startingCapital); // Time-weighted sleeve curves
+    let rebalancePeriod = getRebalancePeriod(timeline[0], config.allocation.rebalance);
+    const getBenchmarkValue = createBenchmarkTracker(data[config.benchmarkSymbol], config);
+    const exposureTracker = createExposureTracker(config.timeframe);
+    const symbolStates = tradableStates.flatMap(s => s.symbols);
+    const riskLimiter = createRiskLimiter(config.riskLimits, getAccountCalendar(symbolStates.map(s => s.symbol)));
+    const allTrades: Trade[] = [];
+    const marginEvents: MarginEvent[] = [];
+    const performanceData: PerformanceDataPoint[] = [];
+    let peakEquity = config.initialCapital;
+    // Symbols close out on their own last bar, which may come before the timeline's.
+    const lastIndexInRange = new Map(symbolStates.map(state => {
+        const inRange = [...state.indexByKey].filter(([key]) => isWithinRange(key, config));
+        return [state, inRange.length > 0 ? inRange[inRange.length - 1][1] : -1];
+    }));
+    const symbolEndKeys = Array.from(new Map(symbolStates.map(s => [s.symbol, s])).values())
+        .map(state => [...state.indexByKey.keys()].filter(key => isWithinRange(key, config)).pop() ?? '')
+        .sort();
+    const progressInterval = Math.max(1, Math.floor(timeline.length / PROGRESS_REPORTS));
+    let barsProcessed = 0;
+    let symbolsCompleted = 0;
+
+    for (const key of timeline) {
+        // Rebalance at the open of a new period.
+        const transfers = sleeves.map(() => 0);
+        const period = getRebalancePeriod(key, config.allocation.rebalance);
+        if (period !== rebalancePeriod && sleeves.length > 1) {
+            const weights = getTargetWeights(config.allocation, strategyIds, histories.map(h => h.returns));
+            planRebalance(sleeves.map(getEquity), sleeves.map(s => s.cash), weights).forEach((transfer, s) => {
+                sleeves[s].cash += transfer;
+                transfers[s] = transfer;
+            });
+        }
+        rebalancePeriod = period;
+
+        riskLimiter.startBar(key, getEquity(combineSleeves(sleeves)));
+        for (const { strategy, symbols } of tradableStates) {
+            for (const state of symbols) {
+                const i = state.indexByKey.get(key);
+                if (i === undefined) continue;
+                const bar = state.bars[i];
+                const isFinalBar = i === lastIndexInRange.get(state);
+
+                if (state.position) {
+                    accrueHoldingCosts(state.sleeve, state.position, bar, config);
+                    applySplit(state.position, bar);
+                    creditDividend(state.sleeve, state.position, bar);
+                }
+
+                // 1. Orders queued at the previous close fill at this bar's open.
+                if (state.position && state.pendingExit) {
+                    allTrades.push(closePosition(state, i, key, bar.o, 'SIGNAL', config));
+                }
+                if (!state.position && state.pendingEntry) {
+                    state.position = openPosition(combineSleeves(sleeves), strategy, state, i, key, state.pendingEntry, config, riskLimiter);
+                }
+                state.pendingExit = false;
+                state.pendingEntry = null;
+
+                // 2. Stops and targets during the bar, then mark to the close.
+                if (state.position) {
+                    const holdingLimit = getHoldingLimit(config.maxHoldingBars, strategy.exitRules.maxHoldingBars);
+                    for (const fill of findExitFills(state.position, bar, i - state.position.entryIndex, holdingLimit)) {
+                        allTrades.push(closePosition(state, i, key, fill.price, fill.reason, config, fill.quantity));
+                    }
+                }
+                if (state.position) {
+                    if (isFinalBar) {
+                        allTrades.push(closePosition(state, i, key, bar.c, 'EOD', config));
+                    } else {
+                        state.position.lastPrice = bar.c;
+                        updateStops(state.position, bar, state.atr?.[i] ?? null, strategy.exitRules);
+                    }
+                }
+
+                // 3. Signals at the close queue orders for the next bar.
+                if (isFinalBar) continue;
+                const signal = generateSignal(strategy, state.context, i);
+                if (state.position) {
+                    state.pendingExit = getDirection(state.position.side) * signal.score <= -SIGNAL_ENTRY_THRESHOLD;
+                } else {
+                    const trendSma = i > 0 ? state.trendSma[i - 1] : null;
+                    const trendAllows = (direction: number) => !config.useTrendBias || (trendSma !== null && direction * (bar.c - trendSma) > 0);
+                    if (signal.score >= SIGNAL_ENTRY_THRESHOLD && trendAllows(1)) {
+                        state.pendingEntry = { score: signal.score, side: 'LONG' };
+                    } else if (strategy.allowShorts && signal.score <= -SIGNAL_ENTRY_THRESHOLD && trendAllows(-1)) {
+                        state.pendingEntry = { score: signal.score, side: 'SHORT' };
+                    }
+                }
+            }
+        }
+
+        // 4. Margin check on the closing marks.
+        let portfolio = combineSleeves(sleeves);
+        const maintenanceRequirement = sumMargin(portfolio.positions, getMaintenanceRequirement);
+        const closingEquity = getEquity(portfolio);
+        if (portfolio.positions.length > 0 && closingEquity < maintenanceRequirement) {
+            const liquidated = liquidatePositions(sleeves, symbolStates, key, config);
+            allTrades.push(...liquidated);
+            marginEvents.push({ date: key, equity: closingEquity, maintenanceRequirement, liquidatedSymbols: liquidated.map(t => t.symbol) });
+            portfolio = combineSleeves(sleeves);
+        }
+
+        const strategyEquity: { [strategyId: string]: number } = {};
+        sleeves.forEach((sleeve, s) => {
+            const history = histories[s];
+            const sleeveEquity = getEquity(sleeve);
+            const openingEquity = (history.equity.length > 0 ? history.equity[history.equity.length - 1] : history.startingCapital) + transfers[s];
+            const sleeveReturn = openingEquity > 0 ? sleeveEquity / openingEquity - 1 : 0;
+            history.equity.push(sleeveEquity);
+            history.transfers.push(transfers[s]);
+            history.returns.push(sleeveReturn);
+            sleeveIndex[s] *= 1 + sleeveReturn;
+            strategyEquity[strategyIds[s]] = sleeveIndex[s];
+        });
+
+        const equity = getEquity(portfolio);
+        const exposureFor = (side: TradeSide) => portfolio.positions
+            .filter(p => p.side === side)
+            .reduce((sum, p) => sum + p.quantity * p.lastPrice, 0);
+        const longExposure = exposureFor('LONG');
+        const shortExposure = exposureFor('SHORT');
+        peakEquity = Math.max(peakEquity, equity);
+        exposureTracker.record(key, portfolio.positions, equity);
+        performanceData.push({
+            date: key,
+            strategy: equity,
+            sp500: getBenchmarkValue(key),
+            drawdown: peakEquity > 0 ? (peakEquity - equity) / peakEquity : 0,
+            cash: portfolio.cash,
+            exposure: longExposure + shortExposure,
+            marginUsed: portfolio.positions.reduce((sum, p) => sum + p.margin, 0),
+            longExposure,
+            shortExposure,
+            strategyEquity,
+        });
+
+        barsProcessed++;
+        while (symbolsCompleted < symbolEndKeys.length && symbolEndKeys[symbolsCompleted] <= key) symbolsCompleted++;
+        if (onProgress && (barsProcessed % progressInterval === 0 || barsProcessed === timeline.length)) {
+            onProgress({ barsProcessed, totalBars: timeline.length, symbolsCompleted, totalSymbols: symbolEndKeys.length });
+        }
+    }
+
+    if (performanceData.length === 0) {
+        throw new Error('Could not generate performance data. No trades were executed in the simulation.');
+    }
+    const barsPerYear = getBarsPerYear(strategies, data, config);
+    const strategyAttribution = buildStrategyAttribution(tradableStates, histories, performanceData, config, barsPerYear);
+    const strategyCorrelations = calculateCorrelationMatrix(histories.map(h => h.returns));
+    return buildResults(
+        allTrades, performanceData, exposureTracker.finish(), config, riskLimiter.getRejections(), marginEvents,
+        strategyAttribution, strategyCorrelations, stopLossFeedback, barsPerYear
+    );
+};
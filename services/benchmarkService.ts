@@ -0,0 +1,99 @@
+import { BenchmarkStats, PerformanceDataPoint, RollingBenchmarkPoint, RollingBenchmarkSeries } from '../types';
+
+export const ROLLING_BENCHMARK_WINDOWS = [63, 252]; // Roughly a quarter and a year of daily bars
+
+// Running sums of strategy (s) and benchmark (b) returns and their products, so a rolling window can add
+// the newest bar and drop the oldest without re-scanning the window. Active-return moments follow from these.
+interface ReturnSums {
+    n: number;
+    s: number;
+    b: number;
+    ss: number;
+    bb: number;
+    sb: number;
+}
+
+const emptySums = (): ReturnSums => ({ n: 0, s: 0, b: 0, ss: 0, bb: 0, sb: 0 });
+
+const addReturns = (sums: ReturnSums, s: number, b: number, sign = 1) => {
+    sums.n += sign;
+    sums.s += sign * s;
+    sums.b += sign * b;
+    sums.ss += sign * s * s;
+    sums.bb += sign * b * b;
+    sums.sb += sign * s * b;
+};
+
+const getReturns = (values: number[]): number[] =>
+    values.slice(1).map((value, i) => values[i] > 0 ? (value - values[i]) / values[i] : 0);
+
+const finite = (value: number) => isFinite(value) ? value : 0;
+
+// Sample (n - 1) moments, matching calculateSharpeRatio, annualized with barsPerYear.
+const summarize = (sums: ReturnSums, riskFreeRate: number, barsPerYear: number): Omit<RollingBenchmarkPoint, 'date'> => {
+    const { n } = sums;
+    if (n < 2) return { sharpe: 0, volatility: 0, alpha: 0, beta: 0, correlation: 0, trackingError: 0, informationRatio: 0 };
+    const meanS = sums.s / n;
+    const meanB = sums.b / n;
+    const varS = Math.max(0, (sums.ss - n * meanS * meanS) / (n - 1));
+    const varB = Math.max(0, (sums.bb - n * meanB * meanB) / (n - 1));
+    const cov = (sums.sb - n * meanS * meanB) / (n - 1);
+    const varActive = Math.max(0, varS + varB - 2 * cov);
+    const rfPerBar = riskFreeRate / barsPerYear;
+    const beta = varB > 0 ? cov / varB : 0;
+    const trackingError = Math.sqrt(varActive * barsPerYear);
+    return {
+        sharpe: finite(varS > 0 ? ((meanS - rfPerBar) / Math.sqrt(varS)) * Math.sqrt(barsPerYear) : 0),
+        volatility: finite(Math.sqrt(varS * barsPerYear)),
+        alpha: finite(((meanS - rfPerBar) - beta * (meanB - rfPerBar)) * barsPerYear),
+        beta: finite(beta),
+        correlation: finite(varS > 0 && varB > 0 ? cov / Math.sqrt(varS * varB) : 0),
+        trackingError: finite(trackingError),
+        informationRatio: finite(trackingError > 0 ? ((meanS - meanB) * barsPerYear) / trackingError : 0),
+    };
+};
+
+// Average strategy return over the bars where the benchmark moved in the given direction, relative to the benchmark's own.
+const getCapture = (strategyReturns: number[], benchmarkReturns: number[], direction: number): number => {
+    const bars = benchmarkReturns.map((b, i) => i).filter(i => direction * benchmarkReturns[i] > 0);
+    if (bars.length === 0) return 0;
+    const benchmarkMean = bars.reduce((sum, i) => sum + benchmarkReturns[i], 0) / bars.length;
+    const strategyMean = bars.reduce((sum, i) => sum + strategyReturns[i], 0) / bars.length;
+    return finite((strategyMean / benchmarkMean) * 100);
+};
+
+export const calculateBenchmarkStats = (performanceData: PerformanceDataPoint[], riskFreeRate = 0.02, barsPerYear = 252): BenchmarkStats => {
+    const strategyReturns = getReturns(performanceData.map(p => p.strategy));
+    const benchmarkReturns = getReturns(performanceData.map(p => p.sp500));
+    const sums = emptySums();
+    const benchmarkSums = emptySums();
+    strategyReturns.forEach((s, i) => {
+        addReturns(sums, s, benchmarkReturns[i]);
+        addReturns(benchmarkSums, benchmarkReturns[i], benchmarkReturns[i]);
+    });
+    return {
+        ...summarize(sums, riskFreeRate, barsPerYear),
+        benchmarkSharpe: summarize(benchmarkSums, riskFreeRate, barsPerYear).sharpe,
+        upCapture: getCapture(strategyReturns, benchmarkReturns, 1),
+        downCapture: getCapture(strategyReturns, benchmarkReturns, -1),
+    };
+};
+
+// One point per bar once a full window of returns is available; empty when the backtest is shorter than the window.
+export const calculateRollingBenchmarkStats = (
+    performanceData: PerformanceDataPoint[],
+    window: number,
+    riskFreeRate = 0.02,
+    barsPerYear = 252
+): RollingBenchmarkSeries => {
+    const strategyReturns = getReturns(performanceData.map(p => p.strategy));
+    const benchmarkReturns = getReturns(performanceData.map(p => p.sp500));
+    const sums = emptySums();
+    const points: RollingBenchmarkPoint[] = [];
+    strategyReturns.forEach((s, i) => {
+        addReturns(sums, s, benchmarkReturns[i]);
+        if (i >= window) addReturns(sums, strategyReturns[i - window], benchmarkReturns[i - window], -1);
+        if (i >= window - 1) points.push({ date: performanceData[i + 1].date, ...summarize(sums, riskFreeRate, barsPerYear) });
+    });
+    return { window, points };
+};
@@ -0,0 +1,66 @@
+import { CapitalAllocation, RebalanceFrequency } from '../types';
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const mean = (values: number[]) => values.length > 0 ? sum(values) / values.length : 0;
+
+const standardDeviation = (values: number[]) => {
+    if (values.length < 2) return 0;
+    const average = mean(values);
+    return Math.sqrt(values.reduce((total, v) => total + (v - average) ** 2, 0) / (values.length - 1));
+};
+
+// Each strategy's share of capital, summing to 1. Equal risk weights each sleeve by the inverse of its return
+// volatility over the lookback; sleeves with too little history to measure take the others' average weight.
+export const getTargetWeights = (allocation: CapitalAllocation, strategyIds: string[], sleeveReturns: number[][]): number[] => {
+    const raw = allocation.method === 'equalRisk'
+        ? sleeveReturns.map(returns => {
+            const volatility = standardDeviation(returns.slice(-allocation.riskLookbackBars));
+            return volatility > 0 ? 1 / volatility : null;
+        })
+        : strategyIds.map(id => allocation.weights[id] ?? null);
+    const known = raw.filter((weight): weight is number => weight !== null).map(weight => Math.max(0, weight));
+    const fallback = known.length > 0 ? mean(known) : 1;
+    const weights = raw.map(weight => weight === null ? fallback : Math.max(0, weight));
+    const total = sum(weights);
+    return total > 0 ? weights.map(weight => weight / total) : weights.map(() => 1 / weights.length);
+};
+
+// The period a bar key falls in; sleeves are rebalanced on the first bar of each new period.
+export const getRebalancePeriod = (key: string, frequency: RebalanceFrequency): string => {
+    switch (frequency) {
+        case 'none':
+            return '';
+        case 'monthly':
+            return key.slice(0, 7);
+        case 'quarterly':
+            return `${key.slice(0, 4)}-Q${Math.floor((Number(key.slice(5, 7)) - 1) / 3) + 1}`;
+    }
+};
+
+// Cash to move into (+) or out of (-) each sleeve to bring its equity back towards its target. Only free cash
+// leaves a sleeve, so rebalancing never closes positions, and what is freed goes to the underweight sleeves in
+// proportion to how far short of target they are. The transfers always sum to zero.
+export const planRebalance = (equities: number[], cash: number[], weights: number[]): number[] => {
+    const total = sum(equities);
+    const gaps = equities.map((equity, k) => weights[k] * total - equity);
+    const outflows = gaps.map((gap, k) => gap < 0 ? Math.min(-gap, Math.max(0, cash[k])) : 0);
+    const available = sum(outflows);
+    const shortfall = sum(gaps.map(gap => Math.max(0, gap)));
+    if (available <= 0 || shortfall <= 0) return gaps.map(() => 0);
+    return gaps.map((gap, k) => Math.max(0, gap) * (available / shortfall) - outflows[k]);
+};
+
+// Pearson correlation between every pair of equally long series. A flat series correlates 0 with the others.
+export const calculateCorrelationMatrix = (series: number[][]): number[][] => {
+    const deviations = series.map(values => {
+        const average = mean(values);
+        return values.map(v => v - average);
+    });
+    const norms = deviations.map(d => Math.sqrt(d.reduce((total, v) => total + v * v, 0)));
+    return deviations.map((a, i) => deviations.map((b, j) => {
+        if (i === j) return 1;
+        if (norms[i] === 0 || norms[j] === 0) return 0;
+        return a.reduce((total, v, k) => total + v * b[k], 0) / (norms[i] * norms[j]);
+    }));
+};
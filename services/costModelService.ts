@@ -0,0 +1,57 @@
+import { AlpacaBar, CommissionModel, CostModel } from '../types';
+
+// Fee on one order. Tiers are marginal, like tax brackets: each slice of the notional pays its own tier's rate.
+export const calculateCommission = (model: CommissionModel, quantity: number, notional: number): number => {
+    let fee = 0;
+    switch (model.type) {
+        case 'flat':
+            fee = model.amount;
+            break;
+        case 'perShare':
+            fee = model.amount * quantity;
+            break;
+        case 'perNotional':
+            fee = notional * (model.amount / 100);
+            break;
+        case 'tiered': {
+            let lowerBound = 0;
+            for (const tier of model.tiers) {
+                const upperBound = tier.upTo ?? Infinity;
+                fee += Math.max(0, Math.min(notional, upperBound) - lowerBound) * (tier.rate / 100);
+                if (notional <= upperBound) break;
+                lowerBound = upperBound;
+            }
+            break;
+        }
+    }
+    return Math.max(fee, model.minimum);
+};
+
+// Fraction of the price lost on each fill: a fixed percentage, or half the quoted spread when crossing it.
+export const getSlippageRate = (model: CostModel): number =>
+    model.slippageType === 'spread' ? model.slippage / 10000 / 2 : model.slippage / 100;
+
+// Square-root impact: the bar's range scaled by the order's participation in the bar's volume (capped at all of it).
+// Bars without volume (forex, some indices) can't be measured against, so they carry no impact.
+export const getMarketImpactRate = (model: CostModel, bar: AlpacaBar, quantity: number): number => {
+    if (model.impactCoefficient <= 0 || !bar.v || bar.v <= 0 || bar.c <= 0) return 0;
+    const participation = Math.min(1, quantity / bar.v);
+    return model.impactCoefficient * ((bar.h - bar.l) / bar.c) * Math.sqrt(participation);
+};
+
+export const describeCommission = (model: CommissionModel): string => {
+    const minimum = model.minimum > 0 ? `, min $${model.minimum.toFixed(2)}` : '';
+    switch (model.type) {
+        case 'flat':
+            return `$${model.amount.toFixed(2)} per order`;
+        case 'perShare':
+            return `$${model.amount} per share${minimum}`;
+        case 'perNotional':
+            return `${model.amount}% of notional${minimum}`;
+        case 'tiered':
+            return model.tiers.map(t => `${t.rate}%${t.upTo === null ? ' above' : ` to $${t.upTo.toLocaleString()}`}`).join(', ') + minimum;
+    }
+};
+
+export const describeSlippage = (model: CostModel): string =>
+    model.slippageType === 'spread' ? `${model.slippage} bps spread` : `${model.slippage}% per fill`;
@@ -0,0 +1,267 @@
+import { parquetReadObjects } from 'hyparquet';
+import { AlpacaBar, BackendResponse, BarField, ColumnMapping, CustomDataset, ImportIssue, ImportOptions, ImportResult, ImportTable, Timeframe } from '../types';
+import { BAR_FIELD_ALIASES } from '../constants';
+import { deleteInternal, getInternal, postInternal } from './backendService';
+import { fromWallTime, getZoneFormatter, toWallTime } from './tradingCalendarService';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// --- Reading files ---
+
+// The most frequent of the usual delimiters in the header line.
+const detectDelimiter = (headerLine: string) =>
+    [',', ';', '\t', '|'].reduce((best, d) => (headerLine.split(d).length > headerLine.split(best).length ? d : best), ',');
+
+// RFC 4180 style: quoted cells may hold delimiters, newlines and doubled quotes.
+const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, ''); // Byte order mark
+    const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0]);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else cell += char;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+    if (/\.parquet$/i.test(file.name)) {
+        const records = await parquetReadObjects({ file: await file.arrayBuffer() });
+        if (records.length === 0) throw new Error('The Parquet file has no rows.');
+        const columns = Object.keys(records[0]);
+        return { format: 'parquet', columns, rows: records.map(record => columns.map(column => record[column])) };
+    }
+    const [header, ...rows] = parseCsv(await file.text());
+    if (!header || rows.length === 0) throw new Error('The CSV file needs a header row and at least one data row.');
+    const columns = header.map((name, i) => name.trim() || `column_${i + 1}`);
+    return { format: 'csv', columns, rows };
+};
+
+// Matches each bar field to the first column named like it.
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    (Object.keys(BAR_FIELD_ALIASES) as BarField[]).forEach(field => {
+        const column = columns.find(c => BAR_FIELD_ALIASES[field].includes(c.trim().toLowerCase()));
+        if (column) mapping[field] = column;
+    });
+    return mapping;
+};
+
+// --- Timestamps ---
+
+interface ParsedTime {
+    ms: number; // The instant, or for `naive` values the wall-clock time as if it were UTC
+    naive: boolean; // No offset was given, so the dataset's timezone applies
+    dateOnly: boolean;
+}
+
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+// Epoch numbers are told apart by magnitude: seconds, milliseconds, microseconds or nanoseconds.
+const fromEpoch = (value: number): ParsedTime => {
+    const abs = Math.abs(value);
+    const ms = abs < 1e11 ? value * 1000 : abs < 1e14 ? value : abs < 1e17 ? value / 1e3 : value / 1e6;
+    return { ms, naive: false, dateOnly: false };
+};
+
+const parseTimestamp = (value: unknown): ParsedTime | null => {
+    if (value instanceof Date) {
+        const ms = value.getTime();
+        return isNaN(ms) ? null : { ms, naive: false, dateOnly: ms % MS_PER_DAY === 0 }; // Parquet DATE columns arrive as UTC midnight
+    }
+    if (typeof value === 'bigint') return fromEpoch(Number(value));
+    if (typeof value === 'number') {
+        if (!isFinite(value)) return null;
+        if (Number.isInteger(value) && value >= 19000101 && value <= 21001231) return parseTimestamp(String(value)); // YYYYMMDD
+        return fromEpoch(value);
+    }
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+    const compact = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+    if (compact) return { ms: Date.UTC(+compact[1], +compact[2] - 1, +compact[3]), naive: true, dateOnly: true };
+    if (/^-?\d+(\.\d+)?$/.test(text)) return fromEpoch(Number(text));
+    const match = ISO_PATTERN.exec(text);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second, fraction, offset] = match;
+    const wall = Date.UTC(+year, +month - 1, +day, +(hour || 0), +(minute || 0), +(second || 0), Math.round(Number(fraction || 0) * 1000));
+    if (isNaN(wall)) return null;
+    if (!offset) return { ms: wall, naive: true, dateOnly: hour === undefined };
+    if (offset.toUpperCase() === 'Z') return { ms: wall, naive: false, dateOnly: false };
+    const sign = offset[0] === '-' ? -1 : 1;
+    const digits = offset.slice(1).replace(':', '');
+    return { ms: wall - sign * (+digits.slice(0, 2) * 60 + +digits.slice(2)) * 60000, naive: false, dateOnly: false };
+};
+
+// --- Building bars ---
+
+const parseNumber = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'bigint') return Number(value);
+    if (typeof value !== 'string' || value.trim() === '') return NaN;
+    return Number(value.trim().replace(/,/g, ''));
+};
+
+const TIMEFRAME_MINUTES: { [key in Timeframe]: number } = { '5Min': 5, '15Min': 15, '1Hour': 60, '1Day': 1440 };
+
+// The timeframe closest to the median gap between consecutive bars, weekends and overnight gaps aside.
+const inferTimeframe = (times: number[]): Timeframe | null => {
+    const gaps = times.slice(1).map((t, i) => (t - times[i]) / 60000).filter(gap => gap > 0).sort((a, b) => a - b);
+    if (gaps.length === 0) return null;
+    const median = gaps[Math.floor(gaps.length / 2)];
+    const timeframes = Object.keys(TIMEFRAME_MINUTES) as Timeframe[];
+    return timeframes.reduce((best, tf) =>
+        Math.abs(Math.log(median / TIMEFRAME_MINUTES[tf])) < Math.abs(Math.log(median / TIMEFRAME_MINUTES[best])) ? tf : best, timeframes[0]);
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const describeRows = (rows: number[]) => `${plural(rows.length, 'row')} (e.g. data row ${rows.slice(0, 3).map(r => r + 1).join(', ')})`;
+
+// Maps each row to an AlpacaBar and checks the result. Naive timestamps are read in `options.timezone`; bars
+// are stored as UTC instants, except daily bars, which keep their calendar date at 00:00Z so that getSessionDate
+// reads the trading day straight from the date whatever the exchange's timezone.
+export const buildBars = (table: ImportTable, options: ImportOptions): ImportResult => {
+    const { mapping, timezone, timeframe, duplicatePolicy } = options;
+    const issues: ImportIssue[] = [];
+    const result = (bars: AlpacaBar[], skippedRows = 0, duplicateRows = 0, inferredTimeframe: Timeframe | null = null): ImportResult =>
+        ({ bars, issues, rowCount: table.rows.length, skippedRows, duplicateRows, inferredTimeframe });
+
+    if (!mapping.t || !mapping.c) {
+        issues.push({ severity: 'error', message: 'Map a column to Timestamp and to Close / Value.' });
+        return result([]);
+    }
+    try {
+        getZoneFormatter(timezone);
+    } catch {
+        issues.push({ severity: 'error', message: `'${timezone}' is not a timezone this browser knows. Use an IANA name such as America/New_York.` });
+        return result([]);
+    }
+
+    const column = (field: BarField) => (mapping[field] ? table.columns.indexOf(mapping[field]!) : -1);
+    const index = { t: column('t'), o: column('o'), h: column('h'), l: column('l'), c: column('c'), v: column('v') };
+    const isDaily = timeframe === '1Day';
+    const badTimes: number[] = [];
+    const badCloses: number[] = [];
+    const filledPrices: number[] = [];
+    const naiveRows: number[] = [];
+    const gapRows: number[] = [];
+    let explicitCount = 0;
+    let dateOnlyCount = 0;
+    const parsed: { time: number, bar: AlpacaBar }[] = [];
+
+    table.rows.forEach((row, r) => {
+        const time = parseTimestamp(row[index.t]);
+        if (!time) { badTimes.push(r); return; }
+        const close = parseNumber(row[index.c]);
+        if (!isFinite(close)) { badCloses.push(r); return; }
+
+        if (time.naive) naiveRows.push(r); else explicitCount++;
+        if (time.dateOnly) dateOnlyCount++;
+        let instant = time.ms;
+        if (time.naive) {
+            const converted = fromWallTime(time.ms, timezone);
+            if (!converted.exact) gapRows.push(r);
+            instant = converted.ms;
+        }
+        const day = time.dateOnly || (time.naive && isDaily) ? time.ms : toWallTime(instant, timezone);
+        const t = isDaily ? new Date(Math.floor(day / MS_PER_DAY) * MS_PER_DAY).toISOString() : new Date(instant).toISOString();
+
+        const price = (field: 'o' | 'h' | 'l') => {
+            if (index[field] < 0) return close;
+            const value = parseNumber(row[index[field]]);
+            if (isFinite(value)) return value;
+            filledPrices.push(r);
+            return close;
+        };
+        const volume = index.v >= 0 ? parseNumber(row[index.v]) : 0;
+        parsed.push({ time: instant, bar: { t, o: price('o'), h: price('h'), l: price('l'), c: close, v: isFinite(volume) ? volume : 0 } });
+    });
+
+    const skippedRows = badTimes.length + badCloses.length;
+    if (badTimes.length > 0) issues.push({ severity: 'warning', message: `Skipped for a timestamp that isn't an ISO date/time, YYYYMMDD or epoch number: ${describeRows(badTimes)}.` });
+    if (badCloses.length > 0) issues.push({ severity: 'warning', message: `Skipped for lack of a numeric close: ${describeRows(badCloses)}.` });
+    if (parsed.length === 0) {
+        issues.push({ severity: 'error', message: 'No usable rows.' });
+        return result([], skippedRows);
+    }
+
+    // Timezone checks
+    if (naiveRows.length > 0 && explicitCount > 0) {
+        issues.push({ severity: 'warning', message: `Timestamps mix UTC offsets and local times. Read as ${timezone} for lack of an offset: ${describeRows(naiveRows)}.` });
+    } else if (naiveRows.length > dateOnlyCount && !isDaily) {
+        issues.push({ severity: 'warning', message: `Timestamps have no UTC offset and were read as ${timezone} local time. Check this matches the source.` });
+    }
+    if (gapRows.length > 0) issues.push({ severity: 'warning', message: `Times that don't exist in ${timezone} (daylight-saving gap), so the timezone is probably wrong: ${describeRows(gapRows)}.` });
+    if (!isDaily && dateOnlyCount === parsed.length) {
+        issues.push({ severity: 'error', message: `The timestamps have no time of day, which ${timeframe} bars need.` });
+    }
+
+    // Order and duplicates
+    const inOrder = parsed.every((p, i) => i === 0 || p.bar.t >= parsed[i - 1].bar.t);
+    if (!inOrder) issues.push({ severity: 'warning', message: 'Rows were not in time order and have been sorted.' });
+    const sorted = inOrder ? parsed : [...parsed].sort((a, b) => a.bar.t.localeCompare(b.bar.t)); // Stable, so file order breaks ties
+    const bars: AlpacaBar[] = [];
+    let duplicateRows = 0;
+    for (const { bar } of sorted) {
+        const last = bars[bars.length - 1];
+        if (last && last.t === bar.t) {
+            duplicateRows++;
+            if (duplicatePolicy === 'keep-last') bars[bars.length - 1] = bar;
+        } else {
+            bars.push(bar);
+        }
+    }
+    if (duplicateRows > 0) {
+        const message = `Duplicate timestamps${isDaily ? ' (daily bars compare calendar dates)' : ''}: ${plural(duplicateRows, 'extra row')}.`;
+        if (duplicatePolicy === 'reject') issues.push({ severity: 'error', message });
+        else issues.push({ severity: 'warning', message: `${message} The ${duplicatePolicy === 'keep-last' ? 'last' : 'first'} of each was kept.` });
+    }
+
+    // Values
+    if (filledPrices.length > 0) issues.push({ severity: 'warning', message: `Missing open, high or low filled in from the close: ${describeRows(Array.from(new Set(filledPrices)))}.` });
+    const inconsistent = bars.filter(b => b.h < Math.max(b.o, b.c, b.l) || b.l > Math.min(b.o, b.c, b.h)).length;
+    if (inconsistent > 0) issues.push({ severity: 'warning', message: `High below or low above the other prices: ${plural(inconsistent, 'bar')}.` });
+    const nonPositive = bars.filter(b => b.c <= 0).length;
+    if (nonPositive > 0) issues.push({ severity: 'warning', message: `Close at zero or below, where returns and position sizes are meaningless: ${plural(nonPositive, 'bar')}.` });
+    if (bars[bars.length - 1].t > new Date().toISOString()) issues.push({ severity: 'warning', message: 'Some bars are dated in the future.' });
+
+    const inferredTimeframe = inferTimeframe(sorted.map(p => p.time));
+    if (inferredTimeframe && inferredTimeframe !== timeframe) {
+        issues.push({ severity: 'warning', message: `The bars are spaced like ${inferredTimeframe} data but are being imported as ${timeframe}.` });
+    }
+    return result(bars, skippedRows, duplicateRows, inferredTimeframe);
+};
+
+// --- Registered datasets ---
+
+export const fetchCustomDatasets = (): Promise<BackendResponse<CustomDataset[]>> => getInternal<CustomDataset[]>('/api/custom-data');
+
+export const saveCustomDataset = (
+    dataset: Pick<CustomDataset, 'symbol' | 'timeframe' | 'assetClass' | 'description' | 'sourceFile' | 'sourceFormat' | 'timezone' | 'columns'>,
+    bars: AlpacaBar[],
+    replace: boolean
+): Promise<BackendResponse<CustomDataset>> => postInternal<CustomDataset>('/api/custom-data', { dataset, bars, replace });
+
+export const deleteCustomDataset = (symbol: string, timeframe?: Timeframe): Promise<BackendResponse<{ removed: number }>> =>
+    deleteInternal<{ removed: number }>(`/api/custom-data?symbol=${encodeURIComponent(symbol)}${timeframe ? `&timeframe=${timeframe}` : ''}`);
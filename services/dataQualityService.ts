@@ -0,0 +1,184 @@
+import { AlpacaBar, DataQualityAction, DataQualityIssue, DataQualityIssueType, DataQualityReport, SymbolDataQuality, Timeframe, TradingCalendar } from '../types';
+import { DATA_QUALITY_THRESHOLDS } from '../constants';
+import { BAR_MINUTES, MIN_BARS_PER_SYMBOL } from './backtestService';
+import { getSessionDate, getSessionDays, getSymbolCalendar, isSessionDay } from './tradingCalendarService';
+
+const MAX_EXAMPLES = 5;
+
+interface DataQualityRange {
+    timeframe: Timeframe;
+    startDate: string;
+    endDate: string;
+}
+
+const createIssue = (type: DataQualityIssueType, severity: DataQualityIssue['severity'], items: string[]): DataQualityIssue =>
+    ({ type, severity, count: items.length, examples: items.slice(0, MAX_EXAMPLES) });
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Close-to-close moves far outside the series' usual range, using the median absolute deviation so the
+// jumps themselves don't inflate the yardstick.
+const findOutlierJumps = (bars: AlpacaBar[]): string[] => {
+    const returns = bars.slice(1).map((bar, i) => Math.log(bar.c / bars[i].c));
+    if (returns.length < 2) return [];
+    const center = median(returns);
+    const sigma = 1.4826 * median(returns.map(r => Math.abs(r - center)));
+    const { outlierSigma, minOutlierMove } = DATA_QUALITY_THRESHOLDS;
+    return returns
+        .map((r, i) => ({ r, t: bars[i + 1].t }))
+        .filter(({ r }) => Math.abs(Math.exp(r) - 1) >= minOutlierMove && Math.abs(r - center) > outlierSigma * sigma)
+        .map(({ t }) => t);
+};
+
+// Every bar in a run of unchanged closes at least `staleRunBars` long, which usually means a feed that stopped updating.
+const findStaleBars = (bars: AlpacaBar[]): string[] => {
+    const stale: string[] = [];
+    let runStart = 0;
+    for (let i = 1; i <= bars.length; i++) {
+        if (i < bars.length && bars[i].c === bars[runStart].c) continue;
+        if (i - runStart >= DATA_QUALITY_THRESHOLDS.staleRunBars) stale.push(...bars.slice(runStart, i).map(b => b.t));
+        runStart = i;
+    }
+    return stale;
+};
+
+// Daily bars dated on days the calendar has no session (usually a timezone shift), and intraday bars off the
+// symbol's usual bar grid or repeating a timestamp. The grid is measured from the bars themselves, since some
+// providers start hourly bars on the half hour.
+const findMisalignedBars = (bars: AlpacaBar[], calendar: TradingCalendar, timeframe: Timeframe): string[] => {
+    const misaligned = new Set(bars.filter(bar => !isSessionDay(calendar, getSessionDate(calendar, bar.t))).map(bar => bar.t));
+    if (timeframe !== '1Day') {
+        const barMs = BAR_MINUTES[timeframe] * 60 * 1000;
+        const phases = bars.map(bar => Date.parse(bar.t) % barMs);
+        const counts = new Map<number, number>();
+        phases.forEach(phase => counts.set(phase, (counts.get(phase) || 0) + 1));
+        const grid = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+        bars.forEach((bar, i) => {
+            if (phases[i] !== grid || (i > 0 && bar.t <= bars[i - 1].t)) misaligned.add(bar.t);
+        });
+    }
+    return [...misaligned];
+};
+
+export const checkSymbolQuality = (symbol: string, bars: AlpacaBar[] | undefined, range: DataQualityRange): SymbolDataQuality => {
+    const { timeframe, startDate, endDate } = range;
+    const calendar = getSymbolCalendar(symbol);
+    const today = new Date().toISOString().split('T')[0];
+    const sessions = getSessionDays(calendar, startDate, endDate < today ? endDate : today);
+    const issues: DataQualityIssue[] = [];
+    const report = (status: SymbolDataQuality['status'], coverage: number): SymbolDataQuality => ({
+        symbol, calendar, bars: bars?.length ?? 0, expectedSessions: sessions.length, coverage,
+        firstBar: bars?.[0]?.t ?? null, lastBar: bars?.[bars.length - 1]?.t ?? null, issues, status,
+    });
+
+    if (!bars || bars.length < MIN_BARS_PER_SYMBOL) {
+        issues.push(createIssue('noData', 'fail', []));
+        return report('fail', 0);
+    }
+
+    const barDates = new Set(bars.map(bar => getSessionDate(calendar, bar.t)));
+    const firstDate = getSessionDate(calendar, bars[0].t);
+    const lastDate = getSessionDate(calendar, bars[bars.length - 1].t);
+    const interior = sessions.filter(day => day >= firstDate && day <= lastDate);
+    const missing = interior.filter(day => !barDates.has(day));
+    if (missing.length > 0) {
+        const tooMany = missing.length / Math.max(1, interior.length) * 100 > DATA_QUALITY_THRESHOLDS.maxMissingSessionPercent;
+        issues.push(createIssue('missingSessions', tooMany ? 'fail' : 'warning', missing));
+    }
+    const leading = sessions.filter(day => day < firstDate);
+    const trailing = sessions.filter(day => day > lastDate);
+    if (Math.max(leading.length, trailing.length) > DATA_QUALITY_THRESHOLDS.maxEdgeGapSessions) {
+        issues.push(createIssue('truncated', 'warning', [...leading, ...trailing]));
+    }
+
+    const nonPositive = bars.filter(bar => ![bar.o, bar.h, bar.l, bar.c].every(price => isFinite(price) && price > 0)).map(bar => bar.t);
+    if (nonPositive.length > 0) issues.push(createIssue('nonPositivePrice', 'fail', nonPositive));
+
+    const jumps = findOutlierJumps(bars.filter(bar => bar.c > 0));
+    if (jumps.length > 0) issues.push(createIssue('outlierJump', 'warning', jumps));
+    const stale = findStaleBars(bars);
+    if (stale.length > 0) issues.push(createIssue('staleBars', 'warning', stale));
+    const misaligned = findMisalignedBars(bars, calendar, timeframe);
+    if (misaligned.length > 0) issues.push(createIssue('misalignedTimestamps', 'warning', misaligned));
+
+    const status = issues.some(i => i.severity === 'fail') ? 'fail' : issues.length > 0 ? 'warning' : 'ok';
+    return report(status, sessions.length > 0 ? sessions.filter(day => barDates.has(day)).length / sessions.length : 1);
+};
+
+// Worst first, so the symbols that need a decision lead the report.
+export const assessDataQuality = (data: { [symbol: string]: AlpacaBar[] }, symbols: string[], range: DataQualityRange): DataQualityReport => {
+    const rank = { fail: 0, warning: 1, ok: 2 };
+    return {
+        ...range,
+        symbols: symbols.map(symbol => checkSymbolQuality(symbol, data[symbol], range)).sort((a, b) => rank[a.status] - rank[b.status]),
+        excludedSymbols: [],
+        filledBars: 0,
+    };
+};
+
+export const getFlaggedSymbols = (report: DataQualityReport): string[] => report.symbols.filter(s => s.status !== 'ok').map(s => s.symbol);
+
+const flatBar = (t: string, close: number): AlpacaBar => ({ t, o: close, h: close, l: close, c: close, v: 0 });
+
+// Replaces bars with a zero or negative price by the last good close, drops any before the first good bar and,
+// for daily bars, inserts the last close on each missing session, stamped at the previous bar's time of day.
+// Intraday gaps are left alone, since a missing day can't be rebuilt bar by bar.
+const forwardFill = (bars: AlpacaBar[], quality: SymbolDataQuality, timeframe: Timeframe) => {
+    const isGood = (bar: AlpacaBar) => [bar.o, bar.h, bar.l, bar.c].every(price => isFinite(price) && price > 0);
+    const firstGood = bars.findIndex(isGood);
+    if (firstGood < 0) return { bars: [], filled: 0 };
+    let filled = 0;
+    const repaired = bars.slice(firstGood).map((bar, i, all) => {
+        if (isGood(bar)) return bar;
+        filled++;
+        return flatBar(bar.t, all.slice(0, i).reverse().find(isGood)!.c);
+    });
+    if (timeframe !== '1Day') return { bars: repaired, filled };
+
+    const { calendar } = quality;
+    const byDate = new Map(repaired.map(bar => [getSessionDate(calendar, bar.t), bar]));
+    const dates = [...byDate.keys()];
+    const sessions = getSessionDays(calendar, dates[0], dates[dates.length - 1]);
+    const result: AlpacaBar[] = [];
+    let last = { bar: repaired[0], date: dates[0] };
+    for (const day of Array.from(new Set<string>([...sessions, ...dates])).sort()) {
+        const bar = byDate.get(day);
+        if (bar) {
+            last = { bar, date: day };
+            result.push(bar);
+        } else {
+            filled++;
+            const shift = Date.parse(`${day}T00:00:00Z`) - Date.parse(`${last.date}T00:00:00Z`);
+            result.push(flatBar(new Date(Date.parse(last.bar.t) + shift).toISOString(), last.bar.c));
+        }
+    }
+    return { bars: result, filled };
+};
+
+// The data a run should use once `action` has been applied to every flagged symbol, with the report updated to
+// record it. 'exclude' drops flagged symbols; 'forwardFill' patches them and only drops those with nothing usable.
+export const applyDataQualityAction = (
+    data: { [symbol: string]: AlpacaBar[] },
+    report: DataQualityReport,
+    action: Exclude<DataQualityAction, 'abort'>
+): { data: { [symbol: string]: AlpacaBar[] }, report: DataQualityReport } => {
+    const result = { ...data };
+    const excludedSymbols: string[] = [];
+    let filledBars = 0;
+    for (const quality of report.symbols.filter(s => s.status !== 'ok')) {
+        const bars = data[quality.symbol];
+        const fill = action === 'forwardFill' && bars ? forwardFill(bars, quality, report.timeframe) : null;
+        if (fill && fill.bars.length >= MIN_BARS_PER_SYMBOL) {
+            result[quality.symbol] = fill.bars;
+            filledBars += fill.filled;
+        } else {
+            delete result[quality.symbol];
+            excludedSymbols.push(quality.symbol);
+        }
+    }
+    return { data: result, report: { ...report, action, excludedSymbols, filledBars } };
+};
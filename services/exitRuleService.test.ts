@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { AlpacaBar, ExitRules } from '../types';
+import { DEFAULT_EXIT_RULES } from '../constants';
+import { createExitState, findExitFills, getHoldingLimit, updateStops } from './exitRuleService';
+
+const bar = (o: number, h: number, l: number, c: number): AlpacaBar => ({ t: '', o, h, l, c, v: 0 });
+
+// A long of 100 units at 100 with its stop at 95 (1R = 5) and its final target at 110.
+const longPosition = (rules: ExitRules = DEFAULT_EXIT_RULES) => createExitState('LONG', 100, 95, 110, 100, rules);
+
+describe('findExitFills', () => {
+    it('fills a stop reached inside the bar at the stop price', () => {
+        expect(findExitFills(longPosition(), bar(99, 101, 94, 96), 1, 0)).toEqual([{ price: 95, quantity: 100, reason: 'SL' }]);
+    });
+
+    it('fills a target reached inside the bar at the target price', () => {
+        expect(findExitFills(longPosition(), bar(101, 112, 100, 111), 1, 0)).toEqual([{ price: 110, quantity: 100, reason: 'TP' }]);
+    });
+
+    it('fills at the open when the bar gaps through a level', () => {
+        expect(findExitFills(longPosition(), bar(90, 92, 89, 91), 1, 0)).toEqual([{ price: 90, quantity: 100, reason: 'SL' }]);
+        expect(findExitFills(longPosition(), bar(115, 116, 112, 114), 1, 0)).toEqual([{ price: 115, quantity: 100, reason: 'TP' }]);
+    });
+
+    it('lets the stop win when the stop and the target are both inside the bar', () => {
+        expect(findExitFills(longPosition(), bar(100, 111, 94, 100), 1, 0)).toEqual([{ price: 95, quantity: 100, reason: 'SL' }]);
+    });
+
+    it('works the levels mirrored for a short', () => {
+        const short = createExitState('SHORT', 100, 105, 90, 100, DEFAULT_EXIT_RULES);
+        expect(findExitFills(short, bar(101, 106, 100, 104), 1, 0)).toEqual([{ price: 105, quantity: 100, reason: 'SL' }]);
+        expect(findExitFills(createExitState('SHORT', 100, 105, 90, 100, DEFAULT_EXIT_RULES), bar(99, 100, 88, 89), 1, 0))
+            .toEqual([{ price: 90, quantity: 100, reason: 'TP' }]);
+    });
+
+    it('takes partial profits at their R multiples and the rest at the final target', () => {
+        const state = longPosition({ ...DEFAULT_EXIT_RULES, takeProfitLevels: [{ rMultiple: 1, percent: 50 }] });
+        expect(findExitFills(state, bar(101, 106, 100, 104), 1, 0)).toEqual([{ price: 105, quantity: 50, reason: 'PARTIAL_TP' }]);
+        expect(state.targets).toEqual([]);
+        expect(findExitFills({ ...state, quantity: 50 }, bar(104, 111, 103, 110), 2, 0)).toEqual([{ price: 110, quantity: 50, reason: 'TP' }]);
+    });
+
+    it('closes at the close once the time stop is reached', () => {
+        expect(findExitFills(longPosition(), bar(100, 101, 99, 100.5), 4, 5)).toEqual([]);
+        expect(findExitFills(longPosition(), bar(100, 101, 99, 100.5), 5, 5)).toEqual([{ price: 100.5, quantity: 100, reason: 'TIME' }]);
+    });
+});
+
+describe('getHoldingLimit', () => {
+    it('is the strictest limit that is on', () => {
+        expect(getHoldingLimit(0, 10, 5)).toBe(5);
+        expect(getHoldingLimit(0, 0)).toBe(0);
+    });
+});
+
+describe('updateStops', () => {
+    it('moves the stop to break-even once price has gone the given R in favour', () => {
+        const state = longPosition({ ...DEFAULT_EXIT_RULES, breakEvenAtR: 1 });
+        updateStops(state, bar(100, 104, 99, 103), null, { ...DEFAULT_EXIT_RULES, breakEvenAtR: 1 });
+        expect(state.stopLossPrice).toBe(95);
+        updateStops(state, bar(103, 105, 102, 104), null, { ...DEFAULT_EXIT_RULES, breakEvenAtR: 1 });
+        expect(state.stopLossPrice).toBe(100);
+        expect(state.stopReason).toBe('BREAK_EVEN');
+    });
+
+    it('trails the best price by ATR multiples and never loosens', () => {
+        const rules = { ...DEFAULT_EXIT_RULES, trailingStopAtr: 2 };
+        const state = longPosition(rules);
+        updateStops(state, bar(100, 108, 99, 107), 1, rules);
+        expect(state.stopLossPrice).toBe(106);
+        expect(state.stopReason).toBe('TRAILING_STOP');
+        updateStops(state, bar(107, 107, 100, 101), 3, rules);
+        expect(state.stopLossPrice).toBe(106);
+    });
+});
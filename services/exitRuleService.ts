@@ -0,0 +1,114 @@
+import { AlpacaBar, ExitReason, ExitRules, TradeSide } from '../types';
+
+type StopReason = Extract<ExitReason, 'SL' | 'BREAK_EVEN' | 'TRAILING_STOP'>;
+
+// The parts of an open position the exit rules read and move.
+export interface ExitState {
+    side: TradeSide;
+    entryPrice: number;
+    quantity: number; // Still open
+    riskPerUnit: number; // 1R: the distance from the entry to the initial stop
+    stopLossPrice: number; // Break-even and trailing rules only ever tighten it
+    stopReason: StopReason; // The rule that last moved the stop, reported if it fires
+    takeProfitPrice: number; // Final target for whatever the partial exits leave open
+    targets: { price: number, quantity: number }[]; // Partial take-profits still to fill, nearest first
+    bestPrice: number; // Most favourable price reached since entry
+}
+
+export interface ExitFill {
+    price: number;
+    quantity: number;
+    reason: ExitReason;
+}
+
+const getDirection = (side: TradeSide) => side === 'SHORT' ? -1 : 1;
+
+// True once `price` has reached `level` when moving in `direction` (1 = up, -1 = down).
+const hasReached = (price: number, level: number, direction: number) => direction * (price - level) >= 0;
+
+export const createExitState = (
+    side: TradeSide,
+    entryPrice: number,
+    stopLossPrice: number,
+    takeProfitPrice: number,
+    quantity: number,
+    rules: ExitRules
+): ExitState => {
+    const direction = getDirection(side);
+    const riskPerUnit = Math.abs(entryPrice - stopLossPrice);
+    let unallocated = quantity;
+    const targets = rules.takeProfitLevels
+        .filter(level => level.rMultiple > 0 && level.percent > 0)
+        .sort((a, b) => a.rMultiple - b.rMultiple)
+        .map(level => {
+            const targetQuantity = Math.min(unallocated, quantity * (level.percent / 100));
+            unallocated -= targetQuantity;
+            return { price: entryPrice + direction * level.rMultiple * riskPerUnit, quantity: targetQuantity };
+        })
+        .filter(target => target.quantity > 0);
+    return { side, entryPrice, quantity, riskPerUnit, stopLossPrice, stopReason: 'SL', takeProfitPrice, targets, bestPrice: entryPrice };
+};
+
+// The strictest of two time stops, where 0 means no limit.
+export const getHoldingLimit = (...limits: number[]): number => {
+    const active = limits.filter(limit => limit > 0);
+    return active.length > 0 ? Math.min(...active) : 0;
+};
+
+// Fills for one bar, consuming the partial targets they take. Levels are checked against the open first
+// (gaps fill at the open, not the level), then against the bar's range. If the stop and a target both sit
+// inside one bar we can't know the order, so the stop wins. The last fill always closes what is left.
+export const findExitFills = (state: ExitState, bar: AlpacaBar, barsHeld: number, maxHoldingBars: number): ExitFill[] => {
+    const direction = getDirection(state.side);
+    const adverseExtreme = state.side === 'LONG' ? bar.l : bar.h;
+    const favourableExtreme = state.side === 'LONG' ? bar.h : bar.l;
+    const fills: ExitFill[] = [];
+    let remaining = state.quantity;
+
+    const closeRest = (price: number, reason: ExitReason) => {
+        fills.push({ price, quantity: remaining, reason });
+        remaining = 0;
+        return fills;
+    };
+    const fillTargets = (extreme: number, fillPrice: (level: number) => number) => {
+        while (remaining > 0 && state.targets.length > 0 && hasReached(extreme, state.targets[0].price, direction)) {
+            const target = state.targets.shift()!;
+            if (target.quantity >= remaining * (1 - 1e-9)) {
+                closeRest(fillPrice(target.price), 'TP');
+            } else {
+                fills.push({ price: fillPrice(target.price), quantity: target.quantity, reason: 'PARTIAL_TP' });
+                remaining -= target.quantity;
+            }
+        }
+    };
+
+    if (hasReached(bar.o, state.stopLossPrice, -direction)) return closeRest(bar.o, state.stopReason);
+    fillTargets(bar.o, () => bar.o);
+    if (remaining <= 0) return fills;
+    if (hasReached(bar.o, state.takeProfitPrice, direction)) return closeRest(bar.o, 'TP');
+    if (hasReached(adverseExtreme, state.stopLossPrice, -direction)) return closeRest(state.stopLossPrice, state.stopReason);
+    fillTargets(favourableExtreme, level => level);
+    if (remaining <= 0) return fills;
+    if (hasReached(favourableExtreme, state.takeProfitPrice, direction)) return closeRest(state.takeProfitPrice, 'TP');
+    if (maxHoldingBars > 0 && barsHeld >= maxHoldingBars) return closeRest(bar.c, 'TIME');
+    return fills;
+};
+
+// Moves the stop after a bar closes, so a bar never trails against its own range. `atr` is the bar's ATR,
+// null while it is still warming up.
+export const updateStops = (state: ExitState, bar: AlpacaBar, atr: number | null, rules: ExitRules) => {
+    const direction = getDirection(state.side);
+    state.bestPrice = direction > 0 ? Math.max(state.bestPrice, bar.h) : Math.min(state.bestPrice, bar.l);
+    const tighten = (price: number, reason: StopReason) => {
+        if (direction * (price - state.stopLossPrice) > 0) {
+            state.stopLossPrice = price;
+            state.stopReason = reason;
+        }
+    };
+    if (rules.breakEvenAtR > 0 && direction * (state.bestPrice - state.entryPrice) >= rules.breakEvenAtR * state.riskPerUnit) {
+        tighten(state.entryPrice, 'BREAK_EVEN');
+    }
+    if (rules.trailingStopAtr > 0 && atr !== null) {
+        tighten(state.bestPrice - direction * rules.trailingStopAtr * atr, 'TRAILING_STOP');
+    }
+};
@@ -0,0 +1,274 @@
+import { AssetClass, BacktestResults, PerformanceDataPoint, RiskConstraint, Trade } from '../types';
+import { ALLOCATION_METHOD_LABELS, PRICE_ADJUSTMENT_LABELS, REBALANCE_FREQUENCY_LABELS, RISK_CONSTRAINT_LABELS } from '../constants';
+import { describeCommission, describeSlippage } from './costModelService';
+import { formatRiskLimit } from './riskLimitService';
+
+type Column<T> = [header: string, value: (row: T) => string | number | undefined | null];
+
+// Column order is part of the export format: spreadsheets read these files by position, so only ever
+// append new columns at the end.
+export const TRADE_COLUMNS: Column<Trade>[] = [
+    ['id', t => t.id],
+    ['symbol', t => t.symbol],
+    ['assetClass', t => t.assetClass],
+    ['side', t => t.side],
+    ['entryDate', t => t.entryDate],
+    ['exitDate', t => t.exitDate],
+    ['barsHeld', t => t.barsHeld],
+    ['holdingTime', t => t.holdingTime],
+    ['entryPrice', t => t.entryPrice],
+    ['exitPrice', t => t.exitPrice],
+    ['stopLossPrice', t => t.stopLossPrice],
+    ['takeProfitPrice', t => t.takeProfitPrice],
+    ['positionSize', t => t.positionSize],
+    ['value', t => t.value],
+    ['leverage', t => t.leverage],
+    ['rr', t => t.rr],
+    ['pnl', t => t.pnl],
+    ['pnlPercentage', t => t.pnlPercentage],
+    ['type', t => t.type],
+    ['exitReason', t => t.exitReason],
+    ['commission', t => t.commission],
+    ['slippage', t => t.slippage],
+    ['borrowCost', t => t.borrowCost],
+    ['marketImpact', t => t.marketImpact],
+    ['financingCost', t => t.financingCost],
+    ['dividends', t => t.dividends],
+];
+
+export const PERFORMANCE_COLUMNS: Column<PerformanceDataPoint>[] = [
+    ['date', p => p.date],
+    ['equity', p => p.strategy],
+    ['benchmark', p => p.sp500],
+    ['drawdown', p => p.drawdown],
+    ['cash', p => p.cash],
+    ['exposure', p => p.exposure],
+    ['marginUsed', p => p.marginUsed],
+    ['longExposure', p => p.longExposure],
+    ['shortExposure', p => p.shortExposure],
+];
+
+const escapeCsv = (value: string | number | undefined | null): string => {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeHtml = (value: string | number): string =>
+    String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const toCsv = <T>(rows: T[], columns: Column<T>[]): string =>
+    [columns.map(([header]) => header), ...rows.map(row => columns.map(([, value]) => escapeCsv(value(row))))]
+        .map(cells => cells.join(','))
+        .join('\r\n');
+
+// JSON rows carry the same keys in the same order as the CSV columns.
+export const toJsonRows = <T>(rows: T[], columns: Column<T>[]) =>
+    rows.map(row => Object.fromEntries(columns.map(([header, value]) => [header, value(row) ?? null])));
+
+export const buildResultsJson = (results: BacktestResults): string => JSON.stringify({
+    config: results.config,
+    trades: toJsonRows(results.allTrades, TRADE_COLUMNS),
+    performance: toJsonRows(results.performanceData, PERFORMANCE_COLUMNS),
+}, null, 2);
+
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 260;
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 64 };
+
+// A minimal SVG line chart, so the exported file needs no scripts or network access to render.
+const renderLineChart = (
+    dates: string[],
+    series: { label: string, color: string, values: number[], fill?: boolean }[],
+    formatTick: (value: number) => string,
+    markerDates: string[] = [] // Drawn as dashed vertical lines
+): string => {
+    const all = series.flatMap(s => s.values);
+    if (dates.length < 2 || all.length === 0) return '<p class="muted">Not enough data to chart.</p>';
+    const min = Math.min(...all);
+    const max = Math.max(...all);
+    const span = max - min || 1;
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (i: number) => CHART_PADDING.left + (i / (dates.length - 1)) * plotWidth;
+    const y = (v: number) => CHART_PADDING.top + (1 - (v - min) / span) * plotHeight;
+
+    const gridLines = [0, 0.25, 0.5, 0.75, 1].map(t => {
+        const value = min + t * span;
+        return `<line x1="${CHART_PADDING.left}" x2="${CHART_WIDTH - CHART_PADDING.right}" y1="${y(value)}" y2="${y(value)}" stroke="#ddd" />`
+            + `<text x="${CHART_PADDING.left - 6}" y="${y(value) + 4}" text-anchor="end">${escapeHtml(formatTick(value))}</text>`;
+    }).join('');
+    const dateLabels = [0, Math.floor((dates.length - 1) / 2), dates.length - 1]
+        .map((i, n) => `<text x="${x(i)}" y="${CHART_HEIGHT - 6}" text-anchor="${['start', 'middle', 'end'][n]}">${escapeHtml(dates[i])}</text>`)
+        .join('');
+    const baseline = y(Math.min(max, Math.max(min, 0))); // Filled areas run down (or up) to zero
+    const paths = series.map(s => {
+        const points = s.values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ');
+        const area = s.fill
+            ? `<polygon points="${x(0)},${baseline} ${points} ${x(s.values.length - 1)},${baseline}" fill="${s.color}" fill-opacity="0.15" />`
+            : '';
+        return `${area}<polyline points="${points}" fill="none" stroke="${s.color}" stroke-width="1.5" />`;
+    }).join('');
+    const markers = markerDates.map(date => dates.indexOf(date)).filter(i => i >= 0)
+        .map(i => `<line x1="${x(i)}" x2="${x(i)}" y1="${CHART_PADDING.top}" y2="${CHART_HEIGHT - CHART_PADDING.bottom}" stroke="#D29922" stroke-dasharray="4 2" />`)
+        .join('');
+    const legend = series.map(s => `<span class="legend"><i style="background:${s.color}"></i>${escapeHtml(s.label)}</span>`).join('')
+        + (markers ? '<span class="legend"><i style="background:#D29922"></i>Margin call</span>' : '');
+
+    return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">${gridLines}${dateLabels}${paths}${markers}</svg><div>${legend}</div>`;
+};
+
+const renderTable = (headers: string[], rows: (string | number)[][]): string =>
+    `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+    + `<tbody>${rows.map(r => `<tr>${r.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const STRATEGY_COLORS = ['#58A6FF', '#D29922', '#238636', '#DA3633', '#A371F7', '#3FB950', '#F778BA', '#8B949E'];
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const percent = (value: number, digits = 2) => `${value.toFixed(digits)}%`;
+
+const TEAR_SHEET_STYLES = `
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2328; margin: 32px; }
+h1 { margin-bottom: 4px; } h2 { margin-top: 32px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+.muted { color: #666; } .kpis { display: flex; flex-wrap: wrap; gap: 12px; }
+.kpi { border: 1px solid #ddd; border-radius: 6px; padding: 8px 12px; min-width: 140px; }
+.kpi b { display: block; font-size: 1.3em; }
+table { border-collapse: collapse; width: 100%; font-size: 0.85em; } th, td { border-bottom: 1px solid #eee; padding: 4px 6px; text-align: left; }
+th { background: #f6f8fa; } .chart { width: 100%; height: auto; font-size: 11px; fill: #666; }
+.legend { margin-right: 16px; font-size: 0.85em; } .legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+.feedback { background: #f6f8fa; border-left: 4px solid #58A6FF; padding: 8px 12px; }
+@media print { body { margin: 12mm; } h2 { break-after: avoid; } table, svg { break-inside: avoid; } }
+`;
+
+// A single HTML document with inline styles and SVG charts that opens anywhere, and prints cleanly to PDF.
+export const buildTearSheetHtml = (results: BacktestResults, title: string): string => {
+    const { config, summary, benchmarkStats, performanceData } = results;
+    const dates = performanceData.map(p => p.date);
+    const tradedAssetClasses = Array.from(new Set<AssetClass>(results.allTrades.map(t => t.assetClass as AssetClass)));
+    const attribution = results.strategyAttribution;
+    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+    const sections = [
+        `<h1>${escapeHtml(title)}</h1><p class="muted">Generated ${escapeHtml(new Date().toLocaleString())}. Prices: ${escapeHtml(PRICE_ADJUSTMENT_LABELS[config.priceAdjustment])}</p>`,
+        `<div class="kpis">${results.metrics.map(m => `<div class="kpi">${escapeHtml(m.label)}<b>${escapeHtml(m.value)}</b></div>`).join('')}</div>`,
+        '<h2>Configuration</h2>' + renderTable(['Setting', 'Value'], [
+            ['Period', `${config.startDate} to ${config.endDate}`],
+            ['Timeframe', config.timeframe],
+            ['Price Basis', PRICE_ADJUSTMENT_LABELS[config.priceAdjustment]],
+            ['Initial Capital', money(config.initialCapital)],
+            ['Short Borrow Fee', `${percent(config.borrowFeeRate)} / yr`],
+            ['Margin Financing', `${percent(config.financingRate)} / yr`],
+            ['Time Stop', config.maxHoldingBars > 0 ? `${config.maxHoldingBars} bars` : 'Off'],
+            ['Trend Bias Filter', config.useTrendBias ? 'On' : 'Off'],
+            ['Benchmark', config.benchmarkSymbol],
+            ...(attribution.length > 1 ? [
+                ['Capital Allocation', ALLOCATION_METHOD_LABELS[config.allocation.method]],
+                ['Rebalancing', REBALANCE_FREQUENCY_LABELS[config.allocation.rebalance]],
+            ] : []),
+        ]),
+        '<h2>Transaction Costs</h2>' + renderTable(
+            ['Asset Class', 'Commission', 'Slippage', 'Impact Coefficient'],
+            tradedAssetClasses.map(assetClass => {
+                const model = config.costModels[assetClass];
+                return [assetClass, describeCommission(model.commission), describeSlippage(model), model.impactCoefficient];
+            })
+        ) + renderTable(
+            ['Commission', 'Slippage', 'Market Impact', 'Borrow Fees', 'Financing', 'Total Costs'],
+            [[money(summary.totalCommission), money(summary.totalSlippage), money(summary.totalMarketImpact), money(summary.totalBorrowCost),
+                money(summary.totalFinancingCost), money(summary.totalCosts)]]
+        ),
+        '<h2>Risk Limits</h2>' + renderTable(
+            ['Constraint', 'Limit', 'Signals Rejected'],
+            (Object.keys(RISK_CONSTRAINT_LABELS) as RiskConstraint[]).map(constraint => [
+                RISK_CONSTRAINT_LABELS[constraint],
+                formatRiskLimit(constraint, config.riskLimits),
+                results.rejectedSignals[constraint],
+            ])
+        ),
+        `<h2>AI Stop Loss Feedback</h2><p class="feedback">${escapeHtml(results.stopLossFeedback)}</p>`,
+        '<h2>Equity vs. Benchmark</h2>' + renderLineChart(dates, [
+            { label: 'Strategy', color: '#58A6FF', values: performanceData.map(p => p.strategy) },
+            { label: config.benchmarkSymbol, color: '#8B949E', values: performanceData.map(p => p.sp500) },
+        ], v => `$${(v / 1000).toFixed(0)}k`, results.marginEvents.map(e => e.date)),
+        '<h2>Drawdown</h2>' + renderLineChart(dates, [
+            { label: 'Drawdown', color: '#DA3633', values: performanceData.map(p => -(p.drawdown || 0) * 100), fill: true },
+        ], v => percent(v, 1)),
+        '<h2>Trade Summary</h2>' + renderTable(
+            ['Trades', 'Wins', 'Losses', 'Win Rate', 'Avg Win', 'Avg Loss', 'Avg RR', 'Long P&L', 'Short P&L', 'Borrow Fees', 'Dividends'],
+            [[summary.trades, summary.wins, summary.losses, `${summary.winRate}%`, money(summary.avgWin), money(summary.avgLoss),
+                `${summary.avgRR.toFixed(2)}x`, money(summary.longPnl), money(summary.shortPnl), money(summary.totalBorrowCost), money(summary.totalDividends)]]
+        ),
+        `<h2>Relative to ${escapeHtml(config.benchmarkSymbol)}</h2>` + renderTable(
+            ['Sharpe', 'Benchmark Sharpe', 'Alpha', 'Beta', 'Correlation', 'Information Ratio', 'Tracking Error', 'Up Capture', 'Down Capture'],
+            [[benchmarkStats.sharpe.toFixed(2), benchmarkStats.benchmarkSharpe.toFixed(2), percent(benchmarkStats.alpha * 100),
+                benchmarkStats.beta.toFixed(2), benchmarkStats.correlation.toFixed(2), benchmarkStats.informationRatio.toFixed(2),
+                percent(benchmarkStats.trackingError * 100), percent(benchmarkStats.upCapture, 1), percent(benchmarkStats.downCapture, 1)]]
+        ),
+        `<h2>Margin Calls (${results.marginEvents.length})</h2>` + renderTable(
+            ['Date', 'Equity', 'Maintenance Requirement', 'Liquidated'],
+            results.marginEvents.map(e => [e.date, money(e.equity), money(e.maintenanceRequirement), e.liquidatedSymbols.join(', ') || 'None (markets closed)'])
+        ),
+        ...(attribution.length > 1 ? [
+            '<h2>Strategy Attribution</h2>' + renderTable(
+                ['Strategy', 'Start Weight', 'Rebalanced', 'Final Equity', 'P&L', 'Return', 'Contribution', 'Max Drawdown', 'Drawdown Contribution', 'Sharpe', 'Trades'],
+                attribution.map(a => [a.strategyName, percent(a.startingWeight, 1), money(a.netTransfers), money(a.finalEquity), money(a.pnl), percent(a.totalReturn),
+                    percent(a.contribution), percent(a.maxDrawdown), percent(a.drawdownContribution), a.sharpeRatio.toFixed(2), a.trades])
+            ) + renderLineChart(dates, attribution.map((a, i) => ({
+                label: a.strategyName,
+                color: STRATEGY_COLORS[i % STRATEGY_COLORS.length],
+                values: performanceData.map(p => a.startingCapital > 0 ? ((p.strategyEquity?.[a.strategyId] ?? a.startingCapital) / a.startingCapital - 1) * 100 : 0),
+            })), v => percent(v, 1)),
+            '<h2>Strategy Return Correlation</h2>' + renderTable(
+                ['', ...attribution.map(a => a.strategyName)],
+                attribution.map((a, i) => [a.strategyName, ...(results.strategyCorrelations[i] ?? []).map(c => c.toFixed(2))])
+            ),
+        ] : []),
+        '<h2>Monthly Returns (%)</h2>' + renderTable(
+            ['Year', ...months, 'Year'],
+            results.monthlyReturns.map(row => [row.year, ...row.months.map(m => m === null ? '' : m.toFixed(1)), row.total.toFixed(1)])
+        ),
+        '<h2>Worst Drawdown Periods</h2>' + renderTable(
+            ['Depth', 'Start', 'Trough', 'Recovery', 'Duration'],
+            results.drawdownPeriods.slice(0, 10).map(d => [percent(d.depth * 100), d.start, d.trough, d.recovery ?? 'Not recovered', `${d.durationBars} bars (${d.durationDays}d)`])
+        ),
+        '<h2>Exposure by Asset Class</h2>' + renderTable(
+            ['Asset Class', 'Avg Exposure', '% of Equity', 'Time in Market', 'Trades', 'P&L'],
+            results.exposureByAssetClass.map(e => [e.assetClass, money(e.averageExposure), percent(e.averageExposurePercent),
+                percent(e.timeInMarket * 100, 1), e.trades, money(e.pnl)])
+        ),
+        `<h2>Trade Log (${results.allTrades.length} trades)</h2>` + renderTable(
+            ['Symbol', 'Side', 'Entry', 'Exit', 'Entry Price', 'Exit Price', 'P&L', 'Return', 'Exit Reason'],
+            results.allTrades.map(t => [t.symbol, t.side, t.entryDate ?? '', t.exitDate ?? '', t.entryPrice.toFixed(4), t.exitPrice.toFixed(4),
+                money(t.pnl), percent(t.pnlPercentage), t.exitReason])
+        ),
+    ];
+
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${TEAR_SHEET_STYLES}</style></head>`
+        + `<body>${sections.join('\n')}</body></html>`;
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Opens the tear sheet in a new window and hands it to the browser's print dialog, where "Save as PDF" is built in.
+export const printTearSheet = (html: string) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        throw new Error('The print window was blocked. Allow pop-ups for this site to export a PDF.');
+    }
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print(); // Everything is inline, so the document is complete as soon as it is written
+};
+
+export const getExportFilename = (results: BacktestResults, suffix: string, extension: string) =>
+    `backtest_${results.config.startDate}_${results.config.endDate}_${suffix}.${extension}`;
@@ -24,8 +24,8 @@ export const enrichNewsArticles = async (articles: AlpacaNewsArticle[]): Promise
     }));
 };
 
-export const getScreenerData = async (): Promise<Omit<ScreenerResult, 'price' | 'change1D' | 'volume'>[]> => {
-    const response = await getInternal<Omit<ScreenerResult, 'price' | 'change1D' | 'volume'>[]>('/api/gemini/screener-data');
+export const getScreenerData = async (): Promise<Omit<ScreenerResult, 'price' | 'change1D' | 'volume' | 'rsi' | 'smaFastDistance'>[]> => {
+    const response = await getInternal<Omit<ScreenerResult, 'price' | 'change1D' | 'volume' | 'rsi' | 'smaFastDistance'>[]>('/api/gemini/screener-data');
     if (response.success && response.data) {
         return response.data;
     }
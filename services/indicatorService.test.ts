@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import { AlpacaBar, Indicator } from '../types';
+import {
+    calculateADX, calculateATR, calculateBollingerBands, calculateEMA, calculateMACD, calculateOBV, calculateRSI, calculateSMA,
+    calculateStochastic, computeIndicators, getIndicatorWarmupBars, IndicatorSeries,
+} from './indicatorService';
+
+const bar = (h: number, l: number, c: number, v = 0): AlpacaBar => ({ t: '', o: c, h, l, c, v });
+const closeBars = (closes: number[]) => closes.map(c => bar(c, c, c));
+
+// Published tables are rounded to two decimals, so by default a value may be off by half a cent.
+const expectSeries = (actual: IndicatorSeries, expected: (number | null)[], tolerance = 0.005 + 1e-9) => {
+    expect(actual).toHaveLength(expected.length);
+    expected.forEach((value, i) => {
+        if (value === null) expect(actual[i], `index ${i}`).toBeNull();
+        else expect(Math.abs(actual[i]! - value), `index ${i}: ${actual[i]} vs ${value}`).toBeLessThanOrEqual(tolerance);
+    });
+};
+
+const nulls = (count: number) => new Array(count).fill(null);
+
+// StockCharts' 10-day moving average example ("Moving Averages - Simple and Exponential").
+const STOCKCHARTS_MA_CLOSES = [
+    22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61, 23.36,
+    24.05, 23.75, 23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17,
+];
+
+// StockCharts' 14-period RSI example ("Relative Strength Index (RSI)").
+const STOCKCHARTS_RSI_CLOSES = [
+    44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826, 45.8931, 46.0328, 45.6140, 46.2820,
+    46.2820, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439, 46.2122, 46.2521, 45.7137, 46.4515, 45.7835, 45.3548, 44.0288, 44.1783,
+    44.2181, 44.5672, 43.4205, 42.6628, 43.1314,
+];
+
+describe('calculateSMA', () => {
+    it('matches the published 10-day SMA', () => {
+        expectSeries(calculateSMA(STOCKCHARTS_MA_CLOSES, 10), [
+            ...nulls(9), 22.22, 22.21, 22.23, 22.26, 22.30, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21,
+            23.38, 23.53, 23.65, 23.71, 23.68, 23.61, 23.50, 23.43, 23.28, 23.13,
+        ]);
+    });
+
+    it('treats nulls as warm-up and restarts the window after them', () => {
+        expectSeries(calculateSMA([1, 2, null, 3, 4, 5], 2), [null, 1.5, null, null, 3.5, 4.5]);
+    });
+
+    it('rejects periods that are not positive integers', () => {
+        expect(() => calculateSMA([1, 2, 3], 0)).toThrow('SMA period');
+        expect(() => calculateSMA([1, 2, 3], 1.5)).toThrow('SMA period');
+    });
+});
+
+describe('calculateEMA', () => {
+    it('matches the published 10-day EMA, seeded with the SMA', () => {
+        expectSeries(calculateEMA(STOCKCHARTS_MA_CLOSES, 10), [
+            ...nulls(9), 22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34,
+            23.43, 23.51, 23.53, 23.47, 23.40, 23.39, 23.26, 23.23, 23.08, 22.92,
+        ]);
+    });
+
+    it('starts after leading nulls and carries over later ones', () => {
+        expectSeries(calculateEMA([null, 2, 4, null, 6], 2), [null, null, 3, null, 5]);
+    });
+});
+
+describe('calculateRSI', () => {
+    it('matches the published 14-period Wilder RSI', () => {
+        expectSeries(calculateRSI(closeBars(STOCKCHARTS_RSI_CLOSES), 14), [
+            ...nulls(14), 70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99,
+            41.46, 41.87, 45.46, 37.30, 33.08, 37.77,
+        ]);
+    });
+
+    it('Wilder-smooths the averages after the first simple mean', () => {
+        // Gains of 1 for two bars, then a loss of 2: averages 1 and 0, then (1 + 0) / 2 and (0 + 2) / 2.
+        expectSeries(calculateRSI(closeBars([10, 11, 12, 10]), 2), [null, null, 100, 100 - 100 / 1.5], 1e-9);
+    });
+
+    it('is 50 on a flat series and null when there are too few bars', () => {
+        expectSeries(calculateRSI(closeBars([5, 5, 5, 5]), 2), [null, null, 50, 50]);
+        expectSeries(calculateRSI(closeBars([1, 2]), 2), [null, null]);
+    });
+});
+
+describe('calculateMACD', () => {
+    // An EMA of a straight line seeded with its SMA lags it by exactly (period - 1) / 2, so MACD(12, 26) is
+    // (25 - 11) / 2 = 7 from the slow EMA's first value, its signal line the same and the histogram zero.
+    it('gives the analytic values on a straight line', () => {
+        const { macd, signal, histogram } = calculateMACD(closeBars(Array.from({ length: 40 }, (_, i) => i)), 12, 26, 9);
+        expectSeries(macd, [...nulls(25), ...new Array(15).fill(7)], 1e-9);
+        expectSeries(signal, [...nulls(33), ...new Array(7).fill(7)], 1e-9);
+        expectSeries(histogram, [...nulls(33), ...new Array(7).fill(0)], 1e-9);
+    });
+
+    it('rejects a fast period that is not shorter than the slow one', () => {
+        expect(() => calculateMACD(closeBars([1, 2, 3]), 26, 12, 9)).toThrow('MACD fast period');
+    });
+});
+
+describe('calculateBollingerBands', () => {
+    // The textbook population standard deviation example: mean 5, standard deviation 2.
+    it('uses the population standard deviation', () => {
+        const { upper, middle, lower } = calculateBollingerBands(closeBars([2, 4, 4, 4, 5, 5, 7, 9]), 8, 2);
+        expectSeries(middle, [...nulls(7), 5]);
+        expectSeries(upper, [...nulls(7), 9]);
+        expectSeries(lower, [...nulls(7), 1]);
+    });
+});
+
+describe('calculateATR', () => {
+    // Every bar spans 2 with no gap, then one bar gaps down from 25 to a true range of 15.
+    const bars = [...Array.from({ length: 16 }, (_, i) => bar(11 + i, 9 + i, 10 + i)), bar(12, 10, 11), bar(13, 11, 12)];
+
+    it('starts with the mean true range from the second bar and Wilder-smooths after it', () => {
+        expectSeries(calculateATR(bars, 14), [...nulls(14), 2, 2, (2 * 13 + 15) / 14, ((2 * 13 + 15) / 14 * 13 + 2) / 14], 1e-9);
+    });
+
+    it('is all null until there are more bars than the period', () => {
+        expectSeries(calculateATR(bars.slice(0, 14), 14), nulls(14));
+    });
+});
+
+describe('calculateStochastic', () => {
+    it('computes %K from the period range and %D as its moving average', () => {
+        const bars = [bar(10, 8, 9), bar(11, 9, 10), bar(12, 10, 11), bar(11, 9, 9), bar(13, 10, 12)];
+        const { k, d } = calculateStochastic(bars, 3, 3, 1);
+        expectSeries(k, [null, null, 75, 0, 75]);
+        expectSeries(d, [null, null, null, null, 50]);
+    });
+
+    it('reads 50 when the range is flat', () => {
+        expectSeries(calculateStochastic(closeBars([5, 5, 5]), 3, 1, 1).k, [null, null, 50]);
+    });
+});
+
+describe('calculateADX', () => {
+    // 30 bars each 1 higher than the last with a range of 2, then bars each 1 lower. The true range is always 2,
+    // so the smoothed true range stays at 28, +DI is 50 through the uptrend and both DIs follow Wilder's decay
+    // by 13/14 a bar once it turns: +DI = 50 (13/14)^n and -DI = 50 (1 - (13/14)^n).
+    const up = Array.from({ length: 30 }, (_, i) => bar(11 + i, 9 + i, 10 + i));
+    const down = Array.from({ length: 10 }, (_, i) => bar(39 - i, 37 - i, 38 - i));
+    const { adx, plusDI, minusDI } = calculateADX([...up, ...down], 14);
+
+    it('gives the analytic DIs through the trend and its reversal', () => {
+        const decay = (n: number) => Math.pow(13 / 14, n);
+        expectSeries(plusDI, [...nulls(14), ...new Array(16).fill(50), ...down.map((_, i) => 50 * decay(i + 1))], 1e-9);
+        expectSeries(minusDI, [...nulls(14), ...new Array(16).fill(0), ...down.map((_, i) => 50 * (1 - decay(i + 1)))], 1e-9);
+    });
+
+    it('starts at bar 2 × period − 1 and Wilder-smooths DX after that', () => {
+        expectSeries(adx.slice(0, 30), [...nulls(27), 100, 100, 100]);
+        for (let i = 30; i < 40; i++) {
+            const dx = Math.abs(plusDI[i]! - minusDI[i]!) / (plusDI[i]! + minusDI[i]!) * 100;
+            expect(adx[i]).toBeCloseTo((adx[i - 1]! * 13 + dx) / 14, 9);
+        }
+    });
+});
+
+describe('calculateOBV', () => {
+    it('adds volume on up closes and subtracts it on down closes', () => {
+        const bars = [bar(10, 10, 10, 100), bar(11, 11, 11, 200), bar(11, 11, 11, 300), bar(9, 9, 9, 50)];
+        expectSeries(calculateOBV(bars), [0, 200, 200, 150]);
+    });
+});
+
+describe('computeIndicators', () => {
+    // A long, uneven series so that every indicator produces values.
+    const bars = Array.from({ length: 300 }, (_, i) => {
+        const close = 100 + 10 * Math.sin(i / 7) + i / 10;
+        return bar(close + 1 + (i % 3), close - 1 - (i % 2), close, 1000 + i);
+    });
+    const set = computeIndicators(bars, Object.values(Indicator));
+    const firstValues: { [key in Indicator]: IndicatorSeries | undefined } = {
+        [Indicator.RSI]: set.rsi,
+        [Indicator.MACD]: set.macd?.signal,
+        [Indicator.BollingerBands]: set.bollingerBands?.middle,
+        [Indicator.ATR]: set.atr,
+        [Indicator.Stochastic]: set.stochastic?.d,
+        [Indicator.ADX]: set.adx?.adx,
+        [Indicator.OBV]: set.obv,
+        [Indicator.SMA50]: set.smaFast,
+        [Indicator.SMA200]: set.smaSlow,
+    };
+
+    it.each(Object.values(Indicator))('first produces %s after its warm-up bars', indicator => {
+        const series = firstValues[indicator]!;
+        expect(series).toHaveLength(bars.length);
+        expect(series.findIndex(v => v !== null)).toBe(getIndicatorWarmupBars(indicator));
+        expect(series.slice(getIndicatorWarmupBars(indicator)).every(v => v !== null && Number.isFinite(v))).toBe(true);
+    });
+
+    it('only computes the requested indicators, with overridden periods', () => {
+        const partial = computeIndicators(bars, [Indicator.RSI], { rsiPeriod: 5 });
+        expect(Object.keys(partial)).toEqual(['rsi']);
+        expect(partial.rsi!.findIndex(v => v !== null)).toBe(5);
+    });
+});
@@ -0,0 +1,342 @@
+import { AlpacaBar, Indicator, IndicatorParams } from '../types';
+import { DEFAULT_INDICATOR_PARAMS } from '../constants';
+
+// Every series returned here is aligned index-for-index with the input bars.
+// Values are `null` while the indicator is still warming up (i.e. before enough
+// bars exist to produce a meaningful value), so callers never have to guess offsets.
+export type IndicatorSeries = (number | null)[];
+
+export interface MACDResult {
+    macd: IndicatorSeries;
+    signal: IndicatorSeries;
+    histogram: IndicatorSeries;
+}
+
+export interface BollingerBandsResult {
+    upper: IndicatorSeries;
+    middle: IndicatorSeries;
+    lower: IndicatorSeries;
+}
+
+export interface StochasticResult {
+    k: IndicatorSeries;
+    d: IndicatorSeries;
+}
+
+export interface ADXResult {
+    adx: IndicatorSeries;
+    plusDI: IndicatorSeries;
+    minusDI: IndicatorSeries;
+}
+
+export interface IndicatorSet {
+    rsi?: IndicatorSeries;
+    macd?: MACDResult;
+    bollingerBands?: BollingerBandsResult;
+    atr?: IndicatorSeries;
+    stochastic?: StochasticResult;
+    adx?: ADXResult;
+    obv?: IndicatorSeries;
+    smaFast?: IndicatorSeries;
+    smaSlow?: IndicatorSeries;
+}
+
+const emptySeries = (length: number): IndicatorSeries => new Array(length).fill(null);
+
+const assertPeriod = (period: number, name: string) => {
+    if (!Number.isInteger(period) || period < 1) {
+        throw new Error(`${name} must be a positive integer, received ${period}.`);
+    }
+};
+
+// --- Moving averages (operate on plain value arrays, nulls are treated as warm-up) ---
+
+export const calculateSMA = (values: (number | null)[], period: number): IndicatorSeries => {
+    assertPeriod(period, 'SMA period');
+    const result = emptySeries(values.length);
+    let sum = 0;
+    let validCount = 0;
+
+    for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        if (value === null) {
+            sum = 0;
+            validCount = 0;
+            continue;
+        }
+        sum += value;
+        validCount++;
+        if (validCount > period) {
+            sum -= values[i - period] as number;
+            validCount = period;
+        }
+        if (validCount === period) {
+            result[i] = sum / period;
+        }
+    }
+    return result;
+};
+
+// EMA seeded with the SMA of the first `period` valid values (the convention used by most charting packages).
+export const calculateEMA = (values: (number | null)[], period: number): IndicatorSeries => {
+    assertPeriod(period, 'EMA period');
+    const result = emptySeries(values.length);
+    const alpha = 2 / (period + 1);
+    const firstValid = values.findIndex(v => v !== null);
+    if (firstValid === -1 || values.length - firstValid < period) return result;
+
+    let seed = 0;
+    for (let i = firstValid; i < firstValid + period; i++) seed += values[i] as number;
+    let ema = seed / period;
+    result[firstValid + period - 1] = ema;
+
+    for (let i = firstValid + period; i < values.length; i++) {
+        const value = values[i];
+        if (value === null) continue;
+        ema = (value - ema) * alpha + ema;
+        result[i] = ema;
+    }
+    return result;
+};
+
+const rollingStdDev = (values: number[], means: IndicatorSeries, period: number): IndicatorSeries => {
+    return means.map((mean, i) => {
+        if (mean === null) return null;
+        let variance = 0;
+        for (let j = i - period + 1; j <= i; j++) variance += Math.pow(values[j] - mean, 2);
+        return Math.sqrt(variance / period); // Population standard deviation, as in Bollinger's definition
+    });
+};
+
+const trueRange = (bars: AlpacaBar[]): number[] => bars.map((bar, i) => {
+    if (i === 0) return bar.h - bar.l;
+    const prevClose = bars[i - 1].c;
+    return Math.max(bar.h - bar.l, Math.abs(bar.h - prevClose), Math.abs(bar.l - prevClose));
+});
+
+// --- Indicators ---
+
+// Wilder's RSI: the first average gain/loss is a simple mean, subsequent values are Wilder-smoothed.
+export const calculateRSI = (bars: AlpacaBar[], period = DEFAULT_INDICATOR_PARAMS.rsiPeriod): IndicatorSeries => {
+    assertPeriod(period, 'RSI period');
+    const result = emptySeries(bars.length);
+    if (bars.length <= period) return result;
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+        const change = bars[i].c - bars[i - 1].c;
+        if (change > 0) avgGain += change;
+        else avgLoss -= change;
+    }
+    avgGain /= period;
+    avgLoss /= period;
+
+    const toRsi = (gain: number, loss: number) => loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss);
+    result[period] = toRsi(avgGain, avgLoss);
+
+    for (let i = period + 1; i < bars.length; i++) {
+        const change = bars[i].c - bars[i - 1].c;
+        avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+        avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+        result[i] = toRsi(avgGain, avgLoss);
+    }
+    return result;
+};
+
+export const calculateMACD = (
+    bars: AlpacaBar[],
+    fastPeriod = DEFAULT_INDICATOR_PARAMS.macdFastPeriod,
+    slowPeriod = DEFAULT_INDICATOR_PARAMS.macdSlowPeriod,
+    signalPeriod = DEFAULT_INDICATOR_PARAMS.macdSignalPeriod
+): MACDResult => {
+    if (fastPeriod >= slowPeriod) {
+        throw new Error(`MACD fast period (${fastPeriod}) must be shorter than the slow period (${slowPeriod}).`);
+    }
+    const closes = bars.map(b => b.c);
+    const fast = calculateEMA(closes, fastPeriod);
+    const slow = calculateEMA(closes, slowPeriod);
+    const macd = closes.map((_, i) => fast[i] !== null && slow[i] !== null ? (fast[i] as number) - (slow[i] as number) : null);
+    const signal = calculateEMA(macd, signalPeriod);
+    const histogram = macd.map((value, i) => value !== null && signal[i] !== null ? value - (signal[i] as number) : null);
+    return { macd, signal, histogram };
+};
+
+export const calculateBollingerBands = (
+    bars: AlpacaBar[],
+    period = DEFAULT_INDICATOR_PARAMS.bollingerPeriod,
+    stdDevMultiplier = DEFAULT_INDICATOR_PARAMS.bollingerStdDev
+): BollingerBandsResult => {
+    const closes = bars.map(b => b.c);
+    const middle = calculateSMA(closes, period);
+    const deviations = rollingStdDev(closes, middle, period);
+    return {
+        upper: middle.map((m, i) => m === null ? null : m + stdDevMultiplier * (deviations[i] as number)),
+        middle,
+        lower: middle.map((m, i) => m === null ? null : m - stdDevMultiplier * (deviations[i] as number)),
+    };
+};
+
+// Wilder's ATR: first value is the mean of the first `period` true ranges (from bar 1, which has a previous close).
+export const calculateATR = (bars: AlpacaBar[], period = DEFAULT_INDICATOR_PARAMS.atrPeriod): IndicatorSeries => {
+    assertPeriod(period, 'ATR period');
+    const result = emptySeries(bars.length);
+    if (bars.length <= period) return result;
+
+    const tr = trueRange(bars);
+    let atr = 0;
+    for (let i = 1; i <= period; i++) atr += tr[i];
+    atr /= period;
+    result[period] = atr;
+
+    for (let i = period + 1; i < bars.length; i++) {
+        atr = (atr * (period - 1) + tr[i]) / period;
+        result[i] = atr;
+    }
+    return result;
+};
+
+export const calculateStochastic = (
+    bars: AlpacaBar[],
+    kPeriod = DEFAULT_INDICATOR_PARAMS.stochasticKPeriod,
+    dPeriod = DEFAULT_INDICATOR_PARAMS.stochasticDPeriod,
+    smoothing = DEFAULT_INDICATOR_PARAMS.stochasticSmoothing
+): StochasticResult => {
+    assertPeriod(kPeriod, 'Stochastic %K period');
+    const rawK = emptySeries(bars.length);
+    for (let i = kPeriod - 1; i < bars.length; i++) {
+        let highest = -Infinity;
+        let lowest = Infinity;
+        for (let j = i - kPeriod + 1; j <= i; j++) {
+            highest = Math.max(highest, bars[j].h);
+            lowest = Math.min(lowest, bars[j].l);
+        }
+        const range = highest - lowest;
+        rawK[i] = range === 0 ? 50 : ((bars[i].c - lowest) / range) * 100;
+    }
+    const k = smoothing > 1 ? calculateSMA(rawK, smoothing) : rawK;
+    return { k, d: calculateSMA(k, dPeriod) };
+};
+
+export const calculateADX = (bars: AlpacaBar[], period = DEFAULT_INDICATOR_PARAMS.adxPeriod): ADXResult => {
+    assertPeriod(period, 'ADX period');
+    const adx = emptySeries(bars.length);
+    const plusDI = emptySeries(bars.length);
+    const minusDI = emptySeries(bars.length);
+    if (bars.length <= period * 2 - 1) return { adx, plusDI, minusDI };
+
+    const tr = trueRange(bars);
+    const plusDM: number[] = [0];
+    const minusDM: number[] = [0];
+    for (let i = 1; i < bars.length; i++) {
+        const upMove = bars[i].h - bars[i - 1].h;
+        const downMove = bars[i - 1].l - bars[i].l;
+        plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+        minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+    }
+
+    let smoothedTR = 0, smoothedPlusDM = 0, smoothedMinusDM = 0;
+    for (let i = 1; i <= period; i++) {
+        smoothedTR += tr[i];
+        smoothedPlusDM += plusDM[i];
+        smoothedMinusDM += minusDM[i];
+    }
+
+    const dx: number[] = [];
+    for (let i = period; i < bars.length; i++) {
+        if (i > period) {
+            smoothedTR = smoothedTR - smoothedTR / period + tr[i];
+            smoothedPlusDM = smoothedPlusDM - smoothedPlusDM / period + plusDM[i];
+            smoothedMinusDM = smoothedMinusDM - smoothedMinusDM / period + minusDM[i];
+        }
+        const pdi = smoothedTR === 0 ? 0 : (smoothedPlusDM / smoothedTR) * 100;
+        const mdi = smoothedTR === 0 ? 0 : (smoothedMinusDM / smoothedTR) * 100;
+        plusDI[i] = pdi;
+        minusDI[i] = mdi;
+        dx.push(pdi + mdi === 0 ? 0 : (Math.abs(pdi - mdi) / (pdi + mdi)) * 100);
+    }
+
+    // The first ADX is the mean of the first `period` DX values; later values are Wilder-smoothed.
+    let currentAdx = dx.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+    adx[period * 2 - 1] = currentAdx;
+    for (let j = period; j < dx.length; j++) {
+        currentAdx = (currentAdx * (period - 1) + dx[j]) / period;
+        adx[period + j] = currentAdx;
+    }
+    return { adx, plusDI, minusDI };
+};
+
+export const calculateOBV = (bars: AlpacaBar[]): IndicatorSeries => {
+    let obv = 0;
+    return bars.map((bar, i) => {
+        if (i > 0) {
+            if (bar.c > bars[i - 1].c) obv += bar.v;
+            else if (bar.c < bars[i - 1].c) obv -= bar.v;
+        }
+        return obv;
+    });
+};
+
+// Number of bars an indicator needs before its first non-null value.
+export const getIndicatorWarmupBars = (indicator: Indicator, params: IndicatorParams = DEFAULT_INDICATOR_PARAMS): number => {
+    switch (indicator) {
+        case Indicator.RSI: return params.rsiPeriod;
+        case Indicator.MACD: return params.macdSlowPeriod + params.macdSignalPeriod - 2;
+        case Indicator.BollingerBands: return params.bollingerPeriod - 1;
+        case Indicator.ATR: return params.atrPeriod;
+        case Indicator.Stochastic: return params.stochasticKPeriod + params.stochasticSmoothing + params.stochasticDPeriod - 3;
+        case Indicator.ADX: return params.adxPeriod * 2 - 1;
+        case Indicator.OBV: return 0;
+        case Indicator.SMA50: return params.smaFastPeriod - 1;
+        case Indicator.SMA200: return params.smaSlowPeriod - 1;
+    }
+};
+
+export const resolveIndicatorParams = (overrides?: Partial<IndicatorParams>): IndicatorParams => ({
+    ...DEFAULT_INDICATOR_PARAMS,
+    ...overrides,
+});
+
+// Computes every requested indicator over a bar series in one pass over the enum.
+export const computeIndicators = (
+    bars: AlpacaBar[],
+    indicators: Indicator[],
+    overrides?: Partial<IndicatorParams>
+): IndicatorSet => {
+    const params = resolveIndicatorParams(overrides);
+    const closes = bars.map(b => b.c);
+    const set: IndicatorSet = {};
+
+    for (const indicator of new Set(indicators)) {
+        switch (indicator) {
+            case Indicator.RSI:
+                set.rsi = calculateRSI(bars, params.rsiPeriod);
+                break;
+            case Indicator.MACD:
+                set.macd = calculateMACD(bars, params.macdFastPeriod, params.macdSlowPeriod, params.macdSignalPeriod);
+                break;
+            case Indicator.BollingerBands:
+                set.bollingerBands = calculateBollingerBands(bars, params.bollingerPeriod, params.bollingerStdDev);
+                break;
+            case Indicator.ATR:
+                set.atr = calculateATR(bars, params.atrPeriod);
+                break;
+            case Indicator.Stochastic:
+                set.stochastic = calculateStochastic(bars, params.stochasticKPeriod, params.stochasticDPeriod, params.stochasticSmoothing);
+                break;
+            case Indicator.ADX:
+                set.adx = calculateADX(bars, params.adxPeriod);
+                break;
+            case Indicator.OBV:
+                set.obv = calculateOBV(bars);
+                break;
+            case Indicator.SMA50:
+                set.smaFast = calculateSMA(closes, params.smaFastPeriod);
+                break;
+            case Indicator.SMA200:
+                set.smaSlow = calculateSMA(closes, params.smaSlowPeriod);
+                break;
+        }
+    }
+    return set;
+};
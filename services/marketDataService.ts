@@ -1,16 +1,44 @@
 
-import { PerformanceDataPoint, AlpacaBar, AlpacaSnapshot, BackendResponse, AlpacaNewsArticle, AlpacaCryptoBar, AlpacaForexBar } from '../types';
-import { get, postInternal } from './backendService';
+import { PerformanceDataPoint, AlpacaBar, AlpacaSnapshot, BackendResponse, AlpacaNewsArticle, AlpacaCryptoBar, AlpacaForexBar, CorporateAction, PriceAdjustment } from '../types';
+import { DEFAULT_PRICE_ADJUSTMENT } from '../constants';
+import { getInternal, postInternal } from './backendService';
+import { applyPriceAdjustment } from './priceAdjustmentService';
 
 const getISODate = (date: Date) => date.toISOString().split('T')[0];
 
-const isUSStock = (symbol: string) => !symbol.includes('/') && !symbol.startsWith('^') && !symbol.includes('=') && !symbol.includes('.');
+interface MarketDataBars<T> {
+    bars: { [symbol: string]: T[] };
+    sources: { [symbol: string]: string };
+    staleSymbols: string[];
+    errors: { [symbol: string]: string };
+}
+
+// The server picks a provider per symbol from its routing table and always answers with split-adjusted bars.
+const fetchBars = async <T>(symbols: string[], start: string, end: string, timeframe: string) => {
+    const result = await postInternal<MarketDataBars<T>>('/api/market-data/bars', { symbols, startDate: start, endDate: end, timeframe });
+    if (result.success && result.data) {
+        const { sources, staleSymbols, errors } = result.data;
+        console.log('Market data sources:', sources);
+        if (staleSymbols.length > 0) console.warn(`Providers unreachable; using cached bars for ${staleSymbols.join(', ')}.`);
+        Object.entries(errors).forEach(([symbol, message]) => console.warn(`No bars for ${symbol}: ${message}`));
+    }
+    return result;
+};
+
+// Splits and dividends from `start` to today, since splits after the requested range still rescale its prices.
+const fetchCorporateActions = async (symbols: string[], start: string): Promise<{ [symbol: string]: CorporateAction[] }> => {
+    const result = await postInternal<{ [symbol: string]: CorporateAction[] }>('/api/market-data/corporate-actions', { symbols, startDate: start });
+    if (result.success && result.data) return result.data;
+    console.warn('Corporate actions request failed. Dividends and splits will be missing:', result.error?.message);
+    return {};
+};
 
 export const fetchStockHistoricalData = async (
   symbols: string[],
   start?: string,
   end?: string,
-  timeframe: string = '1Day'
+  timeframe: string = '1Day',
+  adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
 ): Promise<BackendResponse<{ [symbol: string]: AlpacaBar[] }>> => {
 
     let finalStart = start;
@@ -23,149 +51,54 @@ export const fetchStockHistoricalData = async (
         finalEnd = getISODate(endDateObj);
         finalStart = getISODate(startDateObj);
     }
-    
-    const combinedData: { [symbol: string]: AlpacaBar[] } = {};
-    const symbolsForAlpaca: string[] = [];
-    let symbolsForNodeServer: string[] = [];
-
-    // --- 1. Smartly pre-sort symbols to their best data source ---
-    for (const symbol of symbols) {
-        if (isUSStock(symbol)) {
-            symbolsForAlpaca.push(symbol);
-        } else {
-            symbolsForNodeServer.push(symbol); // Indices, Forex, international stocks go straight to our backend
-        }
-    }
-    
-    // --- 2. Fetch from Alpaca (US stocks only) ---
-    if (symbolsForAlpaca.length > 0) {
-        console.log(`Fetching data for ${symbolsForAlpaca.length} US stock(s) from Alpaca...`);
-        const symbolsQuery = symbolsForAlpaca.map(encodeURIComponent).join(',');
-        const alpacaResult = await get<{ bars: { [symbol: string]: AlpacaBar[] } }>({
-            endpoint: `/v2/stocks/bars?symbols=${symbolsQuery}&timeframe=${timeframe}&start=${finalStart}&end=${finalEnd}&adjustment=raw&feed=iex`,
-            isDataEndpoint: true
-        });
 
-        if (alpacaResult.success && alpacaResult.data?.bars) {
-            const alpacaBars = alpacaResult.data.bars;
-            const failedSymbols: string[] = [];
-            symbolsForAlpaca.forEach(symbol => {
-                if (alpacaBars[symbol] && alpacaBars[symbol].length > 0) {
-                    combinedData[symbol] = alpacaBars[symbol];
-                } else {
-                    failedSymbols.push(symbol);
-                }
-            });
-            
-            if (failedSymbols.length > 0) {
-                 symbolsForNodeServer.push(...failedSymbols); // Only failed US stocks get retried on our backend
-                 console.log(`Alpaca succeeded for ${Object.keys(alpacaBars).length - failedSymbols.length} symbols. Retrying ${failedSymbols.length} on internal backend.`);
-            }
-        } else {
-            console.warn(`Alpaca batch request failed. Adding all ${symbolsForAlpaca.length} US stocks to internal backend fallback.`);
-            symbolsForNodeServer.push(...symbolsForAlpaca);
-        }
+    const barsResult = await fetchBars<AlpacaBar>(symbols, finalStart, finalEnd, timeframe);
+    if (!barsResult.success || !barsResult.data) {
+        console.error("All data sources failed for all requested symbols.");
+        return {
+            success: false,
+            data: null,
+            error: barsResult.error || { type: 'API_ERROR', message: 'Failed to fetch historical data from all available sources for all symbols.' }
+        };
     }
 
-    // --- 3. Fetch from our backend for non-US assets and failed US stocks ---
-    if (symbolsForNodeServer.length > 0) {
-        symbolsForNodeServer = [...new Set(symbolsForNodeServer)]; // Remove duplicates
-        console.log(`Fetching data for ${symbolsForNodeServer.length} symbol(s) from Node.js backend: ${symbolsForNodeServer.join(', ')}`);
-        const internalResult = await postInternal<{ [symbol:string]: AlpacaBar[] }>(
-            '/api/yfinance/historical',
-            { symbols: symbolsForNodeServer, startDate: finalStart, endDate: finalEnd, timeframe }
-        );
-
-        if (internalResult.success && internalResult.data) {
-            for (const symbol in internalResult.data) {
-                if(internalResult.data[symbol]) {
-                    combinedData[symbol] = internalResult.data[symbol];
-                }
-            }
-            const fetchedCount = Object.keys(internalResult.data).length;
-            console.log(`Successfully fetched ${fetchedCount} symbols from Node.js backend.`);
-        } else {
-             console.error("Internal backend request failed:", internalResult.error?.message);
-        }
-    }
-
-    if (Object.keys(combinedData).length > 0) {
-        return { success: true, data: combinedData };
+    // Every provider delivers split-adjusted bars; convert them all to the requested basis
+    const combinedData = barsResult.data.bars;
+    const fetchedSymbols = Object.keys(combinedData);
+    const actions = await fetchCorporateActions(fetchedSymbols, finalStart);
+    for (const symbol of fetchedSymbols) {
+        combinedData[symbol] = applyPriceAdjustment(combinedData[symbol], actions[symbol] ?? [], adjustment);
     }
-
-    console.error("All data sources failed for all requested symbols.");
-    return { 
-        success: false, 
-        data: null, 
-        error: { type: 'API_ERROR', message: 'Failed to fetch historical data from all available sources for all symbols.' } 
-    };
+    return { success: true, data: combinedData };
 };
 
-export const fetchCryptoHistoricalData = async (
-  symbol: string,
-  days = 30
-): Promise<BackendResponse<{bars: AlpacaCryptoBar[]}>> => {
-    const timeframe = '1Day';
+const fetchRecentBars = async <T>(symbol: string, days: number): Promise<BackendResponse<{ bars: T[] }>> => {
     const endDate = new Date();
     const startDate = new Date();
     startDate.setDate(endDate.getDate() - days);
-    
-    const end = endDate.toISOString();
-    const start = startDate.toISOString();
-    
-    const encodedSymbol = encodeURIComponent(symbol);
-
-    const result = await get<{ bars: { [key: string]: AlpacaCryptoBar[] } }>({
-        endpoint: `/v1beta3/crypto/us/bars?symbols=${encodedSymbol}&timeframe=${timeframe}&start=${start}&end=${end}`,
-        isDataEndpoint: true
-    });
 
-    if (result.success && result.data?.bars) {
-        const barsArray = result.data.bars[symbol];
-        if (barsArray) {
-            return { success: true, data: { bars: barsArray } };
-        }
+    const result = await fetchBars<T>([symbol], getISODate(startDate), getISODate(endDate), '1Day');
+    const barsArray = result.data?.bars[symbol];
+    if (result.success && barsArray) {
+        return { success: true, data: { bars: barsArray } };
     }
-    
-    return { 
-        success: false, 
-        data: null, 
-        error: result.error || { type: 'API_ERROR', message: `Could not extract crypto bars for ${symbol}` } 
+
+    return {
+        success: false,
+        data: null,
+        error: result.error || { type: 'API_ERROR', message: `Could not fetch bars for ${symbol}` }
     };
-}
+};
 
-export const fetchForexHistoricalData = async (
-  symbolPair: string,
+export const fetchCryptoHistoricalData = (
+  symbol: string,
   days = 30
-): Promise<BackendResponse<{bars: AlpacaForexBar[]}>> => {
-    const timeframe = '1Day';
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - days);
-    
-    const end = endDate.toISOString();
-    const start = startDate.toISOString();
-    
-    const symbolPairClean = symbolPair.replace('/', '');
+): Promise<BackendResponse<{bars: AlpacaCryptoBar[]}>> => fetchRecentBars<AlpacaCryptoBar>(symbol, days);
 
-    const result = await get<{ bars: { [key: string]: AlpacaForexBar[] } }>({
-        endpoint: `/v1beta1/forex/rates/bars?symbol_pairs=${symbolPairClean}&timeframe=${timeframe}&start=${start}&end=${end}`,
-        isDataEndpoint: true
-    });
-
-    if (result.success && result.data?.bars) {
-        const barsArray = result.data.bars[symbolPairClean];
-        if (barsArray) {
-            return { success: true, data: { bars: barsArray } };
-        }
-    }
-    
-    return { 
-        success: false, 
-        data: null, 
-        error: result.error || { type: 'API_ERROR', message: `Could not extract forex bars for ${symbolPair}` } 
-    };
-}
+export const fetchForexHistoricalData = (
+  symbolPair: string,
+  days = 30
+): Promise<BackendResponse<{bars: AlpacaForexBar[]}>> => fetchRecentBars<AlpacaForexBar>(symbolPair, days);
 
 
 export const generatePerformanceCurve = (
@@ -205,20 +138,13 @@ export const generatePerformanceCurve = (
 export const fetchSnapshots = async (
     symbols: string[]
 ): Promise<BackendResponse<{ [symbol: string]: AlpacaSnapshot }>> => {
-    const symbolsQuery = symbols.join(',');
-    return get<{ [symbol: string]: AlpacaSnapshot }>({
-        endpoint: `/v2/stocks/snapshots?symbols=${symbolsQuery}&feed=iex`,
-        isDataEndpoint: true
-    });
+    return getInternal<{ [symbol: string]: AlpacaSnapshot }>(`/api/market-data/snapshots?symbols=${symbols.map(encodeURIComponent).join(',')}`);
 };
 
 export const fetchNews = async (
     limit = 20
 ): Promise<BackendResponse<{ news: AlpacaNewsArticle[] }>> => {
-    return get<{ news: AlpacaNewsArticle[] }>({
-        endpoint: `/v1beta1/news?limit=${limit}&include_content=false&exclude_contentless=true`,
-        isDataEndpoint: true
-    });
+    return getInternal<{ news: AlpacaNewsArticle[] }>(`/api/market-data/news?limit=${limit}`);
 };
 
 
@@ -0,0 +1,163 @@
+import { MonteCarloBandPoint, MonteCarloConfig, MonteCarloResults } from '../types';
+import { createSeededRandom } from './parameterSetService';
+
+const MAX_BAND_POINTS = 200;
+const DRAWDOWN_BUCKET_SIZES = [0.1, 0.25, 0.5, 1, 2, 5, 10]; // % per histogram bucket
+const MAX_DRAWDOWN_BUCKETS = 20;
+const REPORTED_PERCENTILES = [5, 25, 50, 75, 95];
+const PROGRESS_STEPS = 20;
+
+export interface MonteCarloProgress {
+    type: 'progress';
+    fraction: number;
+}
+
+export interface MonteCarloDone {
+    type: 'result';
+    results: MonteCarloResults;
+}
+
+export interface MonteCarloFailed {
+    type: 'error';
+    message: string;
+}
+
+export type MonteCarloWorkerMessage = MonteCarloProgress | MonteCarloDone | MonteCarloFailed;
+
+export interface MonteCarloRequest {
+    tradePnls: number[];
+    initialCapital: number;
+    config: MonteCarloConfig;
+}
+
+// Linear interpolation between closest ranks; `sorted` must be ascending.
+const percentile = (sorted: ArrayLike<number>, p: number): number => {
+    if (sorted.length === 0) return 0;
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+// Evenly spaced trade counts to sample the equity paths at, always including the start and the end.
+const getCheckpoints = (tradeCount: number): number[] => {
+    const step = Math.max(1, Math.ceil(tradeCount / MAX_BAND_POINTS));
+    const checkpoints: number[] = [];
+    for (let i = 0; i < tradeCount; i += step) checkpoints.push(i);
+    checkpoints.push(tradeCount);
+    return checkpoints;
+};
+
+const shuffleInPlace = (values: number[], random: () => number) => {
+    for (let i = values.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [values[i], values[j]] = [values[j], values[i]];
+    }
+};
+
+export const runMonteCarlo = (
+    { tradePnls, initialCapital, config }: MonteCarloRequest,
+    onProgress?: (fraction: number) => void
+): MonteCarloResults => {
+    if (tradePnls.length < 2) {
+        throw new Error('Monte Carlo analysis needs at least two trades.');
+    }
+    const { simulations, method, ruinDrawdown, seed } = config;
+    const random = createSeededRandom(seed);
+    const checkpoints = getCheckpoints(tradePnls.length);
+    const ruinLevel = initialCapital * (1 - ruinDrawdown / 100);
+    const progressInterval = Math.max(1, Math.floor(simulations / PROGRESS_STEPS));
+
+    // Equity at each checkpoint, one row per simulation, so percentiles can be taken column by column.
+    const equityAtCheckpoints = checkpoints.map(() => new Float64Array(simulations));
+    const terminalEquity = new Float64Array(simulations);
+    const maxDrawdowns = new Float64Array(simulations);
+    let ruinedPaths = 0;
+    const sequence = [...tradePnls];
+
+    for (let sim = 0; sim < simulations; sim++) {
+        if (method === 'shuffle') {
+            shuffleInPlace(sequence, random);
+        } else {
+            for (let i = 0; i < sequence.length; i++) sequence[i] = tradePnls[Math.floor(random() * tradePnls.length)];
+        }
+
+        let equity = initialCapital;
+        let peak = initialCapital;
+        let maxDrawdown = 0;
+        let ruined = false;
+        let nextCheckpoint = 0;
+        for (let i = 0; i <= sequence.length; i++) {
+            if (i > 0) {
+                equity += sequence[i - 1];
+                peak = Math.max(peak, equity);
+                maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 1);
+                if (equity <= ruinLevel) ruined = true;
+            }
+            if (checkpoints[nextCheckpoint] === i) {
+                equityAtCheckpoints[nextCheckpoint][sim] = equity;
+                nextCheckpoint++;
+            }
+        }
+        terminalEquity[sim] = equity;
+        maxDrawdowns[sim] = maxDrawdown * 100;
+        if (ruined) ruinedPaths++;
+        if (onProgress && (sim + 1) % progressInterval === 0) onProgress((sim + 1) / simulations);
+    }
+
+    const bands: MonteCarloBandPoint[] = checkpoints.map((trade, c) => {
+        const sorted = equityAtCheckpoints[c].sort();
+        return {
+            trade,
+            p5: percentile(sorted, 5),
+            p25: percentile(sorted, 25),
+            p50: percentile(sorted, 50),
+            p75: percentile(sorted, 75),
+            p95: percentile(sorted, 95),
+        };
+    });
+
+    terminalEquity.sort();
+    maxDrawdowns.sort();
+    // The smallest bucket size that keeps the histogram readable for this spread of drawdowns.
+    const worstDrawdown = maxDrawdowns[maxDrawdowns.length - 1];
+    const bucketSize = DRAWDOWN_BUCKET_SIZES.find(size => worstDrawdown / size < MAX_DRAWDOWN_BUCKETS) ?? DRAWDOWN_BUCKET_SIZES[DRAWDOWN_BUCKET_SIZES.length - 1];
+    const bucketCount = Math.floor(worstDrawdown / bucketSize) + 1;
+    const maxDrawdownDistribution = Array.from({ length: bucketCount }, (_, b) => ({
+        bucket: `${+(b * bucketSize).toFixed(2)}-${+((b + 1) * bucketSize).toFixed(2)}%`,
+        count: 0,
+    }));
+    maxDrawdowns.forEach(dd => { maxDrawdownDistribution[Math.min(bucketCount - 1, Math.floor(dd / bucketSize))].count++; });
+
+    return {
+        bands,
+        maxDrawdownDistribution,
+        terminalEquityPercentiles: REPORTED_PERCENTILES.map(p => ({ percentile: p, value: percentile(terminalEquity, p) })),
+        maxDrawdownPercentiles: REPORTED_PERCENTILES.map(p => ({ percentile: p, value: percentile(maxDrawdowns, p) })),
+        probabilityOfRuin: ruinedPaths / simulations,
+        config,
+    };
+};
+
+// Runs the simulation in a dedicated worker so thousands of paths don't block the page.
+export const runMonteCarloInWorker = (
+    request: MonteCarloRequest,
+    onProgress?: (fraction: number) => void
+): Promise<MonteCarloResults> => new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+            onProgress?.(message.fraction);
+            return;
+        }
+        worker.terminate();
+        if (message.type === 'result') resolve(message.results);
+        else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'The Monte Carlo worker failed.'));
+    };
+    worker.postMessage(request);
+});
@@ -0,0 +1,94 @@
+import { ParameterRange, SavedStrategy, StrategyParameter, StrategyParameterSet, StrategyParameterValues } from '../types';
+import { resolveIndicatorParams } from './indicatorService';
+
+// Each combination is a full backtest, so sweeps beyond this would lock the page up for minutes.
+export const MAX_PARAMETER_COMBINATIONS = 500;
+
+export const getParameterValue = (strategy: SavedStrategy, parameter: StrategyParameter): number => {
+    switch (parameter) {
+        case 'stopLossPercentage': return strategy.stopLossPercentage;
+        case 'leverageMin': return strategy.leverage.min;
+        case 'leverageMax': return strategy.leverage.max;
+        default: return resolveIndicatorParams(strategy.indicatorParams)[parameter];
+    }
+};
+
+// Anything the values don't mention is taken from the strategy as saved.
+export const toParameterSet = (strategy: SavedStrategy, values: StrategyParameterValues): StrategyParameterSet => {
+    const { stopLossPercentage, leverageMin, leverageMax, ...indicatorValues } = values;
+    return {
+        stopLossPercentage: stopLossPercentage ?? strategy.stopLossPercentage,
+        leverage: { min: leverageMin ?? strategy.leverage.min, max: leverageMax ?? strategy.leverage.max },
+        indicatorParams: { ...resolveIndicatorParams(strategy.indicatorParams), ...indicatorValues },
+    };
+};
+
+export const applyParameterSet = (strategy: SavedStrategy, parameters: StrategyParameterSet): SavedStrategy => ({
+    ...strategy,
+    stopLossPercentage: parameters.stopLossPercentage,
+    leverage: parameters.leverage ?? strategy.leverage,
+    indicatorParams: { ...strategy.indicatorParams, ...parameters.indicatorParams },
+});
+
+// Rejects combinations that can't describe a real strategy, such as a fast average slower than the slow one.
+export const isCoherentParameterSet = ({ stopLossPercentage, leverage, indicatorParams }: StrategyParameterSet): boolean => {
+    const params = resolveIndicatorParams(indicatorParams);
+    return stopLossPercentage > 0
+        && (!leverage || leverage.min <= leverage.max)
+        && params.macdFastPeriod < params.macdSlowPeriod
+        && params.smaFastPeriod < params.smaSlowPeriod;
+};
+
+// Inclusive of both ends; rounded so float steps like 0.1 don't drift to 0.30000000000000004.
+export const getRangeValues = ({ min, max, step }: ParameterRange): number[] => {
+    if (!(step > 0) || max < min) return [min];
+    const values: number[] = [];
+    for (let i = 0; min + i * step <= max + step * 1e-9; i++) {
+        values.push(+(min + i * step).toFixed(6));
+    }
+    return values;
+};
+
+// Cartesian product of independent axes, each a list of partial value maps.
+export const combineParameterValues = (axes: StrategyParameterValues[][]): StrategyParameterValues[] =>
+    axes.reduce<StrategyParameterValues[]>(
+        (combinations, axis) => combinations.flatMap(combination => axis.map(values => ({ ...combination, ...values }))),
+        [{}]
+    );
+
+export const countGridCombinations = (ranges: ParameterRange[]): number =>
+    ranges.reduce((count, range) => count * getRangeValues(range).length, 1);
+
+export const generateGridCombinations = (ranges: ParameterRange[]): StrategyParameterValues[] =>
+    combineParameterValues(ranges.map(range => getRangeValues(range).map(value => ({ [range.parameter]: value }))));
+
+// Mulberry32: tiny, fast and good enough to make random sweeps reproducible from a seed.
+export const createSeededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Samples points on the same step grid as a grid search, without repeats, so the two modes are comparable.
+export const generateRandomCombinations = (ranges: ParameterRange[], samples: number, seed: number): StrategyParameterValues[] => {
+    const random = createSeededRandom(seed);
+    const axes = ranges.map(range => ({ parameter: range.parameter, values: getRangeValues(range) }));
+    const target = Math.min(samples, countGridCombinations(ranges));
+    const seen = new Set<string>();
+    const combinations: StrategyParameterValues[] = [];
+    for (let attempt = 0; combinations.length < target && attempt < target * 20; attempt++) {
+        const values: StrategyParameterValues = {};
+        axes.forEach(axis => { values[axis.parameter] = axis.values[Math.floor(random() * axis.values.length)]; });
+        const key = JSON.stringify(values);
+        if (!seen.has(key)) {
+            seen.add(key);
+            combinations.push(values);
+        }
+    }
+    return combinations;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { PositionSizing, Trade } from '../types';
+import { DEFAULT_POSITION_SIZING } from '../constants';
+import { calculatePositionMargin, estimateKellyFraction, KELLY_MIN_TRADES, KELLY_NO_EDGE_SHARE, SizingInput } from './positionSizingService';
+
+const trade = (pnlPercentage: number) => ({ pnl: pnlPercentage, pnlPercentage } as Trade);
+
+const kelly: PositionSizing = { ...DEFAULT_POSITION_SIZING, method: 'kelly', kellyFraction: 0.01, kellyLookback: 20, maxEquityPercent: 100 };
+const input = (recentTrades: Trade[]): SizingInput => ({ equity: 100000, leverage: 1, stopLossPercentage: 2, volatility: null, recentTrades });
+const fixedMargin = 100000 * kelly.equityPercent / 100;
+
+describe('estimateKellyFraction', () => {
+    it('is null until there are enough trades', () => {
+        expect(estimateKellyFraction(new Array(KELLY_MIN_TRADES - 1).fill(trade(5)), 20)).toBeNull();
+    });
+
+    it('is W − (1 − W) / R over the lookback', () => {
+        // 6 wins of 10% and 4 losses of 5%: W = 0.6, R = 2.
+        const trades = [...new Array(6).fill(trade(10)), ...new Array(4).fill(trade(-5))];
+        expect(estimateKellyFraction(trades, 20)).toBeCloseTo(0.6 - 0.4 / 2, 9);
+        expect(estimateKellyFraction([...new Array(10).fill(trade(-5)), ...trades], 10)).toBeCloseTo(0.4, 9);
+    });
+});
+
+describe('calculatePositionMargin with Kelly sizing', () => {
+    it('uses the fixed margin until there are enough trades', () => {
+        expect(calculatePositionMargin(kelly, input([trade(-5)]))).toBe(fixedMargin);
+    });
+
+    it('keeps trading through a losing streak and returns to Kelly size once the trades win again', () => {
+        const trades: Trade[] = [];
+        const margins: number[] = [];
+        // Each entry the sizing allows closes as the next result in the sequence, as the backtester would record it.
+        for (const pnl of [...new Array(30).fill(-5), ...new Array(30).fill(8)]) {
+            const margin = calculatePositionMargin(kelly, input(trades));
+            margins.push(margin);
+            if (margin > 0) trades.push(trade(pnl));
+        }
+        expect(margins.every(m => m > 0)).toBe(true);
+        expect(margins[29]).toBe(fixedMargin * KELLY_NO_EDGE_SHARE);
+        expect(trades).toHaveLength(60);
+        // The last 20 trades are all wins, so full Kelly is 1 and 1% of equity is risked to a 2% stop.
+        expect(margins[59]).toBeCloseTo(100000 * kelly.kellyFraction / 0.02, 6);
+    });
+});
@@ -0,0 +1,69 @@
+import { PositionSizing, Trade } from '../types';
+
+export const KELLY_MIN_TRADES = 10;
+// Share of the fixed-fraction margin Kelly still commits when the recent trades show no edge, so the strategy
+// keeps trading and its lookback can recover instead of stopping for good.
+export const KELLY_NO_EDGE_SHARE = 0.25;
+
+export interface SizingInput {
+    equity: number;
+    leverage: number;
+    stopLossPercentage: number;
+    volatility: number | null; // Recent ATR as a fraction of price, null when there's no history to measure it on
+    recentTrades: Trade[]; // The strategy's closed trades, oldest first
+}
+
+// Full Kelly, W − (1 − W) / R, from the win rate and the average win over the average loss (as % of margin)
+// of the last `lookback` trades. Null until there are enough trades to estimate it from.
+export const estimateKellyFraction = (trades: Trade[], lookback: number): number | null => {
+    const window = trades.slice(-lookback);
+    if (window.length < KELLY_MIN_TRADES) return null;
+    const wins = window.filter(t => t.pnl > 0);
+    const losses = window.filter(t => t.pnl <= 0);
+    const winRate = wins.length / window.length;
+    const averageLoss = losses.reduce((total, t) => total - t.pnlPercentage, 0) / (losses.length || 1);
+    if (averageLoss <= 0) return winRate; // No losing trades yet: the payoff ratio is unbounded
+    const payoffRatio = wins.reduce((total, t) => total + t.pnlPercentage, 0) / (wins.length || 1) / averageLoss;
+    return payoffRatio > 0 ? winRate - (1 - winRate) / payoffRatio : -1;
+};
+
+// Margin to commit to a new position; it buys margin × leverage of exposure. Risk-based methods size the
+// exposure so that a move of the stop distance (or one ATR) costs the chosen share of equity, and Kelly risks
+// its fraction of equity to the stop, or a small fixed-fraction position when it finds no edge.
+export const calculatePositionMargin = (sizing: PositionSizing, { equity, leverage, stopLossPercentage, volatility, recentTrades }: SizingInput): number => {
+    const fixedMargin = equity * (sizing.equityPercent / 100);
+    const marginForRisk = (riskPercent: number, move: number) =>
+        move > 0 && leverage > 0 ? (equity * (riskPercent / 100)) / move / leverage : fixedMargin;
+
+    let margin = fixedMargin;
+    switch (sizing.method) {
+        case 'riskPerTrade':
+            margin = marginForRisk(sizing.riskPercent, stopLossPercentage / 100);
+            break;
+        case 'volatilityTarget':
+            if (volatility !== null) margin = marginForRisk(sizing.volatilityPercent, volatility);
+            break;
+        case 'kelly': {
+            const kelly = estimateKellyFraction(recentTrades, sizing.kellyLookback);
+            if (kelly !== null) {
+                margin = kelly > 0 ? marginForRisk(kelly * sizing.kellyFraction * 100, stopLossPercentage / 100) : fixedMargin * KELLY_NO_EDGE_SHARE;
+            }
+            break;
+        }
+    }
+    return Math.max(0, Math.min(margin, equity * (sizing.maxEquityPercent / 100)));
+};
+
+export const describePositionSizing = (sizing: PositionSizing): string => {
+    const cap = `, max ${sizing.maxEquityPercent}% margin`;
+    switch (sizing.method) {
+        case 'fixedFraction':
+            return `${sizing.equityPercent}% of equity as margin${cap}`;
+        case 'riskPerTrade':
+            return `${sizing.riskPercent}% of equity at risk to the stop${cap}`;
+        case 'volatilityTarget':
+            return `${sizing.volatilityPercent}% of equity per ATR move${cap}`;
+        case 'kelly':
+            return `${sizing.kellyFraction}× Kelly over the last ${sizing.kellyLookback} trades${cap}`;
+    }
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { AlpacaBar, CorporateAction } from '../types';
+import { applyPriceAdjustment, getSplitFactor } from './priceAdjustmentService';
+
+// Split-adjusted bars, as the providers return them: a 2-for-1 split goes ex on 6 March and a 1.00
+// dividend (0.50 a share after the split) on 7 March.
+const bars: AlpacaBar[] = ['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07'].map((date, i) => {
+    const c = 50 + i;
+    return { t: `${date}T00:00:00Z`, o: c, h: c, l: c, c, v: 1000 };
+});
+const actions: CorporateAction[] = [
+    { date: '2024-03-06', type: 'split', value: 2 },
+    { date: '2024-03-07', type: 'dividend', value: 0.5 },
+];
+
+describe('getSplitFactor', () => {
+    it('multiplies the splits after the date', () => {
+        expect(getSplitFactor([...actions, { date: '2024-03-10', type: 'split', value: 3 }], '2024-03-05')).toBe(6);
+        expect(getSplitFactor(actions, '2024-03-06')).toBe(1);
+    });
+});
+
+describe('applyPriceAdjustment', () => {
+    it('restores raw prices and volume before a split and marks its ratio on the ex-date bar', () => {
+        const raw = applyPriceAdjustment(bars, actions, 'raw');
+        expect(raw.map(bar => bar.c)).toEqual([100, 102, 52, 53]);
+        expect(raw.map(bar => bar.v)).toEqual([500, 500, 1000, 1000]);
+        expect(raw.map(bar => bar.split)).toEqual([undefined, undefined, 2, undefined]);
+        expect(raw[3].dividend).toBe(0.5);
+    });
+
+    it('keeps split-adjusted prices and pays the dividend on its ex-date bar', () => {
+        const split = applyPriceAdjustment(bars, actions, 'split');
+        expect(split.map(bar => bar.c)).toEqual([50, 51, 52, 53]);
+        expect(split.map(bar => bar.dividend)).toEqual([undefined, undefined, undefined, 0.5]);
+        expect(split.some(bar => bar.split)).toBe(false);
+    });
+
+    it('scales the prices before a dividend by its share of the previous close for total return', () => {
+        const total = applyPriceAdjustment(bars, actions, 'total');
+        const ratio = 1 - 0.5 / 52;
+        total.slice(0, 3).forEach((bar, i) => expect(bar.c).toBeCloseTo(bars[i].c * ratio, 9));
+        expect(total[3].c).toBe(53);
+        expect(total.some(bar => bar.dividend)).toBe(false);
+    });
+
+    it('leaves the input bars untouched', () => {
+        applyPriceAdjustment(bars, actions, 'raw');
+        expect(bars[0]).toEqual({ t: '2024-03-04T00:00:00Z', o: 50, h: 50, l: 50, c: 50, v: 1000 });
+    });
+});
@@ -0,0 +1,45 @@
+import { AlpacaBar, CorporateAction, PriceAdjustment } from '../types';
+
+const getBarDate = (bar: AlpacaBar) => bar.t.split('T')[0];
+
+// How many of today's shares one share on `date` became: the product of every later split.
+export const getSplitFactor = (actions: CorporateAction[], date: string): number =>
+    actions.filter(a => a.type === 'split' && a.date > date).reduce((factor, a) => factor * a.value, 1);
+
+// Index of the first bar on or after each action's ex-date; actions after the last bar are dropped.
+const getActionBars = (bars: AlpacaBar[], actions: CorporateAction[], type: CorporateAction['type']) =>
+    actions
+        .filter(a => a.type === type && a.value > 0)
+        .map(a => ({ index: bars.findIndex(bar => getBarDate(bar) >= a.date), amount: a.value }))
+        .filter(d => d.index >= 0);
+
+// Converts split-adjusted bars to `adjustment`. Raw and split bars carry each dividend, and raw bars each split
+// ratio, on the ex-date bar for the backtester; total-return prices fold the dividends into earlier prices.
+export const applyPriceAdjustment = (bars: AlpacaBar[], actions: CorporateAction[], adjustment: PriceAdjustment): AlpacaBar[] => {
+    if (bars.length === 0 || actions.length === 0) return bars;
+    const dividends = getActionBars(bars, actions, 'dividend');
+
+    if (adjustment === 'total') {
+        const factors = bars.map(() => 1);
+        for (const { index, amount } of dividends) {
+            if (index === 0 || bars[index - 1].c <= amount) continue; // Nothing before it to scale, or a bad print
+            const ratio = 1 - amount / bars[index - 1].c;
+            for (let k = 0; k < index; k++) factors[k] *= ratio;
+        }
+        return bars.map((bar, k) => ({ ...bar, o: bar.o * factors[k], h: bar.h * factors[k], l: bar.l * factors[k], c: bar.c * factors[k] }));
+    }
+
+    const adjusted = bars.map(bar => {
+        const factor = adjustment === 'raw' ? getSplitFactor(actions, getBarDate(bar)) : 1;
+        return factor === 1 ? { ...bar } : { ...bar, o: bar.o * factor, h: bar.h * factor, l: bar.l * factor, c: bar.c * factor, v: bar.v / factor };
+    });
+    for (const { index, amount } of dividends) {
+        const bar = adjusted[index];
+        const factor = adjustment === 'raw' ? getSplitFactor(actions, getBarDate(bar)) : 1;
+        bar.dividend = (bar.dividend ?? 0) + amount * factor;
+    }
+    if (adjustment === 'raw') {
+        for (const { index, amount } of getActionBars(bars, actions, 'split')) adjusted[index].split = (adjusted[index].split ?? 1) * amount;
+    }
+    return adjusted;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AssetClass, RiskLimits } from '../types';
+import { createRiskLimiter, formatRiskLimit, RiskExposure, RiskLimiter } from './riskLimitService';
+
+const NO_LIMITS: RiskLimits = { maxTradesPerDay: 0, maxOpenPositions: 0, maxSymbolExposure: 0, maxAssetClassExposure: 0, dailyLossLimit: 0 };
+
+const exposure = (symbol: string, value: number, assetClass = AssetClass.USStocks): RiskExposure => ({ symbol, assetClass, value });
+
+// Enters through the limiter the way the backtester does, returning the limit that blocked the entry.
+const tryEntry = (limiter: RiskLimiter, entry = exposure('AAA', 1000), open: RiskExposure[] = [], equity = 100000) => {
+    const broken = limiter.check(entry, open, equity);
+    if (!broken) limiter.recordEntry();
+    return broken;
+};
+
+describe('createRiskLimiter', () => {
+    it('resets the daily trade count on the next session date', () => {
+        const limiter = createRiskLimiter({ ...NO_LIMITS, maxTradesPerDay: 2 }, 'NYSE');
+        limiter.startBar('2024-03-04T14:30:00.000Z', 100000);
+        expect(tryEntry(limiter)).toBeNull();
+        limiter.startBar('2024-03-04T19:30:00.000Z', 100000);
+        expect(tryEntry(limiter)).toBeNull();
+        expect(tryEntry(limiter)).toBe('maxTradesPerDay');
+        limiter.startBar('2024-03-05T14:30:00.000Z', 100000);
+        expect(tryEntry(limiter)).toBeNull();
+        expect(limiter.getRejections().maxTradesPerDay).toBe(1);
+    });
+
+    it('counts a forex bar after the New York close towards the next day, not the UTC date', () => {
+        const limiter = createRiskLimiter({ ...NO_LIMITS, maxTradesPerDay: 1 }, 'forex');
+        limiter.startBar('2024-01-09T21:00:00.000Z', 100000); // 16:00 in New York, Tuesday's session
+        expect(tryEntry(limiter)).toBeNull();
+        limiter.startBar('2024-01-09T23:00:00.000Z', 100000); // 18:00, Wednesday's session
+        expect(tryEntry(limiter)).toBeNull();
+        limiter.startBar('2024-01-10T02:00:00.000Z', 100000); // Still Wednesday's session
+        expect(tryEntry(limiter)).toBe('maxTradesPerDay');
+    });
+
+    it('stops new entries once equity is the daily loss limit below the day\'s start, until the next day', () => {
+        const limiter = createRiskLimiter({ ...NO_LIMITS, dailyLossLimit: 3 }, 'NYSE');
+        limiter.startBar('2024-03-04', 100000);
+        expect(tryEntry(limiter, undefined, [], 97500)).toBeNull();
+        expect(tryEntry(limiter, undefined, [], 97000)).toBe('dailyLossLimit');
+        limiter.startBar('2024-03-05', 97000);
+        expect(tryEntry(limiter, undefined, [], 97000)).toBeNull();
+    });
+
+    it('checks open positions and exposure against the whole account', () => {
+        const open = [exposure('AAA', 20000), exposure('BBB', 30000, AssetClass.Crypto)];
+        const limiter = createRiskLimiter({ ...NO_LIMITS, maxOpenPositions: 3, maxSymbolExposure: 25, maxAssetClassExposure: 40 }, 'NYSE');
+        limiter.startBar('2024-03-04', 100000);
+        expect(tryEntry(limiter, exposure('AAA', 6000), open)).toBe('maxSymbolExposure');
+        expect(tryEntry(limiter, exposure('CCC', 15000, AssetClass.Crypto), open)).toBe('maxAssetClassExposure');
+        expect(tryEntry(limiter, exposure('AAA', 5000), open)).toBeNull();
+        expect(tryEntry(limiter, exposure('CCC', 1000), [...open, exposure('DDD', 1000)])).toBe('maxOpenPositions');
+        expect(limiter.getRejections()).toMatchObject({ maxSymbolExposure: 1, maxAssetClassExposure: 1, maxOpenPositions: 1 });
+    });
+});
+
+describe('formatRiskLimit', () => {
+    it('shows counts bare, exposures as percentages and zero as off', () => {
+        const limits = { ...NO_LIMITS, maxTradesPerDay: 5, maxSymbolExposure: 25 };
+        expect(formatRiskLimit('maxTradesPerDay', limits)).toBe('5');
+        expect(formatRiskLimit('maxSymbolExposure', limits)).toBe('25%');
+        expect(formatRiskLimit('dailyLossLimit', limits)).toBe('Off');
+        expect(formatRiskLimit('leverage', limits)).toBe('Per strategy');
+    });
+});
@@ -0,0 +1,75 @@
+import { AssetClass, RejectedSignalCounts, RiskConstraint, RiskLimits, TradingCalendar } from '../types';
+import { getSessionDate } from './tradingCalendarService';
+
+// What a position (open or proposed) puts at risk, valued at its latest price.
+export interface RiskExposure {
+    symbol: string;
+    assetClass: AssetClass;
+    value: number;
+}
+
+export const createRejectedSignalCounts = (): RejectedSignalCounts => ({
+    maxTradesPerDay: 0,
+    maxOpenPositions: 0,
+    maxSymbolExposure: 0,
+    maxAssetClassExposure: 0,
+    dailyLossLimit: 0,
+    leverage: 0,
+    positionSizing: 0,
+});
+
+const sumExposure = (exposures: RiskExposure[], matches: (e: RiskExposure) => boolean) =>
+    exposures.reduce((total, e) => total + (matches(e) ? e.value : 0), 0);
+
+// Tracks the trading day's entries and starting equity so each entry signal can be checked against the limits.
+// Days are `calendar`'s sessions, so a Tokyo session or a forex day rolling over at 17:00 New York time is one
+// day, not two halves either side of midnight UTC.
+// A signal is counted against the first limit it breaks, so the counts add up to the number of rejected signals.
+export const createRiskLimiter = (limits: RiskLimits, calendar: TradingCalendar) => {
+    const rejections = createRejectedSignalCounts();
+    let day = '';
+    let dayStartEquity = 0;
+    let entriesToday = 0;
+
+    const reject = (constraint: RiskConstraint): RiskConstraint => {
+        rejections[constraint]++;
+        return constraint;
+    };
+
+    return {
+        // Call with the equity carried in from the previous bar, before anything on this bar trades.
+        startBar: (key: string, equity: number) => {
+            const barDay = getSessionDate(calendar, key);
+            if (barDay === day) return;
+            day = barDay;
+            dayStartEquity = equity;
+            entriesToday = 0;
+        },
+        // Returns the limit the entry breaks (and counts it), or null when the entry may go ahead.
+        check: (entry: RiskExposure, open: RiskExposure[], equity: number): RiskConstraint | null => {
+            if (limits.dailyLossLimit > 0 && dayStartEquity > 0 && (1 - equity / dayStartEquity) * 100 >= limits.dailyLossLimit) return reject('dailyLossLimit');
+            if (limits.maxTradesPerDay > 0 && entriesToday >= limits.maxTradesPerDay) return reject('maxTradesPerDay');
+            if (limits.maxOpenPositions > 0 && open.length >= limits.maxOpenPositions) return reject('maxOpenPositions');
+            if (equity <= 0) return null; // Nothing left to size against; the entry finds no free cash anyway
+            const symbolExposure = sumExposure(open, e => e.symbol === entry.symbol) + entry.value;
+            if (limits.maxSymbolExposure > 0 && (symbolExposure / equity) * 100 > limits.maxSymbolExposure) return reject('maxSymbolExposure');
+            const assetClassExposure = sumExposure(open, e => e.assetClass === entry.assetClass) + entry.value;
+            if (limits.maxAssetClassExposure > 0 && (assetClassExposure / equity) * 100 > limits.maxAssetClassExposure) return reject('maxAssetClassExposure');
+            return null;
+        },
+        reject,
+        recordEntry: () => {
+            entriesToday++;
+        },
+        getRejections: (): RejectedSignalCounts => ({ ...rejections }),
+    };
+};
+
+export const formatRiskLimit = (constraint: RiskConstraint, limits: RiskLimits): string => {
+    if (constraint === 'leverage' || constraint === 'positionSizing') return 'Per strategy';
+    const value = limits[constraint];
+    if (value <= 0) return 'Off';
+    return constraint === 'maxTradesPerDay' || constraint === 'maxOpenPositions' ? `${value}` : `${value}%`;
+};
+
+export type RiskLimiter = ReturnType<typeof createRiskLimiter>;
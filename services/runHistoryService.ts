@@ -0,0 +1,76 @@
+import { BacktestResults, BacktestRun, SavedStrategy } from '../types';
+import { calculateAdvancedRatios } from './backtestService';
+
+export interface RunSummary {
+    totalReturn: number; // %
+    sharpe: number;
+    sortino: number;
+    calmar: number;
+    maxDrawdown: number; // %
+    volatility: number; // Annualized, %
+    alpha: number; // Annualized, %
+    beta: number;
+    trades: number;
+    winRate: number; // %
+}
+
+export type RunSummaryMetric = keyof RunSummary;
+
+// Labels and the direction that counts as an improvement when one run is compared to another;
+// metrics without a direction (beta, trade count) are shown as plain differences.
+export const RUN_SUMMARY_METRICS: { [key in RunSummaryMetric]: { label: string, higherIsBetter?: boolean, unit: string } } = {
+    totalReturn: { label: 'Total Return', higherIsBetter: true, unit: '%' },
+    sharpe: { label: 'Sharpe Ratio', higherIsBetter: true, unit: '' },
+    sortino: { label: 'Sortino Ratio', higherIsBetter: true, unit: '' },
+    calmar: { label: 'Calmar Ratio', higherIsBetter: true, unit: '' },
+    maxDrawdown: { label: 'Max Drawdown', higherIsBetter: false, unit: '%' },
+    volatility: { label: 'Volatility', higherIsBetter: false, unit: '%' },
+    alpha: { label: 'Alpha', higherIsBetter: true, unit: '%' },
+    beta: { label: 'Beta', unit: '' },
+    trades: { label: 'Trades', unit: '' },
+    winRate: { label: 'Win Rate', higherIsBetter: true, unit: '%' },
+};
+
+export const createBacktestRun = (results: BacktestResults, strategies: SavedStrategy[]): BacktestRun => ({
+    id: `run_${Date.now()}`,
+    createdAt: new Date().toISOString(),
+    strategyIds: strategies.map(s => s.id),
+    strategyNames: strategies.map(s => s.name),
+    results,
+});
+
+export const getRunLabel = (run: BacktestRun): string =>
+    `${run.strategyNames.join(' + ')} (${new Date(run.createdAt).toLocaleString()})`;
+
+export const getRunSummary = (results: BacktestResults): RunSummary => {
+    const { performanceData, config, summary, benchmarkStats } = results;
+    const { sortino, calmar } = calculateAdvancedRatios(performanceData, 0.02, results.barsPerYear);
+    const finalValue = performanceData[performanceData.length - 1]?.strategy ?? config.initialCapital;
+    return {
+        totalReturn: (finalValue / config.initialCapital - 1) * 100,
+        sharpe: benchmarkStats.sharpe,
+        sortino,
+        calmar,
+        maxDrawdown: Math.max(0, ...performanceData.map(p => p.drawdown || 0)) * 100,
+        volatility: benchmarkStats.volatility * 100,
+        alpha: benchmarkStats.alpha * 100,
+        beta: benchmarkStats.beta,
+        trades: summary.trades,
+        winRate: parseFloat(summary.winRate),
+    };
+};
+
+// Each run's equity as a % return on its own initial capital, merged by date so curves with different
+// capital or date ranges can share one chart.
+export const getComparisonCurves = (runs: BacktestRun[]): { [key: string]: number | string }[] => {
+    const byDate = new Map<string, { [key: string]: number | string }>();
+    runs.forEach(run => {
+        const { initialCapital } = run.results.config;
+        run.results.performanceData.forEach(point => {
+            const row = byDate.get(point.date) ?? { date: point.date };
+            row[run.id] = (point.strategy / initialCapital - 1) * 100;
+            byDate.set(point.date, row);
+        });
+    });
+    return [...byDate.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)));
+};
@@ -0,0 +1,196 @@
+import { AlpacaBar, Indicator, SavedStrategy, StrategyModel, StrategyObjective } from '../types';
+import { computeIndicators, getIndicatorWarmupBars, IndicatorSet, resolveIndicatorParams } from './indicatorService';
+
+// Scores are the average vote in [-1, 1]; positive favours a long entry, negative a short.
+export const SIGNAL_ENTRY_THRESHOLD = 0.25;
+
+const MEAN_REVERSION_LOOKBACK = 20;
+const LINEAR_REGRESSION_LOOKBACK = 20;
+const OBV_SLOPE_LOOKBACK = 10;
+const ICHIMOKU_CONVERSION_PERIOD = 9;
+const ICHIMOKU_BASE_PERIOD = 26;
+const ICHIMOKU_SPAN_B_PERIOD = 52;
+
+export interface SignalVote {
+    source: Indicator | StrategyModel;
+    score: number;
+}
+
+export interface StrategySignal {
+    score: number;
+    votes: SignalVote[];
+}
+
+export interface StrategySignalContext {
+    bars: AlpacaBar[];
+    indicators: IndicatorSet;
+}
+
+const clamp = (value: number, min = -1, max = 1) => Math.min(max, Math.max(min, value));
+
+// Models that map directly onto an indicator need that indicator computed even if the user didn't tick it.
+const MODEL_INDICATOR_DEPENDENCIES: Partial<{ [key in StrategyModel]: Indicator }> = {
+    [StrategyModel.RSI]: Indicator.RSI,
+    [StrategyModel.MACD]: Indicator.MACD,
+    [StrategyModel.BollingerBands]: Indicator.BollingerBands,
+};
+
+export const getRequiredIndicators = (strategy: SavedStrategy): Indicator[] => {
+    const fromModels = strategy.models
+        .map(model => MODEL_INDICATOR_DEPENDENCIES[model])
+        .filter((indicator): indicator is Indicator => !!indicator);
+    return [...new Set([...strategy.indicators, ...fromModels])];
+};
+
+const MODEL_WARMUP_BARS: Partial<{ [key in StrategyModel]: number }> = {
+    [StrategyModel.MeanReversion]: MEAN_REVERSION_LOOKBACK - 1,
+    [StrategyModel.LinearRegression]: LINEAR_REGRESSION_LOOKBACK - 1,
+    [StrategyModel.IchimokuCloud]: ICHIMOKU_BASE_PERIOD + ICHIMOKU_SPAN_B_PERIOD - 1,
+};
+
+export const getSignalWarmupBars = (strategy: SavedStrategy): number => {
+    const params = resolveIndicatorParams(strategy.indicatorParams);
+    const fromIndicators = getRequiredIndicators(strategy).map(indicator => {
+        const bars = getIndicatorWarmupBars(indicator, params);
+        if (indicator === Indicator.OBV) return bars + OBV_SLOPE_LOOKBACK;
+        return indicator === Indicator.ATR ? bars + 1 : bars; // ATR votes on the previous bar's value
+    });
+    return Math.max(0, ...fromIndicators, ...strategy.models.map(model => MODEL_WARMUP_BARS[model] ?? 0));
+};
+
+export const prepareSignalContext = (strategy: SavedStrategy, bars: AlpacaBar[]): StrategySignalContext => ({
+    bars,
+    indicators: computeIndicators(bars, getRequiredIndicators(strategy), strategy.indicatorParams),
+});
+
+// Oscillators are read contrarian for mean reversion and as momentum otherwise.
+const oscillatorVote = (centred: number, objective: StrategyObjective) =>
+    objective === StrategyObjective.MeanReversion ? clamp(-centred) : clamp(centred);
+
+const indicatorVote = (
+    indicator: Indicator,
+    { bars, indicators }: StrategySignalContext,
+    i: number,
+    objective: StrategyObjective
+): number | null => {
+    const close = bars[i].c;
+    switch (indicator) {
+        case Indicator.RSI: {
+            const rsi = indicators.rsi?.[i];
+            return rsi == null ? null : oscillatorVote((rsi - 50) / 20, objective);
+        }
+        case Indicator.Stochastic: {
+            const k = indicators.stochastic?.k[i];
+            return k == null ? null : oscillatorVote((k - 50) / 30, objective);
+        }
+        case Indicator.BollingerBands: {
+            const upper = indicators.bollingerBands?.upper[i];
+            const lower = indicators.bollingerBands?.lower[i];
+            if (upper == null || lower == null || upper === lower) return null;
+            const percentB = (close - lower) / (upper - lower);
+            return oscillatorVote(percentB * 2 - 1, objective);
+        }
+        case Indicator.MACD: {
+            const histogram = indicators.macd?.histogram[i];
+            return histogram == null ? null : Math.sign(histogram);
+        }
+        case Indicator.SMA50:
+        case Indicator.SMA200: {
+            const sma = (indicator === Indicator.SMA50 ? indicators.smaFast : indicators.smaSlow)?.[i];
+            return sma == null ? null : Math.sign(close - sma);
+        }
+        case Indicator.ADX: {
+            const adx = indicators.adx?.adx[i];
+            const plusDI = indicators.adx?.plusDI[i];
+            const minusDI = indicators.adx?.minusDI[i];
+            if (adx == null || plusDI == null || minusDI == null || objective === StrategyObjective.MeanReversion) return null;
+            return adx < 20 ? 0 : Math.sign(plusDI - minusDI) * clamp((adx - 20) / 20, 0, 1);
+        }
+        case Indicator.OBV: {
+            const obv = indicators.obv;
+            if (!obv || i < OBV_SLOPE_LOOKBACK || obv[i] == null || obv[i - OBV_SLOPE_LOOKBACK] == null) return null;
+            return Math.sign((obv[i] as number) - (obv[i - OBV_SLOPE_LOOKBACK] as number));
+        }
+        case Indicator.ATR: {
+            // Breakout strategies only: a move of more than one ATR.
+            const atr = indicators.atr?.[i - 1];
+            if (atr == null || objective !== StrategyObjective.VolatilityBreakout) return null;
+            const move = close - bars[i - 1].c;
+            return Math.abs(move) > atr ? Math.sign(move) : 0;
+        }
+    }
+};
+
+const linearRegressionSlopeVote = (bars: AlpacaBar[], i: number): number | null => {
+    if (i < LINEAR_REGRESSION_LOOKBACK - 1) return null;
+    const n = LINEAR_REGRESSION_LOOKBACK;
+    let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0;
+    for (let x = 0; x < n; x++) {
+        const y = bars[i - n + 1 + x].c;
+        sumX += x; sumY += y; sumXY += x * y; sumXX += x * x;
+    }
+    const slope = (n * sumXY - sumX * sumY) / (n * sumXX - sumX * sumX);
+    const mean = sumY / n;
+    // A fitted move of 5% over the lookback window is treated as full conviction.
+    return mean > 0 ? clamp((slope * n) / mean / 0.05) : null;
+};
+
+const meanReversionVote = (bars: AlpacaBar[], i: number): number | null => {
+    if (i < MEAN_REVERSION_LOOKBACK - 1) return null;
+    const window = bars.slice(i - MEAN_REVERSION_LOOKBACK + 1, i + 1).map(b => b.c);
+    const mean = window.reduce((sum, v) => sum + v, 0) / window.length;
+    const std = Math.sqrt(window.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / window.length);
+    return std === 0 ? 0 : clamp(-(bars[i].c - mean) / std / 2);
+};
+
+const midpoint = (bars: AlpacaBar[], end: number, period: number) => {
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = end - period + 1; j <= end; j++) {
+        high = Math.max(high, bars[j].h);
+        low = Math.min(low, bars[j].l);
+    }
+    return (high + low) / 2;
+};
+
+const ichimokuVote = (bars: AlpacaBar[], i: number): number | null => {
+    // The cloud at bar i was projected from bar i - 26.
+    const projectedFrom = i - ICHIMOKU_BASE_PERIOD;
+    if (projectedFrom < ICHIMOKU_SPAN_B_PERIOD - 1) return null;
+    const conversion = midpoint(bars, i, ICHIMOKU_CONVERSION_PERIOD);
+    const base = midpoint(bars, i, ICHIMOKU_BASE_PERIOD);
+    const spanA = (midpoint(bars, projectedFrom, ICHIMOKU_CONVERSION_PERIOD) + midpoint(bars, projectedFrom, ICHIMOKU_BASE_PERIOD)) / 2;
+    const spanB = midpoint(bars, projectedFrom, ICHIMOKU_SPAN_B_PERIOD);
+    const close = bars[i].c;
+    if (close > Math.max(spanA, spanB) && conversion > base) return 1;
+    if (close < Math.min(spanA, spanB) && conversion < base) return -1;
+    return 0;
+};
+
+// Models that need the server-side pipeline abstain.
+const modelVote = (model: StrategyModel, context: StrategySignalContext, i: number, objective: StrategyObjective): number | null => {
+    switch (model) {
+        case StrategyModel.RSI: return indicatorVote(Indicator.RSI, context, i, StrategyObjective.MeanReversion);
+        case StrategyModel.BollingerBands: return indicatorVote(Indicator.BollingerBands, context, i, StrategyObjective.MeanReversion);
+        case StrategyModel.MACD: return indicatorVote(Indicator.MACD, context, i, objective);
+        case StrategyModel.MeanReversion: return meanReversionVote(context.bars, i);
+        case StrategyModel.LinearRegression: return linearRegressionSlopeVote(context.bars, i);
+        case StrategyModel.IchimokuCloud: return ichimokuVote(context.bars, i);
+        default: return null;
+    }
+};
+
+// Reads bars up to and including `i`.
+export const generateSignal = (strategy: SavedStrategy, context: StrategySignalContext, i: number): StrategySignal => {
+    const votes: SignalVote[] = [];
+    for (const model of strategy.models) {
+        const score = modelVote(model, context, i, strategy.strategyObjective);
+        if (score !== null) votes.push({ source: model, score });
+    }
+    for (const indicator of strategy.indicators) {
+        const score = i > 0 ? indicatorVote(indicator, context, i, strategy.strategyObjective) : null;
+        if (score !== null) votes.push({ source: indicator, score });
+    }
+    const score = votes.length > 0 ? votes.reduce((sum, v) => sum + v.score, 0) / votes.length : 0;
+    return { score, votes };
+};
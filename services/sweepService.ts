@@ -0,0 +1,67 @@
+import { StrategyParameterValues, SweepConfig, SweepObjective, SweepResults, SweepRun } from '../types';
+import {
+    BacktestInput, calculateAdvancedRatios, calculateSharpeRatio, getBarsPerYear, runBacktest
+} from './backtestService';
+import {
+    applyParameterSet, countGridCombinations, generateGridCombinations, generateRandomCombinations, isCoherentParameterSet,
+    MAX_PARAMETER_COMBINATIONS, toParameterSet
+} from './parameterSetService';
+
+const RISK_FREE_RATE = 0.02;
+
+const yieldToUI = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const rankSweepRuns = (runs: SweepRun[], objective: SweepObjective): SweepRun[] =>
+    [...runs].sort((a, b) => b[objective] - a[objective]);
+
+const getCombinations = ({ ranges, mode, samples, seed }: SweepConfig): StrategyParameterValues[] => {
+    if (mode === 'random') return generateRandomCombinations(ranges, Math.min(samples, MAX_PARAMETER_COMBINATIONS), seed);
+    const count = countGridCombinations(ranges);
+    if (count > MAX_PARAMETER_COMBINATIONS) {
+        throw new Error(`The grid has ${count} combinations; narrow the ranges, widen the steps or use random search (max ${MAX_PARAMETER_COMBINATIONS}).`);
+    }
+    return generateGridCombinations(ranges);
+};
+
+// Backtests one strategy once per parameter combination, over the same data and config every time.
+export const runParameterSweep = async (
+    { strategies, data, config, stopLossFeedback }: BacktestInput,
+    sweep: SweepConfig,
+    onProgress?: (fraction: number, message: string) => void
+): Promise<SweepResults> => {
+    if (strategies.length !== 1) {
+        throw new Error('Select exactly one strategy to run a parameter sweep.');
+    }
+    if (sweep.ranges.length === 0) {
+        throw new Error('Add at least one parameter range to sweep.');
+    }
+    const [strategy] = strategies;
+    const combinations = getCombinations(sweep)
+        .map(values => ({ values, parameters: toParameterSet(strategy, values) }))
+        .filter(({ parameters }) => isCoherentParameterSet(parameters));
+    if (combinations.length === 0) {
+        throw new Error('Every combination in these ranges is invalid (e.g. a fast period above the slow one).');
+    }
+
+    const barsPerYear = getBarsPerYear(strategies, data, config);
+    const runs: SweepRun[] = [];
+    for (const [index, { values, parameters }] of combinations.entries()) {
+        const result = runBacktest({ strategies: [applyParameterSet(strategy, parameters)], data, config, stopLossFeedback });
+        const { performanceData } = result;
+        const { sortino, calmar } = calculateAdvancedRatios(performanceData, RISK_FREE_RATE, barsPerYear);
+        runs.push({
+            values,
+            parameters,
+            sharpe: calculateSharpeRatio(performanceData, RISK_FREE_RATE, barsPerYear),
+            sortino,
+            calmar,
+            totalReturn: (performanceData[performanceData.length - 1].strategy / config.initialCapital - 1) * 100,
+            maxDrawdown: Math.max(...performanceData.map(p => p.drawdown || 0)) * 100,
+            trades: result.allTrades.length,
+        });
+        onProgress?.((index + 1) / combinations.length, `Backtesting combination ${index + 1} of ${combinations.length}...`);
+        await yieldToUI();
+    }
+
+    return { strategyId: strategy.id, runs, config, sweep };
+};
@@ -0,0 +1,63 @@
+import { DrawdownPeriod, MonthlyReturnsRow, PerformanceDataPoint } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Each month compounds from the last equity of the month before it, starting from the initial capital,
+// so the months of a year multiply up to the year's total.
+export const getMonthlyReturns = (performanceData: PerformanceDataPoint[], initialCapital: number): MonthlyReturnsRow[] => {
+    const monthEnds = new Map<string, number>();
+    performanceData.forEach(point => monthEnds.set(point.date.slice(0, 7), point.strategy));
+
+    const rows = new Map<number, MonthlyReturnsRow>();
+    let previousEquity = initialCapital;
+    let yearStartEquity = initialCapital;
+    monthEnds.forEach((equity, month) => {
+        const year = Number(month.slice(0, 4));
+        if (!rows.has(year)) {
+            rows.set(year, { year, months: Array(12).fill(null), total: 0 });
+            yearStartEquity = previousEquity;
+        }
+        const row = rows.get(year)!;
+        row.months[Number(month.slice(5, 7)) - 1] = previousEquity > 0 ? (equity / previousEquity - 1) * 100 : 0;
+        row.total = yearStartEquity > 0 ? (equity / yearStartEquity - 1) * 100 : 0;
+        previousEquity = equity;
+    });
+    return [...rows.values()];
+};
+
+// Every drawdown below the running high-water mark (which starts at the initial capital), deepest first.
+export const getDrawdownPeriods = (performanceData: PerformanceDataPoint[], initialCapital: number): DrawdownPeriod[] => {
+    const periods: DrawdownPeriod[] = [];
+    const lastIndex = performanceData.length - 1;
+    let peak = initialCapital;
+    let peakIndex = 0;
+    let troughIndex: number | null = null;
+
+    const closePeriod = (endIndex: number, recovered: boolean) => {
+        if (troughIndex === null) return;
+        const start = performanceData[peakIndex].date;
+        const end = performanceData[endIndex].date;
+        periods.push({
+            start,
+            trough: performanceData[troughIndex].date,
+            recovery: recovered ? end : null,
+            depth: peak > 0 ? (peak - performanceData[troughIndex].strategy) / peak : 0,
+            durationBars: endIndex - peakIndex,
+            durationDays: Math.round((Date.parse(end) - Date.parse(start)) / MS_PER_DAY),
+            recoveryBars: recovered ? endIndex - troughIndex : null,
+        });
+        troughIndex = null;
+    };
+
+    performanceData.forEach((point, i) => {
+        if (point.strategy >= peak) {
+            closePeriod(i, true);
+            peak = point.strategy;
+            peakIndex = i;
+        } else if (troughIndex === null || point.strategy < performanceData[troughIndex].strategy) {
+            troughIndex = i;
+        }
+    });
+    closePeriod(lastIndex, false);
+    return periods.sort((a, b) => b.depth - a.depth);
+};
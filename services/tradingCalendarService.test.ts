@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+    getCalendarBarsPerYear, getLookbackStartDate, getSessionDate, getSessionDays, getSessionHours, getSymbolCalendar, isSessionDay
+} from './tradingCalendarService';
+
+describe('getSymbolCalendar', () => {
+    it.each([
+        ['AAPL', 'NYSE'], ['BRK.B', 'NYSE'], ['VOD.L', 'LSE'], ['SAP.DE', 'XETRA'], ['7203.T', 'TSE'], ['0700.HK', 'HKEX'],
+        ['^N225', 'TSE'], ['EUR/USD', 'forex'], ['EURUSD=X', 'forex'], ['BTC/USD', 'crypto'], ['XYZ.VI', 'weekdays'],
+    ])('trades %s on %s', (symbol, calendar) => {
+        expect(getSymbolCalendar(symbol)).toBe(calendar);
+    });
+});
+
+describe('isSessionDay', () => {
+    it('skips weekends and holidays, observed on the nearest weekday', () => {
+        expect(isSessionDay('NYSE', '2024-03-29')).toBe(false); // Good Friday
+        expect(isSessionDay('NYSE', '2021-12-24')).toBe(false); // Christmas on a Saturday
+        expect(isSessionDay('NYSE', '2024-03-30')).toBe(false);
+        expect(isSessionDay('LSE', '2024-04-01')).toBe(false); // Easter Monday
+        expect(isSessionDay('NYSE', '2024-04-01')).toBe(true);
+        expect(isSessionDay('crypto', '2024-03-30')).toBe(true);
+    });
+
+    it('lists only the session days of a range', () => {
+        expect(getSessionDays('NYSE', '2024-03-27', '2024-04-02')).toEqual(['2024-03-27', '2024-03-28', '2024-04-01', '2024-04-02']);
+    });
+});
+
+describe('getSessionHours', () => {
+    it('gives the session in UTC across daylight-saving changes and half days', () => {
+        const utc = (ms: number) => new Date(ms).toISOString();
+        expect(utc(getSessionHours('NYSE', '2024-01-10')!.open)).toBe('2024-01-10T14:30:00.000Z');
+        expect(utc(getSessionHours('NYSE', '2024-07-10')!.open)).toBe('2024-07-10T13:30:00.000Z');
+        expect(utc(getSessionHours('NYSE', '2024-11-29')!.close)).toBe('2024-11-29T18:00:00.000Z');
+        expect(getSessionHours('NYSE', '2024-03-29')).toBeNull();
+    });
+});
+
+describe('getSessionDate', () => {
+    it('keeps date-only and midnight UTC stamps on their own date', () => {
+        expect(getSessionDate('TSE', '2024-03-04')).toBe('2024-03-04');
+        expect(getSessionDate('NYSE', '2024-03-04T00:00:00Z')).toBe('2024-03-04');
+        expect(getSessionDate('NYSE', '2024-03-04T00:00:00.000Z')).toBe('2024-03-04');
+    });
+
+    it('reads other stamps in the exchange timezone', () => {
+        expect(getSessionDate('TSE', '2024-03-03T15:00:00.000Z')).toBe('2024-03-04');
+        expect(getSessionDate('NYSE', '2024-03-05T04:00:00.000Z')).toBe('2024-03-04');
+    });
+
+    it('puts forex bars after the 17:00 New York close on the next day', () => {
+        expect(getSessionDate('forex', '2024-01-09T21:59:00.000Z')).toBe('2024-01-09');
+        expect(getSessionDate('forex', '2024-01-09T22:00:00.000Z')).toBe('2024-01-10');
+    });
+});
+
+describe('getCalendarBarsPerYear', () => {
+    // A range of under a year is counted over the 366 days up to its end, from 31 December 2022.
+    const years = 366 / 365.25;
+
+    it('counts session days for daily bars', () => {
+        // 2023 had 250 NYSE sessions.
+        expect(getCalendarBarsPerYear(['NYSE'], 24 * 60, '2023-01-01', '2023-12-31')).toBeCloseTo(250 / years, 6);
+        expect(getCalendarBarsPerYear(['crypto'], 24 * 60, '2023-01-01', '2023-12-31')).toBeCloseTo(365.25, 6);
+    });
+
+    it('counts the union of the calendars\' sessions', () => {
+        const nyse = getCalendarBarsPerYear(['NYSE'], 24 * 60, '2023-01-01', '2023-12-31');
+        const both = getCalendarBarsPerYear(['NYSE', 'LSE'], 24 * 60, '2023-01-01', '2023-12-31');
+        expect(both).toBeGreaterThan(nyse);
+    });
+
+    it('counts intraday bars from the open, skipping lunch breaks', () => {
+        // 6.5 hours of 1-hour bars starting at 9:30 is 7 bars, and the two 13:00 closes of 2023 have 4. Tokyo's
+        // 6 hours have a bar each except the one starting in the lunch break.
+        expect(getCalendarBarsPerYear(['NYSE'], 60, '2023-01-01', '2023-12-31')).toBeCloseTo((248 * 7 + 2 * 4) / years, 6);
+        expect(getCalendarBarsPerYear(['TSE'], 60, '2024-01-04', '2024-01-04') / getCalendarBarsPerYear(['TSE'], 24 * 60, '2024-01-04', '2024-01-04')).toBe(5);
+    });
+});
+
+describe('getLookbackStartDate', () => {
+    it('counts back whole sessions for daily bars', () => {
+        // Three sessions before Tuesday 2 April 2024: Monday 1 April, then Thursday 28 and Wednesday 27 March.
+        expect(getLookbackStartDate('NYSE', '2024-04-02', 3, 24 * 60)).toBe('2024-03-27');
+    });
+
+    it('counts back the bars each session holds for intraday bars', () => {
+        expect(getLookbackStartDate('NYSE', '2024-04-02', 7, 60)).toBe('2024-04-01');
+        expect(getLookbackStartDate('NYSE', '2024-04-02', 8, 60)).toBe('2024-03-28');
+    });
+});
@@ -0,0 +1,426 @@
+import { TradingCalendar } from '../types';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// --- Timezones ---
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Throws a RangeError for names Intl doesn't know.
+export const getZoneFormatter = (timeZone: string) => {
+    if (!zoneFormatters.has(timeZone)) {
+        zoneFormatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+        }));
+    }
+    return zoneFormatters.get(timeZone)!;
+};
+
+// The wall-clock time in `timeZone` at instant `ms`, expressed as if it were UTC.
+export const toWallTime = (ms: number, timeZone: string) => {
+    const parts = Object.fromEntries(getZoneFormatter(timeZone).formatToParts(new Date(ms)).map(p => [p.type, p.value]));
+    return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) + (ms % 1000 + 1000) % 1000;
+};
+
+// The instant a wall-clock time in `timeZone` names. Times skipped by a daylight-saving change come back
+// shifted by the change; `exact` is false for them.
+export const fromWallTime = (wall: number, timeZone: string) => {
+    let ms = wall - (toWallTime(wall, timeZone) - wall);
+    ms = wall - (toWallTime(ms, timeZone) - ms);
+    return { ms, exact: toWallTime(ms, timeZone) === wall };
+};
+
+// --- Symbols ---
+
+const FOREX_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'AUD', 'CAD', 'NZD', 'SEK', 'NOK', 'DKK', 'HKD', 'SGD', 'CNH', 'MXN', 'ZAR'];
+
+const INDEX_CALENDARS: { [symbol: string]: TradingCalendar } = {
+    '^GSPC': 'NYSE', '^DJI': 'NYSE', '^IXIC': 'NYSE', '^NDX': 'NYSE', '^RUT': 'NYSE', '^VIX': 'NYSE',
+    '^FTSE': 'LSE', '^GDAXI': 'XETRA', '^STOXX50E': 'XETRA', '^FCHI': 'EURONEXT', '^AEX': 'EURONEXT',
+    '^N225': 'TSE', '^HSI': 'HKEX',
+};
+
+// Yahoo-style exchange suffixes. Euronext runs Paris, Amsterdam, Brussels, Lisbon, Dublin, Oslo and Milan on one calendar.
+const SUFFIX_CALENDARS: { [suffix: string]: TradingCalendar } = {
+    L: 'LSE', DE: 'XETRA', F: 'XETRA',
+    PA: 'EURONEXT', AS: 'EURONEXT', BR: 'EURONEXT', LS: 'EURONEXT', IR: 'EURONEXT', OL: 'EURONEXT', MI: 'EURONEXT',
+    T: 'TSE', HK: 'HKEX', SS: 'SSE', SZ: 'SSE',
+};
+
+// Listings go by their exchange suffix, and plain tickers (ADRs included) by the NYSE. Single-letter suffixes
+// other than the exchanges' are share classes such as BRK.B. Exchanges without a calendar here trade every weekday.
+export const getSymbolCalendar = (symbol: string): TradingCalendar => {
+    if (symbol.endsWith('=X')) return 'forex';
+    if (symbol.includes('/')) {
+        return symbol.split('/').every(part => FOREX_CURRENCIES.includes(part)) ? 'forex' : 'crypto';
+    }
+    if (INDEX_CALENDARS[symbol]) return INDEX_CALENDARS[symbol];
+    const suffix = symbol.match(/\.([A-Z]+)$/)?.[1];
+    if (suffix) return SUFFIX_CALENDARS[suffix] ?? (suffix.length === 1 ? 'NYSE' : 'weekdays');
+    return symbol.startsWith('^') ? 'weekdays' : 'NYSE';
+};
+
+// --- Holidays ---
+
+const toDateString = (ms: number) => new Date(ms).toISOString().split('T')[0];
+
+const utcDate = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day);
+
+const weekday = (ms: number) => new Date(ms).getUTCDay();
+
+const consecutiveDays = (first: number, count: number) => Array.from({ length: count }, (_, i) => first + i * MS_PER_DAY);
+
+// The nth (1-based) given weekday of a month, or the last one when n is -1.
+const nthWeekday = (year: number, month: number, day: number, n: number) => {
+    if (n === -1) {
+        const last = utcDate(year, month + 1, 0);
+        return last - ((weekday(last) - day + 7) % 7) * MS_PER_DAY;
+    }
+    const first = utcDate(year, month, 1);
+    return first + (((day - weekday(first) + 7) % 7) + (n - 1) * 7) * MS_PER_DAY;
+};
+
+// Anonymous Gregorian algorithm.
+const easterSunday = (year: number) => {
+    const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+    const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25), g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30, i = Math.floor(c / 4), k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7, m = Math.floor((a + 11 * h + 22 * l) / 451);
+    return utcDate(year, Math.floor((h + l - 7 * m + 114) / 31), ((h + l - 7 * m + 114) % 31) + 1);
+};
+
+// The Qingming solar term, which falls on April 4 or 5 (formula valid for 2000-2099).
+const qingming = (year: number) => {
+    const y = year % 100;
+    return utcDate(year, 4, year >= 2000 && year < 2100 ? Math.floor(y * 0.2422 + 4.81) - Math.floor(y / 4) : 5);
+};
+
+const lunarFormatter = new Intl.DateTimeFormat('en-u-ca-chinese', { timeZone: 'UTC', month: 'numeric', day: 'numeric' });
+const lunarDayCache = new Map<number, Map<string, number>>();
+
+// The day in Gregorian `year` that falls on a Chinese lunar month and day. Only valid for dates the Gregorian year
+// holds once, i.e. not the twelfth lunar month; leap months are formatted as e.g. '4bis' and never match.
+const lunarDate = (year: number, month: number, day: number): number => {
+    if (!lunarDayCache.has(year)) {
+        const days = new Map<string, number>();
+        for (let ms = utcDate(year, 1, 1); ms < utcDate(year + 1, 1, 1); ms += MS_PER_DAY) {
+            const parts = Object.fromEntries(lunarFormatter.formatToParts(new Date(ms)).map(p => [p.type, p.value]));
+            if (!days.has(`${parts.month}-${parts.day}`)) days.set(`${parts.month}-${parts.day}`, ms);
+        }
+        lunarDayCache.set(year, days);
+    }
+    return lunarDayCache.get(year)!.get(`${month}-${day}`)!;
+};
+
+// US-style observance: a Saturday holiday moves to the Friday before and a Sunday one to the Monday after.
+const observed = (ms: number) => weekday(ms) === 6 ? ms - MS_PER_DAY : weekday(ms) === 0 ? ms + MS_PER_DAY : ms;
+
+// Substitute days in Japan and Hong Kong: a holiday on a Sunday, or on a day that is already a holiday, moves to
+// the next day that is neither.
+const substituteSundays = (holidays: number[]) => {
+    const result = new Set<number>();
+    [...holidays].sort((a, b) => a - b).forEach(ms => {
+        let day = ms;
+        while (result.has(day) || weekday(day) === 0) day += MS_PER_DAY;
+        result.add(day);
+    });
+    return [...result];
+};
+
+// UK substitute days: a weekend holiday moves to the next weekday that isn't already one.
+const substituteWeekends = (holidays: number[]) => {
+    const result = new Set<number>();
+    holidays.forEach(ms => {
+        let day = ms;
+        while (result.has(day) || weekday(day) === 0 || weekday(day) === 6) day += MS_PER_DAY;
+        result.add(day);
+    });
+    return [...result];
+};
+
+// Unscheduled closures: national days of mourning, 9/11 and Hurricane Sandy.
+const NYSE_SPECIAL_CLOSURES = [
+    '2001-09-11', '2001-09-12', '2001-09-13', '2001-09-14', '2004-06-11', '2007-01-02',
+    '2012-10-29', '2012-10-30', '2018-12-05', '2025-01-09',
+];
+
+const getNyseHolidays = (year: number) => {
+    const holidays = [
+        nthWeekday(year, 1, 1, 3), // Martin Luther King Jr. Day
+        nthWeekday(year, 2, 1, 3), // Presidents' Day
+        easterSunday(year) - 2 * MS_PER_DAY, // Good Friday
+        nthWeekday(year, 5, 1, -1), // Memorial Day
+        observed(utcDate(year, 7, 4)),
+        nthWeekday(year, 9, 1, 1), // Labor Day
+        nthWeekday(year, 11, 4, 4), // Thanksgiving
+        observed(utcDate(year, 12, 25)),
+    ];
+    // New Year's Day falling on a Saturday isn't made up on the Friday, which belongs to the old year.
+    if (weekday(utcDate(year, 1, 1)) !== 6) holidays.push(observed(utcDate(year, 1, 1)));
+    if (year >= 2022) holidays.push(observed(utcDate(year, 6, 19))); // Juneteenth
+    return [...holidays.map(toDateString), ...NYSE_SPECIAL_CLOSURES];
+};
+
+// The day before Independence Day, the day after Thanksgiving and Christmas Eve.
+const getNyseHalfDays = (year: number) => {
+    const july3 = utcDate(year, 7, 3);
+    const days = [nthWeekday(year, 11, 4, 4) + MS_PER_DAY, utcDate(year, 12, 24)];
+    if (weekday(july3) >= 1 && weekday(july3) <= 4) days.push(july3);
+    return days.map(toDateString);
+};
+
+// Royal weddings, jubilees, funerals and the coronation, plus the 2000 date change.
+const LSE_SPECIAL_CLOSURES = ['1999-12-31', '2002-06-03', '2011-04-29', '2012-06-05', '2022-06-03', '2022-09-19', '2023-05-08'];
+const MOVED_SPRING_BANK_HOLIDAYS: { [year: number]: string } = { 2002: '2002-06-04', 2012: '2012-06-04', 2022: '2022-06-02' };
+
+const getLseHolidays = (year: number) => {
+    const easter = easterSunday(year);
+    const holidays = [
+        easter - 2 * MS_PER_DAY, // Good Friday
+        easter + MS_PER_DAY, // Easter Monday
+        year === 2020 ? utcDate(2020, 5, 8) : nthWeekday(year, 5, 1, 1), // Early May bank holiday, moved for VE Day
+        nthWeekday(year, 8, 1, -1), // Summer bank holiday
+        ...substituteWeekends([utcDate(year, 1, 1)]),
+        ...substituteWeekends([utcDate(year, 12, 25), utcDate(year, 12, 26)]),
+    ];
+    const spring = MOVED_SPRING_BANK_HOLIDAYS[year] ?? toDateString(nthWeekday(year, 5, 1, -1));
+    return [...holidays.map(toDateString), spring, ...LSE_SPECIAL_CLOSURES];
+};
+
+const getEuropeanHolidays = (year: number) => {
+    const easter = easterSunday(year);
+    return [utcDate(year, 1, 1), easter - 2 * MS_PER_DAY, easter + MS_PER_DAY, utcDate(year, 5, 1), utcDate(year, 12, 25), utcDate(year, 12, 26)];
+};
+
+// Christmas Eve and New Year's Eve.
+const getYearEndEves = (year: number) => [utcDate(year, 12, 24), utcDate(year, 12, 31)].map(toDateString);
+
+// Moved for the Tokyo Olympics, and the 2019 enthronement days.
+const JAPAN_OLYMPIC_HOLIDAYS: { [year: number]: string[] } = {
+    2020: ['2020-07-23', '2020-07-24', '2020-08-10'],
+    2021: ['2021-07-22', '2021-07-23', '2021-08-08'],
+};
+const JAPAN_SPECIAL_HOLIDAYS = ['2019-04-30', '2019-05-01', '2019-05-02', '2019-10-22'];
+
+// Japan's national holidays, with the exchange's own January 2-3 and December 31 on top.
+const getTseHolidays = (year: number) => {
+    // Equinox days by the Cabinet Office's approximation, valid 1980-2099.
+    const equinox = (base: number) => Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+    const fixed = [[1, 1], [1, 2], [1, 3], [2, 11], [3, equinox(20.8431)], [4, 29], [5, 3], [5, 4], [5, 5], [9, equinox(23.2488)], [11, 3], [11, 23], [12, 31]];
+    if (year >= 2020) fixed.push([2, 23]); // Emperor's Birthday
+    else if (year >= 1989 && year <= 2018) fixed.push([12, 23]);
+    const holidays = [
+        ...fixed.map(([month, day]) => utcDate(year, month, day)),
+        nthWeekday(year, 1, 1, 2), // Coming of Age Day
+        nthWeekday(year, 9, 1, 3), // Respect for the Aged Day
+        ...(JAPAN_OLYMPIC_HOLIDAYS[year]?.map(date => Date.parse(`${date}T00:00:00Z`)) ?? [
+            nthWeekday(year, 7, 1, 3), // Marine Day
+            nthWeekday(year, 10, 1, 2), // Sports Day
+            ...(year >= 2016 ? [utcDate(year, 8, 11)] : []), // Mountain Day
+        ]),
+    ];
+    const substituted = new Set(substituteSundays(holidays));
+    // A day between two holidays is a holiday too.
+    [...substituted].forEach(ms => {
+        if (substituted.has(ms + 2 * MS_PER_DAY) && weekday(ms + MS_PER_DAY) !== 0) substituted.add(ms + MS_PER_DAY);
+    });
+    return [...[...substituted].map(toDateString), ...JAPAN_SPECIAL_HOLIDAYS];
+};
+
+const getHkexHolidays = (year: number) => {
+    const lunarNewYear = lunarDate(year, 1, 1);
+    const easter = easterSunday(year);
+    return substituteSundays([
+        utcDate(year, 1, 1),
+        ...consecutiveDays(lunarNewYear, 3),
+        easter - 2 * MS_PER_DAY, // Good Friday
+        easter + MS_PER_DAY, // Easter Monday
+        qingming(year), // Ching Ming Festival
+        utcDate(year, 5, 1),
+        lunarDate(year, 4, 8), // Buddha's Birthday
+        lunarDate(year, 5, 5), // Tuen Ng Festival
+        utcDate(year, 7, 1), // HKSAR Establishment Day
+        lunarDate(year, 8, 16), // The day after Mid-Autumn Festival
+        utcDate(year, 10, 1), // National Day
+        lunarDate(year, 9, 9), // Chung Yeung Festival
+        utcDate(year, 12, 25),
+        utcDate(year, 12, 26),
+    ]).map(toDateString);
+};
+
+// Morning-only sessions on the eves of Christmas, New Year and Lunar New Year.
+const getHkexHalfDays = (year: number) => [...getYearEndEves(year), toDateString(lunarDate(year, 1, 1) - MS_PER_DAY)];
+
+// The State Council sets the mainland's closures each year; this follows its usual pattern of a week from Lunar
+// New Year's Eve, the first five days of May and the first week of October.
+const getSseHolidays = (year: number) => [
+    utcDate(year, 1, 1),
+    ...consecutiveDays(lunarDate(year, 1, 1) - MS_PER_DAY, 7), // Spring Festival
+    qingming(year), // Tomb-Sweeping Day
+    ...consecutiveDays(utcDate(year, 5, 1), 5), // Labour Day
+    lunarDate(year, 5, 5), // Dragon Boat Festival
+    lunarDate(year, 8, 15), // Mid-Autumn Festival
+    ...consecutiveDays(utcDate(year, 10, 1), 7), // National Day
+].map(toDateString);
+
+// --- Sessions ---
+
+// Regular trading hours in the exchange's own timezone, in minutes after local midnight.
+interface ExchangeHours {
+    timezone: string;
+    open: number; // Negative when the session opens the evening before
+    close: number;
+    closeChanges?: { from: string, close: number }[]; // Later changes to the regular close
+    earlyClose?: number; // On half days
+    lunchBreak?: [number, number];
+    tradesWeekends?: boolean;
+    getHolidays?: (year: number) => string[];
+    getHalfDays?: (year: number) => string[];
+}
+
+const hm = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+const EXCHANGE_HOURS: { [key in TradingCalendar]: ExchangeHours } = {
+    NYSE: { timezone: 'America/New_York', open: hm(9, 30), close: hm(16), earlyClose: hm(13), getHolidays: getNyseHolidays, getHalfDays: getNyseHalfDays },
+    LSE: { timezone: 'Europe/London', open: hm(8), close: hm(16, 30), earlyClose: hm(12, 30), getHolidays: getLseHolidays, getHalfDays: getYearEndEves },
+    XETRA: {
+        timezone: 'Europe/Berlin', open: hm(9), close: hm(17, 30),
+        getHolidays: year => [...getEuropeanHolidays(year).map(toDateString), ...getYearEndEves(year)],
+    },
+    EURONEXT: {
+        timezone: 'Europe/Paris', open: hm(9), close: hm(17, 30), earlyClose: hm(14, 5),
+        getHolidays: year => getEuropeanHolidays(year).map(toDateString), getHalfDays: getYearEndEves,
+    },
+    TSE: {
+        timezone: 'Asia/Tokyo', open: hm(9), close: hm(15), closeChanges: [{ from: '2024-11-05', close: hm(15, 30) }],
+        lunchBreak: [hm(11, 30), hm(12, 30)], getHolidays: getTseHolidays,
+    },
+    HKEX: {
+        timezone: 'Asia/Hong_Kong', open: hm(9, 30), close: hm(16), earlyClose: hm(12), lunchBreak: [hm(12), hm(13)],
+        getHolidays: getHkexHolidays, getHalfDays: getHkexHalfDays,
+    },
+    SSE: { timezone: 'Asia/Shanghai', open: hm(9, 30), close: hm(15), lunchBreak: [hm(11, 30), hm(13)], getHolidays: getSseHolidays },
+    // Sunday 17:00 to Friday 17:00 in New York, each day's session opening at the previous day's close.
+    forex: { timezone: 'America/New_York', open: hm(-7), close: hm(17) },
+    crypto: { timezone: 'UTC', open: 0, close: hm(24), tradesWeekends: true },
+    weekdays: { timezone: 'UTC', open: 0, close: hm(24) },
+};
+
+const dateSetCache = new Map<string, Set<string>>();
+
+const getDateSet = (calendar: TradingCalendar, kind: 'holidays' | 'halfDays', year: number): Set<string> => {
+    const key = `${calendar}:${kind}:${year}`;
+    if (!dateSetCache.has(key)) {
+        const hours = EXCHANGE_HOURS[calendar];
+        const dates = (kind === 'holidays' ? hours.getHolidays : hours.getHalfDays)?.(year) ?? [];
+        dateSetCache.set(key, new Set(dates.filter(date => date.startsWith(`${year}-`))));
+    }
+    return dateSetCache.get(key)!;
+};
+
+export const getCalendarTimezone = (calendar: TradingCalendar) => EXCHANGE_HOURS[calendar].timezone;
+
+// Whether `date` (YYYY-MM-DD) is a trading day on `calendar`.
+export const isSessionDay = (calendar: TradingCalendar, date: string): boolean => {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (!EXCHANGE_HOURS[calendar].tradesWeekends && (day === 0 || day === 6)) return false;
+    return !getDateSet(calendar, 'holidays', Number(date.slice(0, 4))).has(date);
+};
+
+export const isHalfDay = (calendar: TradingCalendar, date: string): boolean =>
+    isSessionDay(calendar, date) && getDateSet(calendar, 'halfDays', Number(date.slice(0, 4))).has(date);
+
+// Every trading day from start to end, inclusive.
+export const getSessionDays = (calendar: TradingCalendar, start: string, end: string): string[] => {
+    const days: string[] = [];
+    for (let ms = Date.parse(`${start}T00:00:00Z`); ms <= Date.parse(`${end}T00:00:00Z`); ms += MS_PER_DAY) {
+        const date = toDateString(ms);
+        if (isSessionDay(calendar, date)) days.push(date);
+    }
+    return days;
+};
+
+export interface SessionHours {
+    open: number; // UTC milliseconds
+    close: number;
+    lunchBreak?: [number, number]; // Not on half days, which end before it
+}
+
+// When the session for `date` opens and closes, or null if the market is shut that day.
+export const getSessionHours = (calendar: TradingCalendar, date: string): SessionHours | null => {
+    if (!isSessionDay(calendar, date)) return null;
+    const hours = EXCHANGE_HOURS[calendar];
+    const midnight = Date.parse(`${date}T00:00:00Z`);
+    const toInstant = (minutes: number) => fromWallTime(midnight + minutes * MS_PER_MINUTE, hours.timezone).ms;
+    const regularClose = [...(hours.closeChanges ?? [])].reverse().find(change => date >= change.from)?.close ?? hours.close;
+    const halfDay = hours.earlyClose !== undefined && isHalfDay(calendar, date);
+    return {
+        open: toInstant(hours.open),
+        close: toInstant(halfDay ? hours.earlyClose! : regularClose),
+        lunchBreak: hours.lunchBreak && !halfDay ? [toInstant(hours.lunchBreak[0]), toInstant(hours.lunchBreak[1])] : undefined,
+    };
+};
+
+const sessionDateCache = new Map<string, string>();
+
+// The trading day a bar's timestamp belongs to on `calendar`. Date-only and midnight-UTC stamps are that date,
+// which is how most providers and imports date daily bars; anything else is read in the exchange's timezone, so
+// a Tokyo daily bar stamped 15:00Z the evening before lands on its own session, and forex bars after the New York
+// close land on the next day's.
+export const getSessionDate = (calendar: TradingCalendar, timestamp: string): string => {
+    if (timestamp.length <= 10 || /T00:00(:00(\.0+)?)?(Z|\+00:00)?$/.test(timestamp)) return timestamp.slice(0, 10);
+    const key = `${calendar}|${timestamp}`;
+    if (!sessionDateCache.has(key)) {
+        const { timezone, open } = EXCHANGE_HOURS[calendar];
+        if (sessionDateCache.size > 100000) sessionDateCache.clear();
+        sessionDateCache.set(key, toDateString(toWallTime(Date.parse(timestamp) - Math.min(open, 0) * MS_PER_MINUTE, timezone)));
+    }
+    return sessionDateCache.get(key)!;
+};
+
+const barsPerYearCache = new Map<string, number>();
+
+// How many bars a year of timeline holds when it is the union of these calendars' sessions, counted over the
+// range or the year up to its end, whichever is longer. Daily bars count session days; intraday bars start at
+// each session's open, skip lunch breaks and stop at the close.
+export const getCalendarBarsPerYear = (calendars: TradingCalendar[], barMinutes: number, startDate: string, endDate: string): number => {
+    const yearBefore = toDateString(Date.parse(`${endDate}T00:00:00Z`) - 365 * MS_PER_DAY);
+    const start = startDate < yearBefore ? startDate : yearBefore;
+    const unique = [...new Set(calendars)].sort();
+    const key = `${unique.join(',')}|${barMinutes}|${start}|${endDate}`;
+    if (!barsPerYearCache.has(key)) {
+        const years = (Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`) + MS_PER_DAY) / (365.25 * MS_PER_DAY);
+        const bars = new Set<number | string>();
+        unique.forEach(calendar => getSessionDays(calendar, start, endDate).forEach(date => {
+            if (barMinutes >= 24 * 60) {
+                bars.add(date);
+                return;
+            }
+            const { open, close, lunchBreak } = getSessionHours(calendar, date)!;
+            for (let t = open; t < close; t += barMinutes * MS_PER_MINUTE) {
+                if (!lunchBreak || t < lunchBreak[0] || t >= lunchBreak[1]) bars.add(t);
+            }
+        }));
+        barsPerYearCache.set(key, bars.size / years);
+    }
+    return barsPerYearCache.get(key)!;
+};
+
+// The first date to fetch bars from so that `bars` bars of `barMinutes` come before `date` on `calendar`, counting
+// one bar per session for daily bars and each session's hours, less any lunch break, for intraday ones.
+export const getLookbackStartDate = (calendar: TradingCalendar, date: string, bars: number, barMinutes: number): string => {
+    let ms = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+    for (let counted = 0; counted < bars;) {
+        ms -= MS_PER_DAY;
+        const hours = getSessionHours(calendar, toDateString(ms));
+        if (!hours) continue;
+        if (barMinutes >= 24 * 60) {
+            counted++;
+            continue;
+        }
+        const lunchMs = hours.lunchBreak ? hours.lunchBreak[1] - hours.lunchBreak[0] : 0;
+        counted += Math.max(1, Math.ceil((hours.close - hours.open - lunchMs) / (barMinutes * MS_PER_MINUTE)));
+    }
+    return toDateString(ms);
+};
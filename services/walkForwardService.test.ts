@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { FitStatus, Indicator, SavedStrategy, StrategyModel, StrategyObjective } from '../types';
+import { DEFAULT_EXIT_RULES, DEFAULT_POSITION_SIZING } from '../constants';
+import { deriveFitStatus, getRefitCandidates, getWalkForwardWindows } from './walkForwardService';
+
+const strategy: SavedStrategy = {
+    id: 'macd', name: 'MACD', models: [StrategyModel.MACD], assetUniverses: [], customSymbols: ['AAA'], trainingPeriodYears: 1,
+    leverage: { min: 1, max: 1 }, stopLossPercentage: 2, trainingStatus: 'Trained', optimizations: [], sharpeRatio: 0,
+    validationAccuracy: 0, fitStatus: 'Good Fit', indicators: [Indicator.MACD], strategyObjective: StrategyObjective.TrendFollowing,
+    allowShorts: false, exitRules: DEFAULT_EXIT_RULES, positionSizing: DEFAULT_POSITION_SIZING,
+};
+
+describe('getWalkForwardWindows', () => {
+    it('rolls by the out-of-sample length so the out-of-sample blocks tile the rest of the timeline', () => {
+        const timeline = ['d0', 'd1', 'd2', 'd3', 'd4', 'd5', 'd6'];
+        expect(getWalkForwardWindows(timeline, { inSampleBars: 3, outOfSampleBars: 2 })).toEqual([
+            { inSampleStart: 'd0', inSampleEnd: 'd2', outOfSampleStart: 'd3', outOfSampleEnd: 'd4' },
+            { inSampleStart: 'd2', inSampleEnd: 'd4', outOfSampleStart: 'd5', outOfSampleEnd: 'd6' },
+        ]);
+    });
+
+    it('has no windows when the in-sample block covers the whole timeline', () => {
+        expect(getWalkForwardWindows(['d0', 'd1'], { inSampleBars: 2, outOfSampleBars: 1 })).toEqual([]);
+    });
+});
+
+describe('getRefitCandidates', () => {
+    it('starts with the saved settings', () => {
+        const [first] = getRefitCandidates(strategy);
+        expect(first.stopLossPercentage).toBe(2);
+        expect(first.indicatorParams).toMatchObject({ macdFastPeriod: 12, macdSlowPeriod: 26 });
+    });
+
+    it('drops scaled periods that round the MACD fast period level with the slow one', () => {
+        // At 0.75 both 2 and 3 round to 2; at 1.25 they become 3 and 4.
+        const candidates = getRefitCandidates({ ...strategy, indicatorParams: { macdFastPeriod: 2, macdSlowPeriod: 3 } });
+        expect(candidates).toHaveLength(8);
+        candidates.forEach(({ indicatorParams }) => expect(indicatorParams!.macdFastPeriod!).toBeLessThan(indicatorParams!.macdSlowPeriod!));
+    });
+});
+
+describe('deriveFitStatus', () => {
+    it.each<[number, number, FitStatus]>([
+        [0, 1, 'Potential Underfitting'],
+        [2, 1, 'Good Fit'],
+        [2, 0.9, 'Potential Overfitting'],
+    ])('in-sample %d and out-of-sample %d is %s', (inSample, outOfSample, status) => {
+        expect(deriveFitStatus(inSample, outOfSample)).toBe(status);
+    });
+});
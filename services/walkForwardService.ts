@@ -0,0 +1,216 @@
+import {
+    BacktestConfig, BacktestResults, FitStatus, IndicatorParams, PerformanceDataPoint, SavedStrategy, StrategyParameterSet,
+    StrategyParameterValues, Trade, WalkForwardConfig, WalkForwardResults, WalkForwardStrategyReport, WalkForwardStrategyWindow,
+    WalkForwardWindow
+} from '../types';
+import { resolveIndicatorParams } from './indicatorService';
+import { applyParameterSet, combineParameterValues, isCoherentParameterSet, toParameterSet } from './parameterSetService';
+import {
+    BacktestInput, calculateAnnualizedReturn, calculateSharpeRatio, createBenchmarkTracker,
+    getBacktestTimeline, getBarsPerYear, runBacktest
+} from './backtestService';
+
+const RISK_FREE_RATE = 0.02;
+const STOP_LOSS_MULTIPLIERS = [1, 0.5, 1.5, 2];
+const PERIOD_SCALES = [1, 0.75, 1.25];
+// Out-of-sample Sharpe must keep at least half of the in-sample Sharpe to count as a good fit.
+const GOOD_FIT_EFFICIENCY = 0.5;
+
+interface WindowBounds {
+    inSampleStart: string;
+    inSampleEnd: string;
+    outOfSampleStart: string;
+    outOfSampleEnd: string;
+}
+
+interface StrategyTracker {
+    strategy: SavedStrategy;
+    capital: number;
+    inSampleSharpes: number[];
+    inSampleReturns: number[];
+    outOfSampleCurve: PerformanceDataPoint[];
+    profitableWindows: number;
+}
+
+// Scales every lookback period together; the Bollinger band width is a multiplier, not a period.
+const scaleIndicatorPeriods = (strategy: SavedStrategy, scale: number): StrategyParameterValues => {
+    const params = resolveIndicatorParams(strategy.indicatorParams);
+    const scaled: StrategyParameterValues = {};
+    (Object.keys(params) as (keyof IndicatorParams)[]).forEach(key => {
+        if (key !== 'bollingerStdDev') scaled[key] = Math.max(1, Math.round(params[key] * scale));
+    });
+    return scaled;
+};
+
+// The saved settings come first so they win ties against the alternatives. Rounding the scaled periods can
+// bring a fast period level with its slow one, so those sets are dropped rather than run.
+export const getRefitCandidates = (strategy: SavedStrategy): StrategyParameterSet[] =>
+    combineParameterValues([
+        STOP_LOSS_MULTIPLIERS.map(multiplier => ({ stopLossPercentage: +(strategy.stopLossPercentage * multiplier).toFixed(2) })),
+        PERIOD_SCALES.map(scale => scaleIndicatorPeriods(strategy, scale)),
+    ]).map(values => toParameterSet(strategy, values)).filter(isCoherentParameterSet);
+
+export const deriveFitStatus = (inSampleSharpe: number, outOfSampleSharpe: number): FitStatus => {
+    if (inSampleSharpe <= 0) return 'Potential Underfitting';
+    return outOfSampleSharpe / inSampleSharpe >= GOOD_FIT_EFFICIENCY ? 'Good Fit' : 'Potential Overfitting';
+};
+
+// Rolling windows: each in-sample block is followed by an out-of-sample block, then both roll forward by
+// the out-of-sample length so the out-of-sample blocks tile the range without overlapping.
+export const getWalkForwardWindows = (timeline: string[], { inSampleBars, outOfSampleBars }: WalkForwardConfig): WindowBounds[] => {
+    const windows: WindowBounds[] = [];
+    if (inSampleBars < 1 || outOfSampleBars < 1) return windows;
+    for (let start = 0; start + inSampleBars < timeline.length; start += outOfSampleBars) {
+        const outOfSampleEnd = Math.min(start + inSampleBars + outOfSampleBars, timeline.length) - 1;
+        windows.push({
+            inSampleStart: timeline[start],
+            inSampleEnd: timeline[start + inSampleBars - 1],
+            outOfSampleStart: timeline[start + inSampleBars],
+            outOfSampleEnd: timeline[outOfSampleEnd],
+        });
+    }
+    return windows;
+};
+
+// A strategy whose symbols have no bars inside a window has nothing to trade there, so that window is flat.
+// Any other failure is a real error and stops the walk-forward.
+const runWindowBacktest = (input: BacktestInput): BacktestResults | null =>
+    getBacktestTimeline(input.strategies, input.data, input.config).length > 0 ? runBacktest(input) : null;
+
+const getWindowReturn = (curve: PerformanceDataPoint[], startingCapital: number) =>
+    curve.length > 0 ? (curve[curve.length - 1].strategy / startingCapital - 1) * 100 : 0;
+
+const yieldToUI = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const runWalkForward = async (
+    { strategies, data, config, stopLossFeedback }: BacktestInput,
+    walkForward: WalkForwardConfig,
+    onProgress?: (fraction: number, message: string) => void
+): Promise<WalkForwardResults> => {
+    const windows = getWalkForwardWindows(getBacktestTimeline(strategies, data, config), walkForward);
+    if (windows.length === 0) {
+        throw new Error(`Walk-forward needs more than ${walkForward.inSampleBars} bars of data; widen the date range or shorten the in-sample window.`);
+    }
+
+    const incoherent = strategies.find(s => getRefitCandidates(s).length === 0);
+    if (incoherent) {
+        throw new Error(`${incoherent.name} has no valid settings to refit (e.g. a fast period above the slow one).`);
+    }
+
+    const barsPerYear = getBarsPerYear(strategies, data, config);
+    const candidateCount = strategies.reduce((sum, s) => sum + getRefitCandidates(s).length, 0);
+    const totalRuns = windows.length * (candidateCount + strategies.length + 1);
+    let completedRuns = 0;
+    const reportRun = async (message: string) => {
+        completedRuns++;
+        onProgress?.(completedRuns / totalRuns, message);
+        await yieldToUI();
+    };
+
+    const trackers: StrategyTracker[] = strategies.map(strategy => ({
+        strategy, capital: config.initialCapital, inSampleSharpes: [], inSampleReturns: [], outOfSampleCurve: [], profitableWindows: 0,
+    }));
+    let portfolioCapital = config.initialCapital;
+    const stitchedCurve: PerformanceDataPoint[] = [];
+    const allTrades: Trade[] = [];
+    const windowResults: WalkForwardWindow[] = [];
+
+    for (const [windowIndex, bounds] of windows.entries()) {
+        const label = `Window ${windowIndex + 1}/${windows.length}`;
+        const inSampleConfig: BacktestConfig = { ...config, startDate: bounds.inSampleStart, endDate: bounds.inSampleEnd };
+        const outOfSampleConfig: BacktestConfig = { ...config, startDate: bounds.outOfSampleStart, endDate: bounds.outOfSampleEnd };
+        const strategyWindows: WalkForwardStrategyWindow[] = [];
+        const fittedStrategies: SavedStrategy[] = [];
+
+        for (const tracker of trackers) {
+            // Re-fit on the in-sample block only.
+            let best: { parameters: StrategyParameterSet, sharpe: number, annualReturn: number } | null = null;
+            for (const parameters of getRefitCandidates(tracker.strategy)) {
+                const result = runWindowBacktest({ strategies: [applyParameterSet(tracker.strategy, parameters)], data, config: inSampleConfig, stopLossFeedback });
+                const sharpe = result ? calculateSharpeRatio(result.performanceData, RISK_FREE_RATE, barsPerYear) : 0;
+                if (!best || sharpe > best.sharpe) {
+                    best = { parameters, sharpe, annualReturn: result ? calculateAnnualizedReturn(result.performanceData, barsPerYear) * 100 : 0 };
+                }
+                await reportRun(`${label}: fitting ${tracker.strategy.name} in sample...`);
+            }
+            const fitted = applyParameterSet(tracker.strategy, best!.parameters);
+            fittedStrategies.push(fitted);
+            tracker.inSampleSharpes.push(best!.sharpe);
+            tracker.inSampleReturns.push(best!.annualReturn);
+
+            // Then trade the fitted settings, untouched, on the block that follows.
+            const outOfSample = runWindowBacktest({ strategies: [fitted], data, config: { ...outOfSampleConfig, initialCapital: tracker.capital }, stopLossFeedback });
+            const curve = outOfSample?.performanceData || [];
+            const windowReturn = getWindowReturn(curve, tracker.capital);
+            if (windowReturn > 0) tracker.profitableWindows++;
+            if (curve.length > 0) tracker.capital = curve[curve.length - 1].strategy;
+            tracker.outOfSampleCurve.push(...curve);
+            strategyWindows.push({
+                strategyId: tracker.strategy.id,
+                parameters: best!.parameters,
+                inSampleSharpe: best!.sharpe,
+                outOfSampleSharpe: calculateSharpeRatio(curve, RISK_FREE_RATE, barsPerYear),
+                outOfSampleReturn: windowReturn,
+            });
+            await reportRun(`${label}: testing ${tracker.strategy.name} out of sample...`);
+        }
+
+        // The portfolio curve trades every fitted strategy together, carrying equity from window to window.
+        // Positions still open at the end of a window are closed there, so no window trades on stale settings.
+        const portfolio = runWindowBacktest({ strategies: fittedStrategies, data, config: { ...outOfSampleConfig, initialCapital: portfolioCapital }, stopLossFeedback });
+        const portfolioCurve = portfolio?.performanceData || [];
+        windowResults.push({ ...bounds, strategies: strategyWindows, outOfSampleReturn: getWindowReturn(portfolioCurve, portfolioCapital) });
+        if (portfolioCurve.length > 0) portfolioCapital = portfolioCurve[portfolioCurve.length - 1].strategy;
+        stitchedCurve.push(...portfolioCurve);
+        allTrades.push(...(portfolio?.allTrades || []));
+        await reportRun(`${label}: stitching portfolio results...`);
+    }
+
+    if (stitchedCurve.length === 0) {
+        throw new Error('None of the out-of-sample windows produced any data to trade.');
+    }
+
+    // Re-base the benchmark and drawdown on the stitched curve rather than on each window.
+    const getBenchmarkValue = createBenchmarkTracker(data[config.benchmarkSymbol], config);
+    let peakEquity = config.initialCapital;
+    const performanceData = stitchedCurve.map(point => {
+        peakEquity = Math.max(peakEquity, point.strategy);
+        return { ...point, sp500: getBenchmarkValue(point.date), drawdown: (peakEquity - point.strategy) / peakEquity };
+    });
+
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+    const strategyReports: WalkForwardStrategyReport[] = trackers.map(tracker => {
+        const inSampleSharpe = average(tracker.inSampleSharpes);
+        const outOfSampleSharpe = calculateSharpeRatio(tracker.outOfSampleCurve, RISK_FREE_RATE, barsPerYear);
+        const outOfSampleBars = tracker.outOfSampleCurve.length;
+        return {
+            strategyId: tracker.strategy.id,
+            strategyName: tracker.strategy.name,
+            inSampleSharpe,
+            outOfSampleSharpe,
+            inSampleReturn: average(tracker.inSampleReturns),
+            outOfSampleReturn: outOfSampleBars > 0 ? (Math.pow(tracker.capital / config.initialCapital, barsPerYear / outOfSampleBars) - 1) * 100 : 0,
+            efficiency: inSampleSharpe > 0 ? outOfSampleSharpe / inSampleSharpe : 0,
+            profitableWindowRate: tracker.profitableWindows / windows.length,
+            fitStatus: deriveFitStatus(inSampleSharpe, outOfSampleSharpe),
+        };
+    });
+
+    const finalValue = performanceData[performanceData.length - 1].strategy;
+    const totalReturnPercent = (finalValue / config.initialCapital - 1) * 100;
+    return {
+        metrics: [
+            { label: 'OOS Return', value: `${totalReturnPercent.toFixed(2)}%`, changeType: totalReturnPercent > 0 ? 'positive' : 'negative' },
+            { label: 'OOS Sharpe', value: calculateSharpeRatio(performanceData, RISK_FREE_RATE, barsPerYear).toFixed(2) },
+            { label: 'Max Drawdown', value: `${(Math.max(...performanceData.map(p => p.drawdown || 0)) * 100).toFixed(2)}%` },
+            { label: 'Profitable Windows', value: `${windowResults.filter(w => w.outOfSampleReturn > 0).length}/${windowResults.length}` },
+            { label: 'OOS Trades', value: allTrades.length.toString() },
+        ],
+        performanceData,
+        allTrades,
+        windows: windowResults,
+        strategies: strategyReports,
+        config,
+        walkForward,
+    };
+};
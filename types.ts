@@ -1,3 +1,8 @@
+export type TradeSide = 'LONG' | 'SHORT';
+
+// Take Profit, Partial Take Profit, Stop Loss, ATR Trailing Stop, Break-Even Stop, End of Day/Data, Exit Signal, Time Stop, Margin Call
+export type ExitReason = 'TP' | 'PARTIAL_TP' | 'SL' | 'TRAILING_STOP' | 'BREAK_EVEN' | 'EOD' | 'SIGNAL' | 'TIME' | 'LIQUIDATION';
+
 export interface Trade {
   id: string;
   symbol: string;
@@ -16,7 +21,15 @@ export interface Trade {
   assetClass: string;
   commission: number;
   slippage: number;
-  exitReason: 'TP' | 'SL' | 'EOD'; // Take Profit, Stop Loss, End of Day
+  marketImpact?: number; // Price moved against the fills by the order's share of bar volume, in $
+  exitReason: ExitReason;
+  side: TradeSide;
+  borrowCost?: number; // Stock borrow fees paid while a short was open
+  dividends?: number; // Dividends received while a long was open (+), or paid while a short was (-)
+  financingCost?: number; // Interest paid overnight on the borrowed part of a leveraged position
+  entryDate?: string;
+  exitDate?: string;
+  barsHeld?: number;
 }
 
 export interface PortfolioMetric {
@@ -29,8 +42,15 @@ export interface PortfolioMetric {
 export interface PerformanceDataPoint {
   date: string;
   strategy: number;
-  sp500: number;
+  sp500: number; // Benchmark value; SPY unless the backtest config picks another benchmark
   drawdown?: number;
+  // Portfolio accounting, only populated by the backtester
+  cash?: number;
+  exposure?: number; // Market value of open positions
+  marginUsed?: number; // Capital committed to open positions
+  longExposure?: number;
+  shortExposure?: number;
+  strategyEquity?: { [strategyId: string]: number }; // Each strategy's own curve, time-weighted so rebalancing transfers don't show as gains
 }
 
 export interface Allocation {
@@ -98,6 +118,24 @@ export enum Indicator {
     SMA200 = '200-Day SMA',
 }
 
+// Tunable lookback periods for the indicators above. The SMA50/SMA200 enum members map to
+// the fast/slow SMA periods so that the "50-Day"/"200-Day" defaults can still be overridden.
+export interface IndicatorParams {
+    rsiPeriod: number;
+    macdFastPeriod: number;
+    macdSlowPeriod: number;
+    macdSignalPeriod: number;
+    bollingerPeriod: number;
+    bollingerStdDev: number;
+    atrPeriod: number;
+    stochasticKPeriod: number;
+    stochasticDPeriod: number;
+    stochasticSmoothing: number;
+    adxPeriod: number;
+    smaFastPeriod: number;
+    smaSlowPeriod: number;
+}
+
 
 export type FitStatus = 'Good Fit' | 'Potential Overfitting' | 'Potential Underfitting';
 
@@ -115,9 +153,40 @@ export interface SavedStrategy {
   sharpeRatio: number;
   validationAccuracy: number;
   fitStatus: FitStatus;
+  walkForwardProfitableRate?: number; // Share of profitable out-of-sample windows in the last walk-forward, 0-1
   // --- New fields for ML customization ---
   indicators: Indicator[];
   strategyObjective: StrategyObjective;
+  indicatorParams?: Partial<IndicatorParams>; // Overrides for DEFAULT_INDICATOR_PARAMS
+  allowShorts: boolean;
+  exitRules: ExitRules;
+  positionSizing: PositionSizing;
+}
+
+// Scales out of part of a position once price has moved `rMultiple` times the initial risk (entry to stop) in its favour.
+export interface TakeProfitLevel {
+  rMultiple: number;
+  percent: number; // % of the original position closed at this level
+}
+
+export interface ExitRules {
+  trailingStopAtr: number; // Trail the stop this many ATRs behind the best price since entry, 0 disables it
+  maxHoldingBars: number; // Time stop, 0 disables it
+  takeProfitLevels: TakeProfitLevel[]; // Partial exits before the final target; whatever is left still exits there
+  breakEvenAtR: number; // Move the stop to the entry price once price has moved this many R in favour, 0 disables it
+}
+
+export type PositionSizingMethod = 'fixedFraction' | 'riskPerTrade' | 'volatilityTarget' | 'kelly';
+
+// How much margin each new position gets; the position's exposure is that margin times its leverage.
+export interface PositionSizing {
+  method: PositionSizingMethod;
+  equityPercent: number; // fixedFraction: margin as % of equity. The other methods fall back to it when they can't size
+  riskPercent: number; // riskPerTrade: % of equity lost if the stop is hit
+  volatilityPercent: number; // volatilityTarget: % of equity a one-ATR move is worth
+  kellyFraction: number; // kelly: share of the full Kelly bet to take, e.g. 0.5 for half-Kelly
+  kellyLookback: number; // kelly: closed trades the win rate and payoff ratio are measured over
+  maxEquityPercent: number; // Cap on any one position's margin, as % of equity
 }
 
 export interface StrategyDoc {
@@ -144,6 +213,8 @@ export interface ScreenerResult {
   change1D: number; // percentage
   volume: number; // in millions
   country: 'USA' | 'Europe' | 'Asia' | 'Global' | string;
+  rsi: number | null; // latest daily RSI, null if not enough history
+  smaFastDistance: number | null; // % distance of price from the fast (50-day) SMA
 }
 
 // --- Types for Revamped Market Overview ---
@@ -158,6 +229,7 @@ export interface MarketMover {
 export interface ChartDataPoint {
     date: string; // "YYYY-MM-DD"
     value: number;
+    sma?: number | null; // Moving-average overlay, null during indicator warm-up
 }
 
 export interface ChartableAsset {
@@ -284,6 +356,112 @@ export interface AlpacaBar {
   l: number; // Low
   c: number; // Close
   v: number; // Volume
+  dividend?: number; // Cash per share going ex at this bar, in the bar's price basis; set by the price adjustment
+  split?: number; // New shares per old share from a split going ex at this bar; only set on raw prices
+}
+
+// The price basis historical bars are delivered in. Every provider's bars are converted to the same one.
+export type PriceAdjustment = 'raw' | 'split' | 'total';
+
+// A split or cash dividend on its ex-date. Dividends are in split-adjusted terms, like split-adjusted bars.
+export interface CorporateAction {
+  date: string; // Ex-date, YYYY-MM-DD
+  type: 'dividend' | 'split';
+  value: number; // dividend: cash per share; split: new shares per old share
+}
+
+// The exchange calendar a symbol trades on: its timezone, hours, holidays and half days. Forex trades around the
+// clock on weekdays, crypto every day, and 'weekdays' stands in for exchanges without a calendar of their own.
+export type TradingCalendar = 'NYSE' | 'LSE' | 'XETRA' | 'EURONEXT' | 'TSE' | 'HKEX' | 'SSE' | 'forex' | 'crypto' | 'weekdays';
+
+// --- Data quality ---
+export type DataQualityIssueType = 'noData' | 'missingSessions' | 'truncated' | 'nonPositivePrice' | 'outlierJump' | 'staleBars' | 'misalignedTimestamps';
+
+export type DataQualityStatus = 'ok' | 'warning' | 'fail';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  severity: 'warning' | 'fail';
+  count: number; // Bars or sessions affected
+  examples: string[]; // Dates or timestamps of the first few
+}
+
+export interface SymbolDataQuality {
+  symbol: string;
+  calendar: TradingCalendar;
+  bars: number;
+  expectedSessions: number; // Trading days in the requested range
+  coverage: number; // Share of expected sessions with at least one bar, 0-1
+  firstBar: string | null;
+  lastBar: string | null;
+  issues: DataQualityIssue[];
+  status: DataQualityStatus; // The worst issue's severity
+}
+
+// What to do with flagged symbols: drop them, patch gaps and bad prices with the last good close, or not run.
+export type DataQualityAction = 'exclude' | 'forwardFill' | 'abort';
+
+export interface DataQualityReport {
+  timeframe: Timeframe;
+  startDate: string;
+  endDate: string;
+  symbols: SymbolDataQuality[];
+  action?: DataQualityAction; // How the run handled it, when anything was flagged
+  excludedSymbols: string[];
+  filledBars: number; // Bars inserted or repaired by forward-filling
+}
+
+// --- Imported datasets ---
+export type BarField = 't' | 'o' | 'h' | 'l' | 'c' | 'v';
+
+export type ColumnMapping = { [field in BarField]?: string }; // Source column for each bar field
+
+export type CustomAssetClass = 'stock' | 'futures' | 'crypto' | 'forex' | 'index' | 'alternative';
+
+// Which row survives when several share a timestamp, or 'reject' to refuse the file.
+export type DuplicatePolicy = 'keep-last' | 'keep-first' | 'reject';
+
+export interface ImportTable {
+  format: 'csv' | 'parquet';
+  columns: string[];
+  rows: unknown[][]; // One value per column
+}
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  timezone: string; // IANA zone for timestamps without an offset
+  timeframe: Timeframe;
+  duplicatePolicy: DuplicatePolicy;
+}
+
+export interface ImportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportResult {
+  bars: AlpacaBar[];
+  issues: ImportIssue[];
+  rowCount: number;
+  skippedRows: number;
+  duplicateRows: number;
+  inferredTimeframe: Timeframe | null; // From the typical spacing between bars
+}
+
+// A dataset registered on the server; its symbol is served by the custom provider like any other.
+export interface CustomDataset {
+  symbol: string;
+  timeframe: Timeframe;
+  assetClass: CustomAssetClass;
+  description: string;
+  sourceFile: string;
+  sourceFormat: ImportTable['format'];
+  timezone: string;
+  columns: ColumnMapping;
+  barCount: number;
+  firstBar: string;
+  lastBar: string;
+  importedAt: string;
 }
 
 export interface AlpacaCryptoBar extends AlpacaBar {
@@ -361,6 +539,79 @@ export interface SentimentResult {
 
 
 // --- Backtesting result types ---
+export type Timeframe = '5Min' | '15Min' | '1Hour' | '1Day';
+
+export type CommissionType = 'flat' | 'perShare' | 'perNotional' | 'tiered';
+
+// Marginal tier: `rate` (% of notional) applies to the slice of an order's notional below `upTo`; null means no ceiling.
+export interface CommissionTier {
+    upTo: number | null;
+    rate: number;
+}
+
+export interface CommissionModel {
+    type: CommissionType;
+    amount: number; // $ per order (flat), $ per share/unit (perShare) or % of notional (perNotional); unused when tiered
+    tiers: CommissionTier[];
+    minimum: number; // $ floor per order, 0 disables it
+}
+
+export type SlippageType = 'percent' | 'spread';
+
+// Charged on every order, entry and exit alike.
+export interface CostModel {
+    commission: CommissionModel;
+    slippageType: SlippageType;
+    slippage: number; // % of price per fill (percent) or quoted bid-ask spread in bps, half paid per fill (spread)
+    impactCoefficient: number; // Scales bar range × sqrt(order size / bar volume); 0 disables market impact
+}
+
+export type CostModels = { [key in AssetClass]: CostModel };
+
+// Portfolio constraints checked before every entry; 0 disables a limit.
+export interface RiskLimits {
+    maxTradesPerDay: number; // New positions per trading session across all strategies
+    maxOpenPositions: number;
+    maxSymbolExposure: number; // % of equity held in one symbol, summed across strategies
+    maxAssetClassExposure: number; // % of equity held in one asset class
+    dailyLossLimit: number; // % below the day's starting equity at which no new positions open until the next day
+}
+
+// A strategy's leverage range counts as a constraint too: an asset class capped below the strategy's minimum can't be traded.
+// So does its sizing policy, when Kelly sizing finds no edge in the recent trades.
+export type RiskConstraint = keyof RiskLimits | 'leverage' | 'positionSizing';
+
+export type RejectedSignalCounts = { [key in RiskConstraint]: number };
+
+export type AllocationMethod = 'fixedWeights' | 'equalRisk';
+
+export type RebalanceFrequency = 'none' | 'monthly' | 'quarterly';
+
+// How the initial capital is split into one sleeve per strategy. Each sleeve sizes and pays for its own
+// positions; risk limits and margin calls still apply to the account as a whole.
+export interface CapitalAllocation {
+    method: AllocationMethod;
+    weights: { [strategyId: string]: number }; // fixedWeights: relative weights; a strategy without one gets the others' average
+    rebalance: RebalanceFrequency; // Moves free cash between sleeves back towards their weights at the first bar of each period
+    riskLookbackBars: number; // equalRisk: bars of sleeve returns each sleeve's volatility is measured over
+}
+
+export interface BacktestConfig {
+    startDate: string;
+    endDate: string;
+    initialCapital: number;
+    costModels: CostModels; // Commission, slippage and market impact per asset class
+    riskLimits: RiskLimits;
+    timeframe: Timeframe;
+    useTrendBias: boolean; // Only take longs above the 5-bar SMA and shorts below it
+    borrowFeeRate: number; // Annual % of short market value, accrued per calendar day held
+    financingRate: number; // Annual % on the borrowed part of leveraged positions, charged per night held
+    maxHoldingBars: number; // Time stop, 0 disables it
+    benchmarkSymbol: string; // Valued as buy-and-hold in each performance point's `sp500`
+    allocation: CapitalAllocation;
+    priceAdjustment: PriceAdjustment; // Dividends are paid in cash unless the prices are total-return
+}
+
 export interface BacktestSummary {
     trades: number;
     wins: number;
@@ -371,21 +622,247 @@ export interface BacktestSummary {
     avgRR: number;
     avgPositionSize: number;
     avgLeverage: number;
+    longTrades: number;
+    shortTrades: number;
+    longPnl: number;
+    shortPnl: number;
+    totalBorrowCost: number;
+    totalCommission: number;
+    totalSlippage: number;
+    totalMarketImpact: number;
+    totalFinancingCost: number;
+    totalDividends: number; // Net of dividends paid on shorts; not a cost, so not in totalCosts
+    totalCosts: number; // Commission + slippage + market impact + borrow fees + financing
+    marginCalls: number;
+    liquidations: number;
+}
+
+// A close at which equity fell below the maintenance margin on open positions. The backtest can't
+// deposit funds, so positions are force-closed, largest requirement first, until the account is back above it.
+export interface MarginEvent {
+    date: string;
+    equity: number;
+    maintenanceRequirement: number;
+    liquidatedSymbols: string[]; // Positions whose markets were open to be sold on this bar
+}
+
+// One strategy's sleeve of a portfolio backtest. Contributions are shares of the portfolio's initial capital
+// (and of its equity at the start of the deepest drawdown), so across strategies they add up to the portfolio's figures.
+export interface StrategyAttribution {
+    strategyId: string;
+    strategyName: string;
+    startingWeight: number; // % of the initial capital
+    startingCapital: number;
+    finalEquity: number;
+    netTransfers: number; // Cash moved in (+) or out (-) by rebalancing
+    pnl: number;
+    totalReturn: number; // Time-weighted %, on the sleeve's own capital
+    contribution: number; // P&L as % of the portfolio's initial capital
+    maxDrawdown: number; // % on the sleeve's own curve
+    drawdownContribution: number; // P&L from the portfolio's peak to its trough in its deepest drawdown, as % of that peak
+    sharpeRatio: number;
+    trades: number;
+}
+
+// Where a backtest kept its capital in one asset class, averaged over the time the backtest covered.
+export interface AssetClassExposure {
+    assetClass: AssetClass;
+    averageExposure: number; // Time-weighted market value of open positions
+    averageExposurePercent: number; // The same, as a share of time-weighted equity
+    timeInMarket: number; // Share of the backtest with at least one position open (0-1)
+    trades: number;
+    pnl: number;
+}
+
+// Strategy returns measured against the benchmark's, per bar and annualized where it applies.
+export interface BenchmarkStats {
+    sharpe: number;
+    volatility: number; // Annualized standard deviation of strategy returns, as a fraction
+    benchmarkSharpe: number;
+    alpha: number; // Annualized Jensen's alpha, as a fraction
+    beta: number;
+    correlation: number;
+    trackingError: number; // Annualized standard deviation of active returns, as a fraction
+    informationRatio: number;
+    upCapture: number; // % of the benchmark's average up-bar return the strategy captured
+    downCapture: number; // % of the benchmark's average down-bar return the strategy suffered
+}
+
+export interface RollingBenchmarkPoint extends Omit<BenchmarkStats, 'benchmarkSharpe' | 'upCapture' | 'downCapture'> {
+    date: string;
+}
+
+export interface RollingBenchmarkSeries {
+    window: number; // Bars per window
+    points: RollingBenchmarkPoint[];
+}
+
+// Compounded strategy returns per calendar month, in %; null for months the backtest didn't cover.
+export interface MonthlyReturnsRow {
+    year: number;
+    months: (number | null)[]; // January first
+    total: number;
+}
+
+// From the peak equity was last at, through the lowest point, to the first bar back at that peak.
+export interface DrawdownPeriod {
+    start: string;
+    trough: string;
+    recovery: string | null; // Null while the drawdown is still open at the end of the backtest
+    depth: number; // Peak-to-trough loss, as a fraction
+    durationBars: number; // Start to recovery, or to the end of the backtest
+    durationDays: number;
+    recoveryBars: number | null; // Trough to recovery
 }
 
 export interface BacktestResults {
     metrics: PortfolioMetric[];
     performanceData: PerformanceDataPoint[];
-    pnlDistribution: { name: string; count: number; bucket: number }[];
+    pnlDistribution: { name: string; count: number; bucket: number }[]; // Trade returns on margin; `bucket` is the lower edge in %
     allTrades: Trade[];
-    allocationData: Allocation[];
+    allocationData: Allocation[]; // Time-weighted exposure by asset class, with each class's symbols as subAllocations
+    exposureByAssetClass: AssetClassExposure[];
+    benchmarkStats: BenchmarkStats;
+    rollingBenchmarkStats: RollingBenchmarkSeries[];
+    monthlyReturns: MonthlyReturnsRow[];
+    drawdownPeriods: DrawdownPeriod[]; // Deepest first
+    rejectedSignals: RejectedSignalCounts; // Entry signals each risk limit blocked
+    marginEvents: MarginEvent[];
+    strategyAttribution: StrategyAttribution[];
+    strategyCorrelations: number[][]; // Correlation of per-bar sleeve returns, rows and columns in strategyAttribution's order
     summary: BacktestSummary;
     stopLossFeedback: string;
-    config: {
-        startDate: string;
-        endDate: string;
-        initialCapital: number;
-        commission: number;
-        slippage: number;
-    };
+    config: BacktestConfig;
+    dataQuality?: DataQualityReport; // The checks the fetched bars went through before the run
+    barsPerYear: number; // Used to annualise, from the trading calendars of the symbols traded
+}
+
+// A completed portfolio backtest kept in the run history.
+export interface BacktestRun {
+    id: string;
+    createdAt: string; // ISO timestamp
+    strategyIds: string[];
+    strategyNames: string[]; // As they were named when the run was made
+    results: BacktestResults; // Includes the config the run used
+}
+
+// Values for a strategy's tunable settings, applied on top of the saved strategy for one run.
+export interface StrategyParameterSet {
+    stopLossPercentage: number;
+    leverage?: { min: number, max: number };
+    indicatorParams: Partial<IndicatorParams>;
+}
+
+// Every numeric strategy setting a sweep or re-fit can vary.
+export type StrategyParameter = 'stopLossPercentage' | 'leverageMin' | 'leverageMax' | keyof IndicatorParams;
+
+export type StrategyParameterValues = Partial<Record<StrategyParameter, number>>;
+
+export interface ParameterRange {
+    parameter: StrategyParameter;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export type SweepMode = 'grid' | 'random';
+
+export type SweepObjective = 'sharpe' | 'sortino' | 'calmar';
+
+export interface SweepConfig {
+    ranges: ParameterRange[];
+    mode: SweepMode;
+    samples: number; // Random mode only
+    seed: number; // Random mode only, so a sweep can be reproduced
+}
+
+export interface SweepRun {
+    values: StrategyParameterValues;
+    parameters: StrategyParameterSet;
+    sharpe: number;
+    sortino: number;
+    calmar: number;
+    totalReturn: number; // %
+    maxDrawdown: number; // %
+    trades: number;
+}
+
+export interface SweepResults {
+    strategyId: string;
+    runs: SweepRun[];
+    config: BacktestConfig;
+    sweep: SweepConfig;
+}
+
+// 'shuffle' reorders the actual trades (terminal equity is fixed, path risk varies);
+// 'bootstrap' draws trades with replacement (terminal equity varies too).
+export type MonteCarloMethod = 'shuffle' | 'bootstrap';
+
+export interface MonteCarloConfig {
+    simulations: number;
+    method: MonteCarloMethod;
+    ruinDrawdown: number; // % loss from initial capital that counts as ruin
+    seed: number;
+}
+
+export interface MonteCarloBandPoint {
+    trade: number;
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+}
+
+export interface MonteCarloResults {
+    bands: MonteCarloBandPoint[];
+    maxDrawdownDistribution: { bucket: string; count: number }[];
+    terminalEquityPercentiles: { percentile: number; value: number }[];
+    maxDrawdownPercentiles: { percentile: number; value: number }[]; // %
+    probabilityOfRuin: number; // 0-1
+    config: MonteCarloConfig;
+}
+
+export interface WalkForwardConfig {
+    inSampleBars: number;
+    outOfSampleBars: number;
+}
+
+export interface WalkForwardStrategyWindow {
+    strategyId: string;
+    parameters: StrategyParameterSet; // Best in-sample fit, traded out of sample
+    inSampleSharpe: number;
+    outOfSampleSharpe: number;
+    outOfSampleReturn: number; // % over the window
+}
+
+export interface WalkForwardWindow {
+    inSampleStart: string;
+    inSampleEnd: string;
+    outOfSampleStart: string;
+    outOfSampleEnd: string;
+    strategies: WalkForwardStrategyWindow[];
+    outOfSampleReturn: number; // Portfolio % over the window
+}
+
+export interface WalkForwardStrategyReport {
+    strategyId: string;
+    strategyName: string;
+    inSampleSharpe: number; // Mean of each window's best in-sample Sharpe
+    outOfSampleSharpe: number; // Of the stitched out-of-sample curve
+    inSampleReturn: number; // Annualised %, mean across windows
+    outOfSampleReturn: number; // Annualised %
+    efficiency: number; // Out-of-sample Sharpe as a fraction of in-sample Sharpe
+    profitableWindowRate: number; // Share of out-of-sample windows that made money, 0-1
+    fitStatus: FitStatus;
+}
+
+export interface WalkForwardResults {
+    metrics: PortfolioMetric[];
+    performanceData: PerformanceDataPoint[]; // Out-of-sample windows stitched end to end
+    allTrades: Trade[];
+    windows: WalkForwardWindow[];
+    strategies: WalkForwardStrategyReport[];
+    config: BacktestConfig;
+    walkForward: WalkForwardConfig;
 }
@@ -0,0 +1,13 @@
+import { BacktestJobRequest, BacktestWorkerMessage, executeBacktestJob } from '../services/backtestJobService';
+
+const ctx = self as unknown as Worker;
+const post = (message: BacktestWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<BacktestJobRequest>) => {
+    try {
+        const result = await executeBacktestJob(event.data, progress => post({ type: 'progress', progress }));
+        post({ type: 'result', result });
+    } catch (e: any) {
+        post({ type: 'error', message: e.message || 'The backtest failed unexpectedly.' });
+    }
+};
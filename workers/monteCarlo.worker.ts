@@ -0,0 +1,13 @@
+import { MonteCarloRequest, MonteCarloWorkerMessage, runMonteCarlo } from '../services/monteCarloService';
+
+const ctx = self as unknown as Worker;
+const post = (message: MonteCarloWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+    try {
+        const results = runMonteCarlo(event.data, fraction => post({ type: 'progress', fraction }));
+        post({ type: 'result', results });
+    } catch (e: any) {
+        post({ type: 'error', message: e.message || 'Monte Carlo simulation failed.' });
+    }
+};